@@ -3,9 +3,12 @@ import {
   CreditCard, Calendar, DollarSign, Settings, AlertCircle,
   CheckCircle, Clock, RefreshCw, Download, Eye, MoreVertical,
   Plus, Trash2, Edit3, Shield, Crown, Zap, TrendingUp,
-  Receipt, FileText, Bell, X, Loader2, Star, Check
+  Receipt, FileText, Bell, X, Loader2, Star, Check, Mail, Link2, Pause
 } from 'lucide-react';
-import { SubscriptionService } from '../services/subscriptionService';
+import {
+  SubscriptionService, Plan, BillingProfile, InvoiceRecord, CancellationReason, RetentionOffer,
+  SubscriptionEvent
+} from '../services/subscriptionService';
 import { loadStripe, StripeElementsOptions } from '@stripe/stripe-js';
 import {
   Elements,
@@ -32,14 +35,79 @@ interface PaymentMethod {
 
 interface Invoice {
   id: string;
+  type: 'invoice' | 'credit_note';
+  number: string;
   amount: number;
+  currency?: string;
   status: string;
   created: number;
   invoice_pdf?: string;
   period_start: number;
   period_end: number;
+  original_invoice_number?: string;
+  last_email?: {
+    recipient: string;
+    status: 'sent' | 'failed';
+    created: number;
+  };
+}
+
+type PlanChangeTiming = 'immediate' | 'period_end';
+
+interface InvoiceExportForm {
+  from: string;
+  to: string;
+  format: 'csv' | 'zip';
+}
+
+interface ProrationPreview {
+  planType: string;
+  currentPlanType: string;
+  timing: PlanChangeTiming;
+  effectiveAt: string;
+  prorationDate: number;
+  amountDue: number;
+  prorationCredit: number;
+  newPlanAmount: number;
+  currency: string;
+  lines: Array<{
+    description: string;
+    amount: number;
+    proration: boolean;
+  }>;
+}
+
+interface LimitUsage {
+  used: number;
+  limit: number;
+  exceeded: boolean;
+}
+
+interface PlanUsage {
+  planType: string;
+  usage: {
+    customers: LimitUsage;
+    branches: LimitUsage;
+  };
 }
 
+const CANCELLATION_REASONS: Array<{ value: CancellationReason; label: string }> = [
+  { value: 'too_expensive', label: 'It is too expensive' },
+  { value: 'not_using', label: "I'm not using it enough" },
+  { value: 'seasonal_closure', label: 'My restaurant is closed for the season' },
+  { value: 'missing_features', label: 'It is missing features I need' },
+  { value: 'switching_provider', label: "I'm switching to another loyalty provider" },
+  { value: 'technical_issues', label: 'I ran into technical problems' },
+  { value: 'other', label: 'Something else' }
+];
+
+const SUBSCRIPTION_ACTOR_LABELS: Record<SubscriptionEvent['actor_type'], string> = {
+  webhook: 'Stripe',
+  user: 'You',
+  support: 'LEYLS support',
+  system: 'Automatic'
+};
+
 const AddPaymentMethodForm: React.FC<{
   onSuccess: () => void;
   onCancel: () => void;
@@ -175,8 +243,35 @@ const BillingPage: React.FC = () => {
   const [showResubscribeModal, setShowResubscribeModal] = useState(false);
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>('');
   const [resubscribeLoading, setResubscribeLoading] = useState(false);
-  const [cancelReason, setCancelReason] = useState('');
+  const [cancelReason, setCancelReason] = useState<CancellationReason | ''>('');
+  const [cancelFeedback, setCancelFeedback] = useState('');
+  const [cancelFeedbackId, setCancelFeedbackId] = useState<string | null>(null);
+  const [retentionOffer, setRetentionOffer] = useState<RetentionOffer | null>(null);
+  const [retentionPauseMonths, setRetentionPauseMonths] = useState(1);
+  const [subscriptionHistory, setSubscriptionHistory] = useState<SubscriptionEvent[]>([]);
+  const [showPauseModal, setShowPauseModal] = useState(false);
+  const [pauseMonths, setPauseMonths] = useState(1);
   const [downloadingInvoice, setDownloadingInvoice] = useState<string | null>(null);
+  const [planUsage, setPlanUsage] = useState<PlanUsage | null>(null);
+  const [showChangePlanModal, setShowChangePlanModal] = useState(false);
+  const [availablePlans, setAvailablePlans] = useState<Plan[]>([]);
+  const [changePlanTarget, setChangePlanTarget] = useState<string>('');
+  const [planChangePreview, setPlanChangePreview] = useState<ProrationPreview | null>(null);
+  const [planChangeLoading, setPlanChangeLoading] = useState<'preview' | 'confirm' | null>(null);
+  const [planChangeError, setPlanChangeError] = useState('');
+  const [planChangeTiming, setPlanChangeTiming] = useState<PlanChangeTiming>('immediate');
+  const [billingProfile, setBillingProfile] = useState<BillingProfile | null>(null);
+  const [showBillingProfileModal, setShowBillingProfileModal] = useState(false);
+  const [billingProfileForm, setBillingProfileForm] = useState<BillingProfile | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [exportForm, setExportForm] = useState<InvoiceExportForm>(() => {
+    const today = new Date();
+    return {
+      from: new Date(today.getFullYear(), 0, 1).toLocaleDateString('en-CA'),
+      to: today.toLocaleDateString('en-CA'),
+      format: 'csv'
+    };
+  });
 
   const { user, session } = useAuth();
   const navigate = useNavigate();
@@ -195,41 +290,21 @@ const BillingPage: React.FC = () => {
       console.log('📊 Subscription data:', subscriptionData);
       setSubscription(subscriptionData);
 
+      await loadPlanUsage();
+      setBillingProfile(await SubscriptionService.getBillingProfile(user.id));
+
       // Load payment methods if we have a Stripe customer
       if (subscriptionData?.subscription?.stripe_customer_id) {
         console.log('💳 Loading payment methods for customer:', subscriptionData.subscription.stripe_customer_id);
         await loadPaymentMethods(subscriptionData.subscription.stripe_customer_id);
-        
-        // Create mock invoice based on subscription
-        const planAmounts: Record<string, number> = {
-          monthly: 299,
-          semiannual: 999,
-          annual: 1999,
-          trial: 0
-        };
-
-        const amount = planAmounts[subscriptionData.subscription.plan_type] || 0;
-        
-        if (amount > 0) {
-          setInvoices([
-            {
-              id: `in_${subscriptionData.subscription.id.slice(-10)}`,
-              amount,
-              status: 'paid',
-              created: Math.floor(new Date(subscriptionData.subscription.current_period_start).getTime() / 1000),
-              period_start: Math.floor(new Date(subscriptionData.subscription.current_period_start).getTime() / 1000),
-              period_end: Math.floor(new Date(subscriptionData.subscription.current_period_end).getTime() / 1000)
-            }
-          ]);
-        } else {
-          setInvoices([]);
-        }
       } else {
         console.log('💳 No Stripe customer ID found');
         setPaymentMethods([]);
-        setInvoices([]);
       }
 
+      setInvoices(toBillingHistory(await SubscriptionService.getInvoices(user.id)));
+      setSubscriptionHistory(await SubscriptionService.getSubscriptionHistory(user.id));
+
     } catch (err: any) {
       console.error('❌ Error loading billing data:', err);
       setError('Failed to load billing information');
@@ -238,6 +313,52 @@ const BillingPage: React.FC = () => {
     }
   };
 
+  // Credit notes are listed right after the invoice they refund
+  const toBillingHistory = (records: InvoiceRecord[]): Invoice[] => {
+    const toTimestamp = (value: string) => Math.floor(new Date(value).getTime() / 1000);
+
+    return records.flatMap(record => {
+      const refunded = Number(record.amount_refunded) || 0;
+      const lastEmail = [...(record.email_deliveries || [])]
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+      const invoice: Invoice = {
+        id: record.id,
+        type: 'invoice',
+        number: record.invoice_number,
+        amount: Number(record.total),
+        currency: record.currency,
+        status: refunded >= Number(record.total) && refunded > 0
+          ? 'refunded'
+          : refunded > 0 ? 'partially refunded' : record.status,
+        created: toTimestamp(record.invoice_date),
+        period_start: toTimestamp(record.period_start),
+        period_end: toTimestamp(record.period_end),
+        last_email: lastEmail && {
+          recipient: lastEmail.recipient,
+          status: lastEmail.status,
+          created: toTimestamp(lastEmail.created_at)
+        }
+      };
+
+      const creditNotes: Invoice[] = (record.credit_notes || [])
+        .filter(creditNote => creditNote.status !== 'void')
+        .map(creditNote => ({
+          id: creditNote.id,
+          type: 'credit_note',
+          number: creditNote.credit_note_number,
+          amount: -Number(creditNote.amount),
+          currency: creditNote.currency,
+          status: creditNote.status,
+          created: toTimestamp(creditNote.issued_at || creditNote.created_at),
+          period_start: invoice.period_start,
+          period_end: invoice.period_end,
+          original_invoice_number: record.invoice_number
+        }));
+
+      return [invoice, ...creditNotes];
+    });
+  };
+
   const loadPaymentMethods = async (customerId: string) => {
     try {
       console.log('🔍 Fetching payment methods for customer:', customerId);
@@ -268,6 +389,33 @@ const BillingPage: React.FC = () => {
     }
   };
 
+  const loadPlanUsage = async () => {
+    try {
+      const accessToken = session?.access_token;
+      if (!accessToken) return;
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/get-plan-usage`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        }
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Plan usage fetch failed:', response.status, errorText);
+        throw new Error(`Failed to fetch plan usage: ${response.status}`);
+      }
+
+      const usage: PlanUsage = await response.json();
+      console.log('✅ Plan usage loaded:', usage.usage);
+      setPlanUsage(usage);
+    } catch (error) {
+      console.error('❌ Error loading plan usage:', error);
+      setPlanUsage(null);
+    }
+  };
+
   useEffect(() => {
     if (user) {
       loadBillingData();
@@ -293,23 +441,46 @@ const BillingPage: React.FC = () => {
     return () => window.removeEventListener('subscription-updated', handleSubscriptionUpdate);
   }, []);
 
+  const closeCancelModal = () => {
+    setShowCancelModal(false);
+    setCancelReason('');
+    setCancelFeedback('');
+    setCancelFeedbackId(null);
+    setRetentionOffer(null);
+    setRetentionPauseMonths(1);
+  };
+
   const handleCancelSubscription = async () => {
-    if (!subscription?.subscription?.id) return;
+    if (!subscription?.subscription?.id || !cancelReason) return;
 
     try {
       setActionLoading('cancel');
-      
-      // Update subscription status to cancelled in our database
-      await SubscriptionService.updateSubscriptionStatus(subscription.subscription.id, 'cancelled');
-      
-      // Refresh subscription data
-      await loadBillingData();
-      setShowCancelModal(false);
-      setCancelReason('');
-      
-      // Show success message
-      alert('Subscription cancelled successfully. You will retain access until the end of your billing period.');
-      
+      setError('');
+
+      // Record why the owner is leaving; a retention offer may come back before anything is cancelled
+      const { feedbackId, offer } = await SubscriptionService.startCancellation(cancelReason, cancelFeedback);
+
+      if (offer) {
+        setCancelFeedbackId(feedbackId);
+        setRetentionOffer(offer);
+        return;
+      }
+
+      await finishCancellation(feedbackId);
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel subscription');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleDeclineRetentionOffer = async () => {
+    if (!cancelFeedbackId) return;
+
+    try {
+      setActionLoading('cancel');
+      setError('');
+      await finishCancellation(cancelFeedbackId);
     } catch (err: any) {
       setError(err.message || 'Failed to cancel subscription');
     } finally {
@@ -317,6 +488,92 @@ const BillingPage: React.FC = () => {
     }
   };
 
+  const finishCancellation = async (feedbackId: string) => {
+    await SubscriptionService.confirmCancellation(feedbackId);
+
+    // Refresh subscription data
+    await loadBillingData();
+    closeCancelModal();
+
+    alert('Subscription cancelled successfully. You will retain access until the end of your billing period.');
+
+    window.dispatchEvent(new CustomEvent('subscription-updated'));
+  };
+
+  const handleAcceptRetentionOffer = async () => {
+    if (!cancelFeedbackId || !retentionOffer) return;
+
+    try {
+      setActionLoading('retention-offer');
+      setError('');
+
+      await SubscriptionService.acceptRetentionOffer(
+        cancelFeedbackId,
+        retentionOffer.type === 'pause' ? retentionPauseMonths : undefined
+      );
+      await loadBillingData();
+      closeCancelModal();
+
+      alert(retentionOffer.type === 'pause'
+        ? `Subscription paused for ${retentionPauseMonths} month${retentionPauseMonths === 1 ? '' : 's'}. Thanks for staying with us!`
+        : 'Your discount has been applied to your next invoice. Thanks for staying with us!');
+
+      window.dispatchEvent(new CustomEvent('subscription-updated'));
+    } catch (err: any) {
+      setError(err.message || 'Failed to apply the offer');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const getRetentionDiscountText = (offer: Extract<RetentionOffer, { type: 'discount' }>) => {
+    const amount = offer.percentOff
+      ? `${offer.percentOff}% off`
+      : `${formatCurrency(offer.amountOff || 0, offer.currency)} off`;
+    if (offer.duration === 'forever') return `${amount} every invoice`;
+    if (offer.duration === 'repeating' && offer.durationInMonths) {
+      return `${amount} for ${offer.durationInMonths} month${offer.durationInMonths === 1 ? '' : 's'}`;
+    }
+    return `${amount} your next invoice`;
+  };
+
+  const handlePauseSubscription = async () => {
+    try {
+      setActionLoading('pause');
+      setError('');
+
+      const resumesAt = await SubscriptionService.pauseSubscription(pauseMonths);
+      await loadBillingData();
+      setShowPauseModal(false);
+
+      alert(`Subscription paused. Billing resumes on ${new Date(resumesAt).toLocaleDateString()}.`);
+
+      window.dispatchEvent(new CustomEvent('subscription-updated'));
+    } catch (err: any) {
+      setError(err.message || 'Failed to pause subscription');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleResumeSubscription = async () => {
+    try {
+      setActionLoading('resume');
+      setError('');
+
+      await SubscriptionService.resumeSubscription();
+      await loadBillingData();
+
+      alert('Your subscription is resuming. Full access returns as soon as billing restarts.');
+
+      window.dispatchEvent(new CustomEvent('subscription-updated'));
+    } catch (err: any) {
+      setError(err.message || 'Failed to resume subscription');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleResubscribe = async () => {
     if (!subscription?.subscription?.id || !selectedPaymentMethod) return;
 
@@ -365,6 +622,165 @@ const BillingPage: React.FC = () => {
     }
   };
 
+  const openChangePlanModal = async () => {
+    setShowChangePlanModal(true);
+    setChangePlanTarget('');
+    setPlanChangePreview(null);
+    setPlanChangeError('');
+    setPlanChangeTiming('immediate');
+
+    const plans = await SubscriptionService.getPlanCatalog();
+    setAvailablePlans(plans.filter(plan =>
+      plan.plan_type !== 'trial' && plan.plan_type !== subscription?.subscription?.plan_type
+    ));
+  };
+
+  const closeChangePlanModal = () => {
+    setShowChangePlanModal(false);
+    setChangePlanTarget('');
+    setPlanChangePreview(null);
+    setPlanChangeError('');
+  };
+
+  const requestPlanChange = async (body: {
+    planType?: string;
+    confirm?: boolean;
+    prorationDate?: number;
+    timing?: PlanChangeTiming;
+    cancelScheduled?: boolean;
+  }) => {
+    const accessToken = session?.access_token;
+    if (!accessToken) {
+      throw new Error('No valid session found. Please log in again.');
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/change-plan`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to change plan');
+    }
+    return data;
+  };
+
+  const handlePreviewPlanChange = async (planType: string, timing: PlanChangeTiming = planChangeTiming) => {
+    try {
+      setChangePlanTarget(planType);
+      setPlanChangePreview(null);
+      setPlanChangeError('');
+      setPlanChangeLoading('preview');
+
+      const data = await requestPlanChange({ planType, confirm: false, timing });
+      setPlanChangePreview(data.preview);
+    } catch (err: any) {
+      setPlanChangeError(err.message || 'Failed to preview plan change');
+    } finally {
+      setPlanChangeLoading(null);
+    }
+  };
+
+  const handleConfirmPlanChange = async () => {
+    if (!changePlanTarget || !planChangePreview) return;
+
+    try {
+      setPlanChangeLoading('confirm');
+      setPlanChangeError('');
+
+      await requestPlanChange({
+        planType: changePlanTarget,
+        confirm: true,
+        prorationDate: planChangePreview.prorationDate,
+        timing: planChangePreview.timing
+      });
+
+      closeChangePlanModal();
+      await loadBillingData();
+
+      if (planChangePreview.timing === 'period_end') {
+        alert(`Your plan will change to the ${getPlanDisplayName(changePlanTarget)} on ${new Date(planChangePreview.effectiveAt).toLocaleDateString()}.`);
+      } else {
+        alert(`Your plan has been changed to the ${getPlanDisplayName(changePlanTarget)}.`);
+      }
+
+      window.dispatchEvent(new CustomEvent('subscription-updated'));
+    } catch (err: any) {
+      setPlanChangeError(err.message || 'Failed to change plan');
+    } finally {
+      setPlanChangeLoading(null);
+    }
+  };
+
+  const handlePlanChangeTimingChange = (timing: PlanChangeTiming) => {
+    setPlanChangeTiming(timing);
+    if (changePlanTarget) {
+      handlePreviewPlanChange(changePlanTarget, timing);
+    }
+  };
+
+  const handleCancelScheduledPlanChange = async () => {
+    try {
+      setActionLoading('cancel-scheduled');
+      setError('');
+
+      await requestPlanChange({ cancelScheduled: true });
+      await loadBillingData();
+
+      alert('Your scheduled plan change has been cancelled.');
+
+      window.dispatchEvent(new CustomEvent('subscription-updated'));
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel scheduled plan change');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const openBillingProfileModal = () => {
+    if (!user) return;
+
+    setBillingProfileForm(billingProfile || {
+      user_id: user.id,
+      legal_name: '',
+      tax_id: '',
+      address_line1: '',
+      address_line2: '',
+      city: '',
+      state: '',
+      postal_code: '',
+      country: '',
+      billing_email: ''
+    });
+    setShowBillingProfileModal(true);
+  };
+
+  const updateBillingProfileField = (field: keyof BillingProfile, value: string) => {
+    setBillingProfileForm(prev => prev ? { ...prev, [field]: value } : prev);
+  };
+
+  const handleSaveBillingProfile = async () => {
+    if (!billingProfileForm) return;
+
+    try {
+      setActionLoading('billing-profile');
+      setError('');
+
+      const saved = await SubscriptionService.saveBillingProfile(billingProfileForm);
+      setBillingProfile(saved);
+      setShowBillingProfileModal(false);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save billing details');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleAddPaymentMethodSuccess = async () => {
     setShowAddPaymentModal(false);
     if (subscription?.subscription?.stripe_customer_id) {
@@ -446,7 +862,8 @@ const BillingPage: React.FC = () => {
 
       console.log('Downloading invoice:', invoice.id);
 
-      const downloadUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/download-receipt/${invoice.id}`;
+      const downloadPath = invoice.type === 'credit_note' ? `credit-notes/${invoice.id}` : invoice.id;
+      const downloadUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/download-receipt/${downloadPath}`;
 
       const response = await fetch(downloadUrl, {
         method: 'GET',
@@ -466,7 +883,7 @@ const BillingPage: React.FC = () => {
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.setAttribute('download', `Receipt-${invoice.id}.pdf`);
+      link.setAttribute('download', `${invoice.type === 'credit_note' ? 'CreditNote' : 'Receipt'}-${invoice.number}.pdf`);
       document.body.appendChild(link);
       link.click();
 
@@ -482,6 +899,93 @@ const BillingPage: React.FC = () => {
     }
   };
 
+  const handleExportInvoices = async () => {
+    try {
+      setActionLoading('export-invoices');
+      setError('');
+
+      const params = new URLSearchParams({
+        from: exportForm.from,
+        to: exportForm.to,
+        format: exportForm.format
+      });
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/download-receipt/export?${params}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${session?.access_token}`,
+        }
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || `Failed to export invoices. Server status: ${response.status}`);
+      }
+
+      const blob = await response.blob();
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', `Invoices-${exportForm.from}-to-${exportForm.to}.${exportForm.format}`);
+      document.body.appendChild(link);
+      link.click();
+
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      setShowExportModal(false);
+    } catch (err: any) {
+      console.error('Export error:', err);
+      setError(err.message || 'Failed to export invoices. Please try again.');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleResendInvoiceEmail = async (invoice: Invoice) => {
+    try {
+      setActionLoading(`email-${invoice.id}`);
+      setError('');
+
+      const recipient = await SubscriptionService.resendInvoiceEmail(invoice.id);
+      alert(`Receipt ${invoice.number} sent to ${recipient}`);
+
+      if (user) {
+        setInvoices(toBillingHistory(await SubscriptionService.getInvoices(user.id)));
+      }
+    } catch (err: any) {
+      console.error('Resend invoice email error:', err);
+      setError(err.message || 'Failed to email receipt. Please try again.');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleShareInvoice = async (invoice: Invoice) => {
+    try {
+      setActionLoading(`share-${invoice.id}`);
+      setError('');
+
+      const link = await SubscriptionService.createReceiptLink(
+        invoice.type === 'credit_note' ? { creditNoteId: invoice.id } : { invoiceId: invoice.id }
+      );
+      await navigator.clipboard.writeText(link.url);
+
+      const expiresOn = new Date(link.expiresAt).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric'
+      });
+      alert(`Link to ${invoice.number} copied to clipboard. Anyone with the link can download it until ${expiresOn}.`);
+    } catch (err: any) {
+      console.error('Share invoice error:', err);
+      setError(err.message || 'Failed to create receipt link. Please try again.');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp * 1000).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -490,14 +994,20 @@ const BillingPage: React.FC = () => {
     });
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string = 'USD') => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: currency.toUpperCase(),
       minimumFractionDigits: 2
     }).format(amount / 100);
   };
 
+  // Plans are shown in the currency the subscription is billed in
+  const formatPlanPrice = (plan: Plan) => {
+    const price = SubscriptionService.getPlanPrice(plan.plan_type, subscription?.subscription?.currency);
+    return formatCurrency(price?.amount ?? plan.amount, price?.currency ?? plan.currency);
+  };
+
   const getPlanDisplayName = (planType: string) => {
     switch (planType) {
       case 'monthly': return 'Monthly Plan';
@@ -512,12 +1022,48 @@ const BillingPage: React.FC = () => {
     switch (status) {
       case 'active': return 'bg-green-100 text-green-800';
       case 'past_due': return 'bg-yellow-100 text-yellow-800';
+      case 'paused': return 'bg-blue-100 text-blue-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
       case 'expired': return 'bg-gray-100 text-gray-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
+  const describeSubscriptionEvent = (event: SubscriptionEvent) => {
+    const change = (field: string) => event.changes[field] as { from: any; to: any } | undefined;
+    const capitalize = (value: any) => value ? String(value).charAt(0).toUpperCase() + String(value).slice(1) : 'None';
+    const shortDate = (value: any) => new Date(value).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+
+    switch (event.event_type) {
+      case 'created':
+        return `Started the ${getPlanDisplayName(event.plan_type || '')}`;
+      case 'plan_changed':
+        return `Changed from the ${getPlanDisplayName(change('plan_type')?.from)} to the ${getPlanDisplayName(change('plan_type')?.to)}`;
+      case 'status_changed':
+        return `Status changed from ${capitalize(change('status')?.from)} to ${capitalize(change('status')?.to)}`;
+      case 'renewed':
+        return event.period_start && event.period_end
+          ? `Renewed for ${shortDate(event.period_start)} – ${shortDate(event.period_end)}`
+          : 'Billing period renewed';
+      case 'plan_change_scheduled':
+        return change('scheduled_plan_type')?.to
+          ? `Scheduled a switch to the ${getPlanDisplayName(change('scheduled_plan_type')?.to)}`
+          : 'Cancelled the scheduled plan change';
+      case 'cancellation_changed':
+        return change('cancel_at_period_end')?.to
+          ? 'Set to cancel at the end of the billing period'
+          : 'Automatic renewal turned back on';
+      default:
+        return change('pause_resumes_at')?.to
+          ? `Billing set to resume on ${shortDate(change('pause_resumes_at')?.to)}`
+          : 'Subscription details updated';
+    }
+  };
+
   const getBillingPeriodText = () => {
   if (!subscription?.subscription) return 'N/A';
 
@@ -559,6 +1105,16 @@ const getPlanDurationText = (planType: string) => {
     const plan = subscription.subscription.plan_type;
     const endDate = subscription.subscription.current_period_end;
     const isCancelled = subscription.isCancelled;
+
+    if (subscription.isPaused) {
+      const resumesAt = subscription.subscription.pause_resumes_at;
+      return {
+        text: resumesAt ? new Date(resumesAt).toLocaleDateString() : 'N/A',
+        isOneTime: false,
+        label: 'Billing Resumes',
+        isExpired: false
+      };
+    }
     
     if (isCancelled) {
       return { 
@@ -597,6 +1153,27 @@ const getPlanDurationText = (planType: string) => {
     }
   };
 
+  const formatUsage = (usage: LimitUsage | undefined, fallbackLimit: number) => {
+    const limit = usage?.limit ?? fallbackLimit;
+    if (limit === -1) {
+      return usage ? `${usage.used} / Unlimited` : 'Unlimited';
+    }
+    return usage ? `${usage.used} / ${limit}` : `${limit} max`;
+  };
+
+  const renderUsageBar = (usage: LimitUsage | undefined) => {
+    if (!usage || usage.limit <= 0) return null;
+    const percent = Math.min(100, Math.round((usage.used / usage.limit) * 100));
+    return (
+      <div className="w-full h-1.5 bg-gray-100 rounded-full mt-1">
+        <div
+          className={`h-1.5 rounded-full ${usage.exceeded ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-green-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    );
+  };
+
   const shouldShowUpgradePrompt = () => {
     return subscription?.isExpired || 
            (subscription?.isCancelled && subscription?.isExpired) ||
@@ -743,6 +1320,41 @@ const getPlanDurationText = (planType: string) => {
                   </div>
                 )}
 
+                {subscription.isPaused && (
+                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-3">
+                    <p className="text-blue-800 text-sm font-medium">
+                      Subscription paused. Your dashboard is read-only until billing resumes on {nextBillingInfo.text}.
+                    </p>
+                    <button
+                      onClick={handleResumeSubscription}
+                      disabled={actionLoading === 'resume'}
+                      className="mt-2 text-sm text-blue-700 hover:text-blue-900 underline disabled:opacity-50"
+                    >
+                      {actionLoading === 'resume' ? 'Resuming...' : 'Resume Now'}
+                    </button>
+                  </div>
+                )}
+
+                {!subscription.isCancelled && subscription.subscription.scheduled_plan_type && (
+                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-3">
+                    <p className="text-blue-800 text-sm font-medium">
+                      Switching to the {getPlanDisplayName(subscription.subscription.scheduled_plan_type)} on{' '}
+                      {new Date(subscription.subscription.scheduled_change_at).toLocaleDateString('en-US', {
+                        year: 'numeric',
+                        month: 'short',
+                        day: 'numeric'
+                      })}
+                    </p>
+                    <button
+                      onClick={handleCancelScheduledPlanChange}
+                      disabled={actionLoading === 'cancel-scheduled'}
+                      className="mt-2 text-sm text-blue-700 hover:text-blue-900 underline disabled:opacity-50"
+                    >
+                      {actionLoading === 'cancel-scheduled' ? 'Cancelling...' : 'Cancel Scheduled Change'}
+                    </button>
+                  </div>
+                )}
+
                 {subscription.isCancelled && !subscription.isExpired && (
                   <button
                     onClick={() => setShowResubscribeModal(true)}
@@ -763,6 +1375,33 @@ const getPlanDurationText = (planType: string) => {
                   </button>
                 )}
 
+                {!subscription.isCancelled && !subscription.isExpired &&
+                  subscription.subscription.status === 'active' &&
+                  subscription.subscription.stripe_subscription_id &&
+                  subscription.subscription.plan_type !== 'trial' && (
+                  <button
+                    onClick={openChangePlanModal}
+                    className="w-full py-2 px-4 text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors text-sm font-medium flex items-center justify-center gap-2"
+                  >
+                    <Zap className="h-4 w-4" />
+                    Change Plan
+                  </button>
+                )}
+
+                {!subscription.isCancelled && !subscription.isExpired &&
+                  subscription.subscription.status === 'active' &&
+                  subscription.subscription.stripe_subscription_id &&
+                  subscription.subscription.plan_type !== 'trial' &&
+                  !subscription.subscription.scheduled_plan_type && (
+                  <button
+                    onClick={() => setShowPauseModal(true)}
+                    className="w-full py-2 px-4 text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex items-center justify-center gap-2"
+                  >
+                    <Pause className="h-4 w-4" />
+                    Pause Subscription
+                  </button>
+                )}
+
                 {!subscription.isCancelled && !subscription.isExpired && subscription.subscription.plan_type !== 'trial' && (
                   <button
                     onClick={() => setShowCancelModal(true)}
@@ -884,6 +1523,65 @@ const getPlanDurationText = (planType: string) => {
         </div>
       </div>
 
+      {/* Billing Details */}
+      <div className="bg-white rounded-2xl p-6 border border-gray-200">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
+              <FileText className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Billing Details</h3>
+              <p className="text-sm text-gray-600">Legal name, tax ID and address shown on your invoices</p>
+            </div>
+          </div>
+          <button
+            onClick={openBillingProfileModal}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <Edit3 className="h-5 w-5" />
+          </button>
+        </div>
+
+        {billingProfile ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500">Legal Name</p>
+              <p className="font-medium text-gray-900">{billingProfile.legal_name || '—'}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Tax ID</p>
+              <p className="font-medium text-gray-900">{billingProfile.tax_id || '—'}</p>
+            </div>
+            <div className="md:col-span-2">
+              <p className="text-gray-500">Invoices Sent To</p>
+              <p className="font-medium text-gray-900">{billingProfile.billing_email || user?.email || '—'}</p>
+            </div>
+            <div className="md:col-span-2">
+              <p className="text-gray-500">Billing Address</p>
+              <p className="font-medium text-gray-900">
+                {[
+                  billingProfile.address_line1,
+                  billingProfile.address_line2,
+                  [billingProfile.postal_code, billingProfile.city, billingProfile.state].filter(Boolean).join(' '),
+                  billingProfile.country
+                ].filter(Boolean).join(', ') || '—'}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-6">
+            <p className="text-gray-500 mb-4">No billing details yet</p>
+            <button
+              onClick={openBillingProfileModal}
+              className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+            >
+              Add billing details
+            </button>
+          </div>
+        )}
+      </div>
+
       {/* Billing History */}
       <div className="bg-white rounded-2xl p-6 border border-gray-200">
         <div className="flex items-center justify-between mb-6">
@@ -896,6 +1594,14 @@ const getPlanDurationText = (planType: string) => {
               <p className="text-sm text-gray-600">Download invoices and view payment history</p>
             </div>
           </div>
+          <button
+            onClick={() => setShowExportModal(true)}
+            disabled={invoices.length === 0}
+            className="flex items-center gap-2 px-4 py-2 text-sm border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4" />
+            Export
+          </button>
         </div>
 
         {invoices.length === 0 ? (
@@ -921,27 +1627,62 @@ const getPlanDurationText = (planType: string) => {
                     <td className="py-3 px-4 text-gray-900">
                       {formatDate(invoice.created)}
                     </td>
-                    <td className="py-3 px-4 font-semibold text-gray-900">
-                      {formatCurrency(invoice.amount)}
+                    <td className={`py-3 px-4 font-semibold ${invoice.type === 'credit_note' ? 'text-green-700' : 'text-gray-900'}`}>
+                      {invoice.amount < 0 ? '-' : ''}{formatCurrency(Math.abs(invoice.amount), invoice.currency)}
                     </td>
                     <td className="py-3 px-4">
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                         invoice.status === 'paid' ? 'bg-green-100 text-green-800' :
                         invoice.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                        invoice.status === 'issued' ? 'bg-blue-100 text-blue-800' :
+                        invoice.status.includes('refunded') ? 'bg-gray-100 text-gray-800' :
                         'bg-red-100 text-red-800'
                       }`}>
+                        {invoice.type === 'credit_note' ? 'Credit note ' : ''}
                         {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
                       </span>
                     </td>
                     <td className="py-3 px-4 text-gray-600 text-sm">
-                      {formatDate(invoice.period_start)} - {formatDate(invoice.period_end)}
+                      {invoice.type === 'credit_note'
+                        ? `${invoice.number} · refund of ${invoice.original_invoice_number}`
+                        : `${formatDate(invoice.period_start)} - ${formatDate(invoice.period_end)}`}
                     </td>
-                    <td className="py-3 px-4 text-right">
+                    <td className="py-3 px-4 text-right whitespace-nowrap">
+                      {invoice.type === 'invoice' && (
+                        <button
+                          onClick={() => handleResendInvoiceEmail(invoice)}
+                          disabled={actionLoading === `email-${invoice.id}`}
+                          className={`p-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                            invoice.last_email?.status === 'failed' ? 'text-red-500 hover:text-red-600' : 'text-gray-400 hover:text-gray-600'
+                          }`}
+                          title={invoice.last_email
+                            ? `${invoice.last_email.status === 'sent' ? 'Emailed' : 'Email failed'} to ${invoice.last_email.recipient} on ${formatDate(invoice.last_email.created)}. Click to resend.`
+                            : 'Email Receipt'}
+                        >
+                          {actionLoading === `email-${invoice.id}` ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Mail className="h-4 w-4" />
+                          )}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleShareInvoice(invoice)}
+                        disabled={actionLoading === `share-${invoice.id}`}
+                        className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Copy Shareable Link"
+                      >
+                        {actionLoading === `share-${invoice.id}` ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Link2 className="h-4 w-4" />
+                        )}
+                      </button>
                       <button
                         onClick={() => handleDownloadInvoice(invoice)}
                         disabled={downloadingInvoice === invoice.id}
                         className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                        title="Download Receipt"
+                        title={invoice.type === 'credit_note' ? 'Download Credit Note' : 'Download Receipt'}
                       >
                         {downloadingInvoice === invoice.id ? (
                           <Loader2 className="h-4 w-4 animate-spin" />
@@ -958,6 +1699,46 @@ const getPlanDurationText = (planType: string) => {
         )}
       </div>
 
+      {/* Subscription History */}
+      <div className="bg-white rounded-2xl p-6 border border-gray-200">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-12 h-12 bg-indigo-100 rounded-xl flex items-center justify-center">
+            <Clock className="h-6 w-6 text-indigo-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Subscription History</h3>
+            <p className="text-sm text-gray-600">Every change to your plan and who made it</p>
+          </div>
+        </div>
+
+        {subscriptionHistory.length === 0 ? (
+          <div className="text-center py-8">
+            <Clock className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No subscription changes yet</p>
+          </div>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+            {subscriptionHistory.map((event) => (
+              <li key={event.id} className="ml-6">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-indigo-200 border-2 border-white" />
+                <p className="font-medium text-gray-900">{describeSubscriptionEvent(event)}</p>
+                <p className="text-sm text-gray-500">
+                  {new Date(event.created_at).toLocaleString('en-US', {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit'
+                  })}
+                  {' · '}
+                  {SUBSCRIPTION_ACTOR_LABELS[event.actor_type]}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
       {/* Usage & Limits */}
       <div className="bg-white rounded-2xl p-6 border border-gray-200">
         <div className="flex items-center gap-3 mb-6">
@@ -966,24 +1747,30 @@ const getPlanDurationText = (planType: string) => {
           </div>
           <div>
             <h3 className="text-lg font-semibold text-gray-900">Plan Features</h3>
-            <p className="text-sm text-gray-600">Available features in your current plan</p>
+            <p className="text-sm text-gray-600">Available features and usage in your current plan</p>
           </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-gray-600">Customers</span>
-              <span className="text-sm font-medium text-gray-900">
-                {subscription?.features?.maxCustomers === -1 ? 'Unlimited' : `${subscription?.features?.maxCustomers || 100} max`}
-              </span>
+            <div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">Customers</span>
+                <span className={`text-sm font-medium ${planUsage?.usage.customers.exceeded ? 'text-red-600' : 'text-gray-900'}`}>
+                  {formatUsage(planUsage?.usage.customers, subscription?.features?.maxCustomers ?? 100)}
+                </span>
+              </div>
+              {renderUsageBar(planUsage?.usage.customers)}
             </div>
 
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-gray-600">Branches</span>
-              <span className="text-sm font-medium text-gray-900">
-                {subscription?.features?.maxBranches === -1 ? 'Unlimited' : `${subscription?.features?.maxBranches || 1} max`}
-              </span>
+            <div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">Branches</span>
+                <span className={`text-sm font-medium ${planUsage?.usage.branches.exceeded ? 'text-red-600' : 'text-gray-900'}`}>
+                  {formatUsage(planUsage?.usage.branches, subscription?.features?.maxBranches ?? 1)}
+                </span>
+              </div>
+              {renderUsageBar(planUsage?.usage.branches)}
             </div>
 
             <div className="flex items-center justify-between">
@@ -1061,9 +1848,182 @@ const getPlanDurationText = (planType: string) => {
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
           <div className="bg-white rounded-2xl p-6 max-w-md w-full">
             <div className="flex items-center justify-between mb-6">
-              <h3 className="text-lg font-bold text-gray-900">Cancel Subscription</h3>
+              <h3 className="text-lg font-bold text-gray-900">
+                {retentionOffer ? 'Before You Go' : 'Cancel Subscription'}
+              </h3>
               <button
-                onClick={() => setShowCancelModal(false)}
+                onClick={closeCancelModal}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {retentionOffer ? (
+              <>
+                <div className="space-y-4">
+                  <div className="bg-green-50 border border-green-200 rounded-xl p-4">
+                    <div className="flex items-start gap-3">
+                      {retentionOffer.type === 'pause' ? (
+                        <Pause className="h-5 w-5 text-green-600 mt-0.5" />
+                      ) : (
+                        <Star className="h-5 w-5 text-green-600 mt-0.5" />
+                      )}
+                      <div>
+                        {retentionOffer.type === 'pause' ? (
+                          <>
+                            <p className="font-medium text-green-900 mb-1">Pause instead of cancelling</p>
+                            <p className="text-green-700 text-sm">
+                              Stop billing for up to {retentionOffer.maxMonths} months and keep your customers, points and rewards.
+                              Billing restarts automatically when you are ready.
+                            </p>
+                          </>
+                        ) : (
+                          <>
+                            <p className="font-medium text-green-900 mb-1">
+                              Stay and get {getRetentionDiscountText(retentionOffer)}
+                            </p>
+                            <p className="text-green-700 text-sm">
+                              {retentionOffer.description || 'The discount is applied to your subscription straight away.'}
+                            </p>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
+                  {retentionOffer.type === 'pause' && (
+                    <div className="grid grid-cols-3 gap-2">
+                      {Array.from({ length: retentionOffer.maxMonths }, (_, i) => i + 1).map((months) => (
+                        <button
+                          key={months}
+                          onClick={() => setRetentionPauseMonths(months)}
+                          className={`py-2 px-3 rounded-lg border text-sm font-medium transition-colors ${
+                            retentionPauseMonths === months
+                              ? 'border-green-500 bg-green-50 text-green-700'
+                              : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {months} month{months === 1 ? '' : 's'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex gap-3 mt-6">
+                  <button
+                    onClick={handleDeclineRetentionOffer}
+                    disabled={actionLoading === 'cancel' || actionLoading === 'retention-offer'}
+                    className="flex-1 py-3 px-4 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                  >
+                    {actionLoading === 'cancel' ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      'Cancel Anyway'
+                    )}
+                  </button>
+                  <button
+                    onClick={handleAcceptRetentionOffer}
+                    disabled={actionLoading === 'cancel' || actionLoading === 'retention-offer'}
+                    className="flex-1 py-3 px-4 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                  >
+                    {actionLoading === 'retention-offer' ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      retentionOffer.type === 'pause' ? 'Pause Subscription' : 'Accept Offer'
+                    )}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="space-y-4">
+                  <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+                    <div className="flex items-start gap-3">
+                      <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
+                      <div>
+                        <p className="font-medium text-red-900 mb-1">Are you sure?</p>
+                        <p className="text-red-700 text-sm">
+                          Cancelling your subscription will:
+                        </p>
+                        <ul className="text-red-700 text-sm mt-2 space-y-1 list-disc list-inside">
+                          <li>End access to premium features after your billing period</li>
+                          <li>Stop automatic billing</li>
+                          <li>Limit customer capacity to 100</li>
+                          <li>Remove advanced analytics and reporting</li>
+                        </ul>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Why are you cancelling?
+                    </label>
+                    <select
+                      value={cancelReason}
+                      onChange={(e) => setCancelReason(e.target.value as CancellationReason)}
+                      className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    >
+                      <option value="">Select a reason</option>
+                      {CANCELLATION_REASONS.map((reason) => (
+                        <option key={reason.value} value={reason.value}>{reason.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Anything else we should know? (optional)
+                    </label>
+                    <textarea
+                      value={cancelFeedback}
+                      onChange={(e) => setCancelFeedback(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      placeholder="Help us improve by telling us why you're cancelling..."
+                      rows={3}
+                    />
+                  </div>
+
+                  <p className="text-gray-600 text-sm">
+                    Your subscription will remain active until {nextBillingInfo.text}.
+                  </p>
+                </div>
+
+                <div className="flex gap-3 mt-6">
+                  <button
+                    onClick={closeCancelModal}
+                    className="flex-1 py-3 px-4 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+                  >
+                    Keep Subscription
+                  </button>
+                  <button
+                    onClick={handleCancelSubscription}
+                    disabled={!cancelReason || actionLoading === 'cancel'}
+                    className="flex-1 py-3 px-4 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                  >
+                    {actionLoading === 'cancel' ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      'Cancel Subscription'
+                    )}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Pause Subscription Modal */}
+      {showPauseModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+          <div className="bg-white rounded-2xl p-6 max-w-md w-full">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-bold text-gray-900">Pause Subscription</h3>
+              <button
+                onClick={() => setShowPauseModal(false)}
                 className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
               >
                 <X className="h-5 w-5" />
@@ -1071,19 +2031,19 @@ const getPlanDurationText = (planType: string) => {
             </div>
 
             <div className="space-y-4">
-              <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+              <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
                 <div className="flex items-start gap-3">
-                  <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
+                  <Pause className="h-5 w-5 text-blue-600 mt-0.5" />
                   <div>
-                    <p className="font-medium text-red-900 mb-1">Are you sure?</p>
-                    <p className="text-red-700 text-sm">
-                      Cancelling your subscription will:
+                    <p className="font-medium text-blue-900 mb-1">Taking a break?</p>
+                    <p className="text-blue-700 text-sm">
+                      While your subscription is paused:
                     </p>
-                    <ul className="text-red-700 text-sm mt-2 space-y-1 list-disc list-inside">
-                      <li>End access to premium features after your billing period</li>
-                      <li>Stop automatic billing</li>
-                      <li>Limit customer capacity to 100</li>
-                      <li>Remove advanced analytics and reporting</li>
+                    <ul className="text-blue-700 text-sm mt-2 space-y-1 list-disc list-inside">
+                      <li>You are not billed</li>
+                      <li>Your customers, points and rewards are kept</li>
+                      <li>The dashboard is read-only</li>
+                      <li>Billing restarts automatically on the resume date</li>
                     </ul>
                   </div>
                 </div>
@@ -1091,38 +2051,337 @@ const getPlanDurationText = (planType: string) => {
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Reason for cancellation (optional)
+                  Pause for
                 </label>
-                <textarea
-                  value={cancelReason}
-                  onChange={(e) => setCancelReason(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
-                  placeholder="Help us improve by telling us why you're cancelling..."
-                  rows={3}
-                />
+                <div className="grid grid-cols-3 gap-2">
+                  {[1, 2, 3].map((months) => (
+                    <button
+                      key={months}
+                      onClick={() => setPauseMonths(months)}
+                      className={`py-2 px-3 rounded-lg border text-sm font-medium transition-colors ${
+                        pauseMonths === months
+                          ? 'border-blue-500 bg-blue-50 text-blue-700'
+                          : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {months} month{months === 1 ? '' : 's'}
+                    </button>
+                  ))}
+                </div>
               </div>
 
               <p className="text-gray-600 text-sm">
-                Your subscription will remain active until {nextBillingInfo.text}.
+                You can resume at any time before then from this page.
+              </p>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setShowPauseModal(false)}
+                className="flex-1 py-3 px-4 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+              >
+                Keep Billing
+              </button>
+              <button
+                onClick={handlePauseSubscription}
+                disabled={actionLoading === 'pause'}
+                className="flex-1 py-3 px-4 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {actionLoading === 'pause' ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  'Pause Subscription'
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Change Plan Modal */}
+      {showChangePlanModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+          <div className="bg-white rounded-2xl p-6 max-w-md w-full">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-bold text-gray-900">Change Plan</h3>
+              <button
+                onClick={closeChangePlanModal}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              {planChangeError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm">
+                  {planChangeError}
+                </div>
+              )}
+
+              <p className="text-sm text-gray-600">
+                You are currently on the {getPlanDisplayName(subscription?.subscription?.plan_type)}.
+                Choose a new plan and when it should start.
+              </p>
+
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  { value: 'immediate', label: 'Switch now' },
+                  { value: 'period_end', label: 'At end of current period' }
+                ] as Array<{ value: PlanChangeTiming; label: string }>).map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => handlePlanChangeTimingChange(option.value)}
+                    disabled={planChangeLoading !== null}
+                    className={`py-2 px-3 border rounded-lg text-sm font-medium transition-all disabled:opacity-50 ${
+                      planChangeTiming === option.value
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 text-gray-700 hover:border-gray-300'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                {availablePlans.map((plan) => (
+                  <button
+                    key={plan.plan_type}
+                    onClick={() => handlePreviewPlanChange(plan.plan_type)}
+                    disabled={planChangeLoading !== null}
+                    className={`w-full flex items-center justify-between p-4 border rounded-lg transition-all disabled:opacity-50 ${
+                      changePlanTarget === plan.plan_type
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="text-left">
+                      <p className="font-medium text-gray-900">{plan.name}</p>
+                      <p className="text-sm text-gray-600">{plan.description}</p>
+                    </div>
+                    <span className="font-semibold text-gray-900">
+                      {formatPlanPrice(plan)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+
+              {planChangeLoading === 'preview' && (
+                <div className="flex items-center justify-center py-4 text-gray-500 text-sm gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Calculating proration...
+                </div>
+              )}
+
+              {planChangePreview && planChangePreview.timing === 'period_end' && (
+                <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">Due today</span>
+                    <span className="font-bold text-gray-900">
+                      {formatCurrency(0, planChangePreview.currency)}
+                    </span>
+                  </div>
+                  <p className="text-gray-600">
+                    You keep your {getPlanDisplayName(planChangePreview.currentPlanType)} until{' '}
+                    {new Date(planChangePreview.effectiveAt).toLocaleDateString()}, then renew on the{' '}
+                    {getPlanDisplayName(planChangePreview.planType)} at{' '}
+                    {formatCurrency(planChangePreview.newPlanAmount, planChangePreview.currency)}.
+                  </p>
+                </div>
+              )}
+
+              {planChangePreview && planChangePreview.timing === 'immediate' && (
+                <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 space-y-2">
+                  {planChangePreview.lines.map((line, index) => (
+                    <div key={index} className="flex items-start justify-between gap-4 text-sm">
+                      <span className="text-gray-600">{line.description}</span>
+                      <span className={line.amount < 0 ? 'text-green-600' : 'text-gray-900'}>
+                        {formatCurrency(line.amount, planChangePreview.currency)}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between pt-2 border-t border-gray-200">
+                    <span className="font-medium text-gray-900">Due today</span>
+                    <span className="font-bold text-gray-900">
+                      {formatCurrency(planChangePreview.amountDue, planChangePreview.currency)}
+                    </span>
+                  </div>
+                  {planChangePreview.prorationCredit < 0 && (
+                    <p className="text-xs text-gray-500">
+                      Includes {formatCurrency(-planChangePreview.prorationCredit, planChangePreview.currency)} credit for unused time on your current plan.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={closeChangePlanModal}
+                className="flex-1 py-3 px-4 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmPlanChange}
+                disabled={!planChangePreview || planChangeLoading !== null}
+                className="flex-1 py-3 px-4 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {planChangeLoading === 'confirm' ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : planChangePreview?.timing === 'period_end' ? (
+                  'Schedule Change'
+                ) : (
+                  'Confirm Change'
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Billing Details Modal */}
+      {showBillingProfileModal && billingProfileForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+          <div className="bg-white rounded-2xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-bold text-gray-900">Billing Details</h3>
+              <button
+                onClick={() => setShowBillingProfileModal(false)}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              {([
+                { field: 'legal_name', label: 'Legal name', placeholder: 'Restaurant Ltd' },
+                { field: 'tax_id', label: 'Tax ID (VAT number)', placeholder: 'GB123456789' },
+                { field: 'address_line1', label: 'Address line 1', placeholder: '1 High Street' },
+                { field: 'address_line2', label: 'Address line 2', placeholder: '' },
+                { field: 'city', label: 'City', placeholder: 'London' },
+                { field: 'state', label: 'State / Region', placeholder: '' },
+                { field: 'postal_code', label: 'Postal code', placeholder: 'EC1A 1BB' },
+                { field: 'country', label: 'Country code', placeholder: 'GB' },
+                { field: 'billing_email', label: 'Billing email (receives invoices)', placeholder: user?.email || 'accounts@restaurant.com' }
+              ] as Array<{ field: keyof BillingProfile; label: string; placeholder: string }>).map(({ field, label, placeholder }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                  <input
+                    type={field === 'billing_email' ? 'email' : 'text'}
+                    value={(billingProfileForm[field] as string) || ''}
+                    onChange={(e) => updateBillingProfileField(field, e.target.value)}
+                    maxLength={field === 'country' ? 2 : undefined}
+                    placeholder={placeholder}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">
+                Changes apply to invoices issued from now on.
               </p>
             </div>
 
             <div className="flex gap-3 mt-6">
               <button
-                onClick={() => setShowCancelModal(false)}
+                onClick={() => setShowBillingProfileModal(false)}
+                className="flex-1 py-3 px-4 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveBillingProfile}
+                disabled={actionLoading === 'billing-profile'}
+                className="flex-1 py-3 px-4 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {actionLoading === 'billing-profile' ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  'Save'
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Export Invoices Modal */}
+      {showExportModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+          <div className="bg-white rounded-2xl p-6 max-w-md w-full">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-bold text-gray-900">Export Invoices</h3>
+              <button
+                onClick={() => setShowExportModal(false)}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                  <input
+                    type="date"
+                    value={exportForm.from}
+                    max={exportForm.to}
+                    onChange={(e) => setExportForm({ ...exportForm, from: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                  <input
+                    type="date"
+                    value={exportForm.to}
+                    min={exportForm.from}
+                    onChange={(e) => setExportForm({ ...exportForm, to: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  { format: 'csv', label: 'CSV', description: 'Spreadsheet of invoices' },
+                  { format: 'zip', label: 'ZIP', description: 'CSV plus PDF receipts' }
+                ] as Array<{ format: InvoiceExportForm['format']; label: string; description: string }>).map(option => (
+                  <button
+                    key={option.format}
+                    onClick={() => setExportForm({ ...exportForm, format: option.format })}
+                    className={`p-3 rounded-xl border text-left transition-colors ${
+                      exportForm.format === option.format
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className="font-medium text-gray-900">{option.label}</p>
+                    <p className="text-xs text-gray-500">{option.description}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setShowExportModal(false)}
                 className="flex-1 py-3 px-4 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
               >
-                Keep Subscription
+                Cancel
               </button>
               <button
-                onClick={handleCancelSubscription}
-                disabled={actionLoading === 'cancel'}
-                className="flex-1 py-3 px-4 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                onClick={handleExportInvoices}
+                disabled={!exportForm.from || !exportForm.to || actionLoading === 'export-invoices'}
+                className="flex-1 py-3 px-4 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
               >
-                {actionLoading === 'cancel' ? (
+                {actionLoading === 'export-invoices' ? (
                   <Loader2 className="h-4 w-4 animate-spin" />
                 ) : (
-                  'Cancel Subscription'
+                  'Export'
                 )}
               </button>
             </div>
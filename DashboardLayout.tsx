@@ -5,7 +5,7 @@ import { useAuth } from '../contexts/AuthContext';
 import {
   Home, Users, Gift, Settings, LogOut, Menu, X, ChefHat, MapPin,
   Headphones as HeadphonesIcon, Wallet, BarChart3, Crown, Clock,
-  ArrowRight, CreditCard, ChevronLeft, ChevronRight, TrendingUp, Package, Target
+  ArrowRight, CreditCard, ChevronLeft, ChevronRight, TrendingUp, Package, Target, AlertTriangle, Pause
 } from 'lucide-react';
 
 export default function DashboardLayout() {
@@ -15,6 +15,7 @@ export default function DashboardLayout() {
   const [subscriptionLoading, setSubscriptionLoading] = useState(false);
   const [lastSubscriptionCheck, setLastSubscriptionCheck] = useState<number>(0);
   const [showUpgradeSuccess, setShowUpgradeSuccess] = useState(false);
+  const [graceNow, setGraceNow] = useState(() => Date.now());
   const navigate = useNavigate();
   const location = useLocation();
   const { user, signOut } = useAuth();
@@ -25,6 +26,14 @@ export default function DashboardLayout() {
     }
   }, [user]);
 
+  // Tick the grace period countdown while a payment is overdue
+  React.useEffect(() => {
+    if (!subscriptionData?.gracePeriod) return;
+
+    const interval = setInterval(() => setGraceNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [subscriptionData?.gracePeriod]);
+
   // Listen for subscription updates from payments
   React.useEffect(() => {
     const handleSubscriptionUpdate = () => {
@@ -113,7 +122,10 @@ export default function DashboardLayout() {
         status: data.subscription?.status,
         daysRemaining: data.daysRemaining,
         billingPeriodText: data.billingPeriodText,
-        billingPeriodAccurate: data.billingPeriodAccurate
+        billingPeriodAccurate: data.billingPeriodAccurate,
+        gracePeriod: data.gracePeriod,
+        isRestricted: data.isRestricted,
+        isPaused: data.isPaused
       });
       
       setSubscriptionData(data);
@@ -152,6 +164,15 @@ export default function DashboardLayout() {
     return location.pathname === href;
   };
 
+  const formatGraceCountdown = (endsAt: string) => {
+    const remainingMs = Math.max(0, new Date(endsAt).getTime() - graceNow);
+    const days = Math.floor(remainingMs / (24 * 60 * 60 * 1000));
+    const hours = Math.floor((remainingMs % (24 * 60 * 60 * 1000)) / (60 * 60 * 1000));
+    const minutes = Math.floor((remainingMs % (60 * 60 * 1000)) / (60 * 1000));
+
+    return days > 0 ? `${days}d ${hours}h` : `${hours}h ${minutes}m`;
+  };
+
   // Add debug info for subscription status
   React.useEffect(() => {
     if (subscriptionData) {
@@ -516,6 +537,67 @@ export default function DashboardLayout() {
         <main className="py-6">
           <div className="px-4 sm:px-6 lg:px-8">
             <div className="max-w-7xl mx-auto">
+              {/* Payment overdue banner */}
+              {subscriptionData?.subscription?.status === 'past_due' && (
+                <div className={`mb-6 rounded-2xl border p-4 flex flex-col sm:flex-row sm:items-center gap-3 ${
+                  subscriptionData.gracePeriod
+                    ? 'bg-yellow-50 border-yellow-200'
+                    : 'bg-red-50 border-red-200'
+                }`}>
+                  <AlertTriangle className={`h-6 w-6 flex-shrink-0 ${
+                    subscriptionData.gracePeriod ? 'text-yellow-600' : 'text-red-600'
+                  }`} />
+                  <div className="flex-1">
+                    {subscriptionData.gracePeriod ? (
+                      <>
+                        <p className="font-medium text-yellow-900">
+                          Your last payment failed. {formatGraceCountdown(subscriptionData.gracePeriod.endsAt)} left to update your payment method.
+                        </p>
+                        <p className="text-sm text-yellow-800">
+                          After {new Date(subscriptionData.gracePeriod.endsAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })} your account will be limited to trial features.
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="font-medium text-red-900">Your account is restricted because of an unpaid invoice.</p>
+                        <p className="text-sm text-red-800">Update your payment method to restore your plan features.</p>
+                      </>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => navigate('/dashboard/billing')}
+                    className={`px-4 py-2 rounded-xl text-sm font-medium text-white transition-colors ${
+                      subscriptionData.gracePeriod
+                        ? 'bg-yellow-600 hover:bg-yellow-700'
+                        : 'bg-red-600 hover:bg-red-700'
+                    }`}
+                  >
+                    Update Payment
+                  </button>
+                </div>
+              )}
+
+              {/* Paused subscription banner */}
+              {subscriptionData?.isPaused && (
+                <div className="mb-6 rounded-2xl border p-4 flex flex-col sm:flex-row sm:items-center gap-3 bg-blue-50 border-blue-200">
+                  <Pause className="h-6 w-6 flex-shrink-0 text-blue-600" />
+                  <div className="flex-1">
+                    <p className="font-medium text-blue-900">Your subscription is paused.</p>
+                    <p className="text-sm text-blue-800">
+                      {subscriptionData.pausedUntil
+                        ? `Your dashboard is read-only until billing resumes on ${new Date(subscriptionData.pausedUntil).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}.`
+                        : 'Your dashboard is read-only until billing resumes.'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => navigate('/dashboard/billing')}
+                    className="px-4 py-2 rounded-xl text-sm font-medium text-white transition-colors bg-blue-600 hover:bg-blue-700"
+                  >
+                    Resume Billing
+                  </button>
+                </div>
+              )}
+
               <Outlet />
             </div> 
           </div>
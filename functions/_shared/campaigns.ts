@@ -0,0 +1,382 @@
+import { sendMessage } from './messaging.ts';
+
+export interface CampaignRunResults {
+  total: number;
+  queued: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  // Customers queued per channel
+  channels: Record<string, number>;
+}
+
+export type CampaignTrigger = 'manual' | 'scheduled';
+
+export async function loadCampaign(supabase: any, campaignId: string) {
+  const { data: campaign, error: campaignError } = await supabase
+    .from('campaigns')
+    .select(`
+      *,
+      restaurant:restaurants!inner(
+        id,
+        name,
+        owner_id,
+        contact_phone
+      )
+    `)
+    .eq('id', campaignId)
+    .single();
+
+  if (campaignError || !campaign) {
+    throw new Error('Campaign not found');
+  }
+
+  return campaign;
+}
+
+// Opens a campaign_metrics row for one run of the campaign and returns its id
+export async function startCampaignExecution(
+  supabase: any,
+  campaignId: string,
+  trigger: CampaignTrigger
+): Promise<string> {
+  const { data: executionId, error } = await supabase.rpc('start_campaign_execution', {
+    p_campaign_id: campaignId,
+    p_trigger: trigger
+  });
+
+  if (error) {
+    throw new Error(`Failed to start campaign execution: ${error.message}`);
+  }
+
+  return executionId;
+}
+
+const ENQUEUE_CHUNK_SIZE = 500;
+
+// Queues one campaign_sends job per reachable customer for process-campaign-queue to deliver.
+// Test mode sends straight to the restaurant's own phone instead and logs nothing.
+export async function runCampaign(
+  supabase: any,
+  campaign: any,
+  options: { testMode?: boolean; executionId?: string | null } = {}
+): Promise<CampaignRunResults> {
+  const { testMode = false, executionId = null } = options;
+
+  const messageTemplate = campaign.message_template;
+  const messageSubject = campaign.message_subject;
+  const messageVariables = campaign.message_variables || {};
+
+  if (!messageTemplate) {
+    throw new Error('No message template found for campaign');
+  }
+
+  if (!testMode && !executionId) {
+    throw new Error('A campaign execution is required to queue sends');
+  }
+
+  // A paused restaurant is read-only, and that includes messaging its customers
+  if (await isOwnerSubscriptionPaused(supabase, campaign.restaurant.owner_id)) {
+    throw new Error('Campaigns cannot be sent while your subscription is paused');
+  }
+
+  let targetCustomers = [];
+
+  if (testMode) {
+    // For test mode, send to restaurant manager's phone
+    if (!campaign.restaurant.contact_phone) {
+      throw new Error('Please add a contact phone number in your restaurant settings to test campaigns');
+    }
+
+    // Create a mock customer with manager's details for testing
+    targetCustomers = [{
+      id: 'test-customer',
+      restaurant_id: campaign.restaurant_id,
+      first_name: campaign.restaurant.name,
+      last_name: 'Manager',
+      phone: campaign.restaurant.contact_phone,
+      email: 'test@restaurant.com',
+      total_points: 100,
+      consent_whatsapp: true,
+      consent_email: true,
+      consent_sms: true,
+      consent_push: true,
+    }];
+  } else {
+    targetCustomers = await calculateAudience(supabase, campaign);
+  }
+
+  if (!testMode && targetCustomers.length === 0) {
+    throw new Error('No customers match your audience criteria');
+  }
+
+  const channels = await loadCampaignChannels(supabase, campaign);
+
+  const results: CampaignRunResults = {
+    total: targetCustomers.length,
+    queued: 0,
+    sent: 0,
+    failed: 0,
+    skipped: 0,
+    channels: {},
+  };
+
+  if (testMode) {
+    // Tests go out on the campaign's first configured channel
+    const { channel, providerConfig } = channels[0];
+
+    for (const customer of targetCustomers) {
+      const sendResult = await sendMessage(
+        channel,
+        providerConfig,
+        customer,
+        personalizeMessage(messageTemplate, customer, messageVariables),
+        messageSubject
+      );
+
+      if (sendResult.success) {
+        results.sent++;
+      } else {
+        console.error('Test send failed:', sendResult.error);
+        results.failed++;
+      }
+    }
+
+    return results;
+  }
+
+  // Push can only reach customers with at least one registered device
+  const pushCustomerIds = channels.some(({ channel }) => channel === 'push')
+    ? await loadPushCustomerIds(supabase, campaign.restaurant_id)
+    : new Set<string>();
+
+  const now = new Date().toISOString();
+  const jobs = [];
+
+  for (const customer of targetCustomers) {
+    // First channel, in the campaign's order, the customer consented to and can be reached on
+    let selected: { channel: string; providerConfig: any; recipient: string } | null = null;
+
+    for (const { channel, providerConfig } of channels) {
+      // Check consent from customers table directly
+      if (customer[`consent_${channel}`] !== true) {
+        continue;
+      }
+
+      const recipient = channel === 'push'
+        ? (pushCustomerIds.has(customer.id) ? customer.id : null)
+        : getRecipient(channel, customer);
+
+      if (recipient) {
+        selected = { channel, providerConfig, recipient };
+        break;
+      }
+    }
+
+    if (!selected) {
+      results.skipped++;
+      continue;
+    }
+
+    results.channels[selected.channel] = (results.channels[selected.channel] || 0) + 1;
+
+    jobs.push({
+      campaign_id: campaign.id,
+      execution_id: executionId,
+      customer_id: customer.id,
+      channel: selected.channel,
+      provider: selected.providerConfig.provider,
+      recipient: selected.recipient,
+      message_body: personalizeMessage(messageTemplate, customer, messageVariables),
+      message_subject: messageSubject,
+      status: 'queued',
+      next_attempt_at: now,
+    });
+  }
+
+  for (let i = 0; i < jobs.length; i += ENQUEUE_CHUNK_SIZE) {
+    // Jobs already queued by an earlier, interrupted attempt are left as they are
+    const { error } = await supabase
+      .from('campaign_sends')
+      .upsert(jobs.slice(i, i + ENQUEUE_CHUNK_SIZE), {
+        onConflict: 'execution_id,customer_id',
+        ignoreDuplicates: true,
+      });
+
+    if (error) {
+      throw new Error(`Failed to queue campaign sends: ${error.message}`);
+    }
+  }
+
+  results.queued = jobs.length;
+
+  return results;
+}
+
+export async function loadProviderConfig(supabase: any, restaurantId: string, channel: string) {
+  const { data: providerConfig } = await supabase
+    .from('channel_provider_configs')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .eq('channel', channel)
+    .eq('is_enabled', true)
+    .maybeSingle();
+
+  return providerConfig;
+}
+
+// Marks the campaign sent and records the audience totals once every job of the execution is queued.
+// Delivery counts are added by complete_campaign_send as the queue is worked through.
+export async function finishCampaignEnqueue(
+  supabase: any,
+  campaignId: string,
+  executionId: string,
+  results: CampaignRunResults
+): Promise<void> {
+  const { error } = await supabase.rpc('finish_campaign_enqueue', {
+    p_execution_id: executionId,
+    p_targeted: results.total,
+    p_skipped: results.skipped
+  });
+
+  if (error) {
+    throw new Error(`Failed to finish queueing campaign: ${error.message}`);
+  }
+
+  await supabase
+    .from('campaigns')
+    .update({
+      status: 'sent',
+      sent_at: new Date().toISOString(),
+    })
+    .eq('id', campaignId);
+}
+
+export async function failCampaignExecution(
+  supabase: any,
+  executionId: string,
+  errorMessage: string
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  await supabase
+    .from('campaign_metrics')
+    .update({
+      status: 'failed',
+      error_message: errorMessage,
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq('id', executionId);
+}
+
+// The campaign's channels in preference order, with the restaurant's provider for each. Channels
+// without an enabled provider are left out; a campaign with none of them configured cannot run.
+async function loadCampaignChannels(supabase: any, campaign: any) {
+  const preferences: string[] = campaign.channel_preferences?.length
+    ? campaign.channel_preferences
+    : [campaign.primary_channel];
+
+  const channels = [];
+
+  for (const channel of preferences) {
+    const providerConfig = await loadProviderConfig(supabase, campaign.restaurant_id, channel);
+
+    if (providerConfig) {
+      channels.push({ channel, providerConfig });
+    } else {
+      console.warn(`No provider configured for ${channel}, skipping channel for campaign ${campaign.id}`);
+    }
+  }
+
+  if (channels.length === 0) {
+    throw new Error(`No provider configured for ${preferences.join(', ')}. Please configure it in Campaign Settings.`);
+  }
+
+  return channels;
+}
+
+async function isOwnerSubscriptionPaused(supabase: any, ownerId: string): Promise<boolean> {
+  const { data: subscription, error } = await supabase
+    .from('subscriptions')
+    .select('status')
+    .eq('user_id', ownerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load subscription: ${error.message}`);
+  }
+
+  return subscription?.status === 'paused';
+}
+
+async function calculateAudience(supabase: any, campaign: any) {
+  let query = supabase
+    .from('customers')
+    .select('*')
+    .eq('restaurant_id', campaign.restaurant_id);
+
+  if (campaign.audience_type === 'tagged' && campaign.audience_filter.tags) {
+    query = query.in('id',
+      supabase
+        .from('customer_tag_assignments')
+        .select('customer_id')
+        .in('tag_id', campaign.audience_filter.tags)
+    );
+  } else if (campaign.audience_type === 'last_order_date') {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - (campaign.audience_filter.days_since_last_order || 30));
+    query = query.lt('last_visit', cutoffDate.toISOString());
+  } else if (campaign.audience_type === 'wallet_status') {
+    const minPoints = campaign.audience_filter.min_points !== undefined ? campaign.audience_filter.min_points : 0;
+    query = query.gte('total_points', minPoints);
+
+    if (campaign.audience_filter.max_points !== undefined && campaign.audience_filter.max_points !== null) {
+      query = query.lte('total_points', campaign.audience_filter.max_points);
+    }
+  }
+
+  const { data } = await query;
+  return data || [];
+}
+
+async function loadPushCustomerIds(supabase: any, restaurantId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('customer_push_subscriptions')
+    .select('customer_id')
+    .eq('restaurant_id', restaurantId);
+
+  if (error) {
+    throw new Error(`Failed to load push subscriptions: ${error.message}`);
+  }
+
+  return new Set((data || []).map((subscription: any) => subscription.customer_id));
+}
+
+function getRecipient(channel: string, customer: any): string | null {
+  if (channel === 'whatsapp' || channel === 'sms') {
+    return customer.phone || null;
+  }
+
+  if (channel === 'email') {
+    return customer.email || null;
+  }
+
+  return null;
+}
+
+function personalizeMessage(template: string, customer: any, variables: any) {
+  let message = template;
+  const customerName = customer.first_name ? `${customer.first_name} ${customer.last_name || ''}`.trim() : 'Customer';
+  message = message.replace(/\{\{name\}\}/g, customerName);
+  message = message.replace(/\{\{points\}\}/g, customer.total_points?.toString() || '0');
+
+  if (variables && typeof variables === 'object') {
+    Object.keys(variables).forEach(key => {
+      const value = variables[key] || '';
+      message = message.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
+    });
+  }
+
+  return message;
+}
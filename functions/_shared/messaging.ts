@@ -0,0 +1,189 @@
+import { sendPush } from './push.ts';
+
+export interface ProviderConfig {
+  channel: string;
+  provider: string;
+  api_key_encrypted: string;
+  config_json: any;
+}
+
+export interface SendResult {
+  success: boolean;
+  error?: string;
+  messageId?: string;
+  // Transient failure (rate limit, provider outage, network) that is worth trying again
+  retryable?: boolean;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: string; // base64
+  type: string;
+}
+
+// Email sent by the platform itself (billing notices), as opposed to a restaurant's own provider
+export function getPlatformEmailConfig(): ProviderConfig | null {
+  const apiKey = Deno.env.get('SENDGRID_API_KEY');
+  if (!apiKey) {
+    return null;
+  }
+
+  return {
+    channel: 'email',
+    provider: 'sendgrid',
+    api_key_encrypted: apiKey,
+    config_json: {
+      fromEmail: Deno.env.get('BILLING_FROM_EMAIL') || 'billing@leyls.com',
+      fromName: Deno.env.get('BILLING_FROM_NAME') || 'LEYLS Billing',
+    },
+  };
+}
+
+export async function sendMessage(
+  channel: string,
+  providerConfig: ProviderConfig,
+  customer: any,
+  message: string,
+  subject?: string
+): Promise<SendResult> {
+  try {
+    if (channel === 'whatsapp') {
+      return await sendWhatsApp(providerConfig, customer.phone, message);
+    } else if (channel === 'sms') {
+      return await sendSMS(providerConfig, customer.phone, message);
+    } else if (channel === 'email') {
+      return await sendEmail(providerConfig, customer.email, subject || 'Message from restaurant', message);
+    } else if (channel === 'push') {
+      return await sendPush(providerConfig, customer.push_subscriptions || [], subject || 'Message from restaurant', message);
+    }
+
+    return { success: false, error: 'Unsupported channel' };
+  } catch (error: any) {
+    return { success: false, error: error.message, retryable: true };
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Twilio signs status callbacks with this exact URL, so twilio-status-callback verifies against it too
+export function twilioStatusCallbackUrl(): string {
+  return `${Deno.env.get('SUPABASE_URL') ?? ''}/functions/v1/twilio-status-callback`;
+}
+
+export async function sendWhatsApp(config: ProviderConfig, to: string, message: string): Promise<SendResult> {
+  if (config.provider === 'twilio') {
+    const accountSid = config.config_json.accountSid;
+    const authToken = config.api_key_encrypted;
+    const from = config.config_json.phoneNumber;
+
+    // Ensure phone number is in E.164 format
+    const formattedTo = to.startsWith('+') ? to : `+${to}`;
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          From: `whatsapp:${from}`,
+          To: `whatsapp:${formattedTo}`,
+          Body: message,
+          StatusCallback: twilioStatusCallbackUrl(),
+        }),
+      }
+    );
+
+    if (response.ok) {
+      const { sid } = await response.json();
+      return { success: true, messageId: sid };
+    } else {
+      const error = await response.text();
+      return { success: false, error, retryable: isRetryableStatus(response.status) };
+    }
+  }
+
+  return { success: false, error: 'Provider not supported' };
+}
+
+export async function sendSMS(config: ProviderConfig, to: string, message: string): Promise<SendResult> {
+  if (config.provider === 'twilio') {
+    const accountSid = config.config_json.accountSid;
+    const authToken = config.api_key_encrypted;
+    const from = config.config_json.phoneNumber;
+
+    // Ensure phone number is in E.164 format
+    const formattedTo = to.startsWith('+') ? to : `+${to}`;
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          From: from,
+          To: formattedTo,
+          Body: message,
+          StatusCallback: twilioStatusCallbackUrl(),
+        }),
+      }
+    );
+
+    if (response.ok) {
+      const { sid } = await response.json();
+      return { success: true, messageId: sid };
+    } else {
+      const error = await response.text();
+      return { success: false, error, retryable: isRetryableStatus(response.status) };
+    }
+  }
+
+  return { success: false, error: 'Provider not supported' };
+}
+
+export async function sendEmail(
+  config: ProviderConfig,
+  to: string,
+  subject: string,
+  message: string,
+  attachments: EmailAttachment[] = []
+): Promise<SendResult> {
+  if (config.provider === 'sendgrid') {
+    const apiKey = config.api_key_encrypted;
+    const from = config.config_json.fromEmail;
+    const fromName = config.config_json.fromName;
+
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: to }] }],
+        from: { email: from, name: fromName },
+        subject: subject,
+        content: [{ type: 'text/plain', value: message }],
+        ...(attachments.length > 0
+          ? { attachments: attachments.map(attachment => ({ ...attachment, disposition: 'attachment' })) }
+          : {}),
+      }),
+    });
+
+    if (response.ok) {
+      return { success: true, messageId: response.headers.get('X-Message-Id') || undefined };
+    } else {
+      const error = await response.text();
+      return { success: false, error, retryable: isRetryableStatus(response.status) };
+    }
+  }
+
+  return { success: false, error: 'Provider not supported' };
+}
@@ -0,0 +1,27 @@
+export interface PlanPrice {
+  plan_type: string;
+  currency: string;
+  amount: number;
+  stripe_price_id: string | null;
+}
+
+// Price of a plan for a user. The currency is the explicit choice, then the user's subscription
+// currency, then the currency of their billing country, then the plan's base currency.
+export async function resolvePlanPrice(
+  supabaseClient: any,
+  planType: string,
+  options: { userId?: string; currency?: string | null } = {}
+): Promise<PlanPrice> {
+  const { data, error } = await supabaseClient.rpc('resolve_plan_price', {
+    p_plan_type: planType,
+    p_currency: options.currency || null,
+    p_user_id: options.userId || null
+  });
+
+  if (error || !data) {
+    console.error('❌ Error resolving plan price:', error);
+    throw new Error(error?.message || `Plan not available: ${planType}`);
+  }
+
+  return data as PlanPrice;
+}
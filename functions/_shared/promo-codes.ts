@@ -0,0 +1,166 @@
+import Stripe from "npm:stripe@18.4.0";
+
+export interface PromoCodeDiscount {
+  valid: boolean;
+  reason?: string;
+  source?: 'stripe' | 'local';
+  code?: string;
+  description?: string | null;
+  percentOff?: number | null;
+  amountOff?: number | null;
+  currency?: string;
+  duration?: string;
+  durationInMonths?: number | null;
+  discountAmount?: number;
+  promotionCodeId?: string;
+  stripeCouponId?: string | null;
+  // Local coupons only: id and last change of the discount terms, which version the Stripe coupon
+  couponId?: string;
+  couponUpdatedAt?: string;
+}
+
+interface PlanPrice {
+  plan_type: string;
+  amount: number;
+  currency: string;
+}
+
+// Stripe promotion codes take precedence; otherwise the code is checked against the local coupons table
+export async function resolvePromoCode(
+  stripe: Stripe,
+  supabaseClient: any,
+  code: string,
+  plan: PlanPrice
+): Promise<PromoCodeDiscount> {
+  const normalizedCode = code.trim().toUpperCase();
+
+  if (!normalizedCode) {
+    return { valid: false, reason: 'Promo code is required' };
+  }
+
+  const promotionCodes = await stripe.promotionCodes.list({
+    code: normalizedCode,
+    active: true,
+    limit: 1,
+  });
+  const promotionCode = promotionCodes.data[0];
+
+  if (promotionCode) {
+    const coupon = promotionCode.coupon;
+
+    if (!coupon.valid) {
+      return { valid: false, reason: 'Promo code has expired' };
+    }
+
+    if (promotionCode.restrictions?.minimum_amount && plan.amount < promotionCode.restrictions.minimum_amount) {
+      return { valid: false, reason: 'Promo code does not apply to this plan' };
+    }
+
+    if (coupon.amount_off && coupon.currency?.toUpperCase() !== plan.currency.toUpperCase()) {
+      return { valid: false, reason: 'Promo code does not apply to this currency' };
+    }
+
+    const discountAmount = coupon.percent_off
+      ? Math.round(plan.amount * coupon.percent_off / 100)
+      : Math.min(coupon.amount_off || 0, plan.amount);
+
+    return {
+      valid: true,
+      source: 'stripe',
+      code: normalizedCode,
+      description: coupon.name,
+      percentOff: coupon.percent_off,
+      amountOff: coupon.amount_off,
+      currency: plan.currency.toUpperCase(),
+      duration: coupon.duration,
+      durationInMonths: coupon.duration_in_months,
+      discountAmount,
+      promotionCodeId: promotionCode.id,
+      stripeCouponId: coupon.id
+    };
+  }
+
+  const { data: coupon, error } = await supabaseClient.rpc('validate_coupon', {
+    p_code: normalizedCode,
+    p_plan_type: plan.plan_type,
+    p_currency: plan.currency
+  });
+
+  if (error) {
+    console.error('❌ Error validating coupon:', error);
+    throw new Error(`Failed to validate promo code: ${error.message}`);
+  }
+
+  if (!coupon?.valid) {
+    return { valid: false, reason: coupon?.reason || 'Promo code not found' };
+  }
+
+  return {
+    valid: true,
+    source: 'local',
+    code: coupon.code,
+    description: coupon.description,
+    percentOff: coupon.percent_off,
+    amountOff: coupon.amount_off,
+    currency: coupon.currency,
+    duration: coupon.duration,
+    durationInMonths: coupon.duration_in_months,
+    discountAmount: Number(coupon.discount_amount),
+    stripeCouponId: coupon.stripe_coupon_id,
+    couponId: coupon.coupon_id,
+    couponUpdatedAt: coupon.updated_at
+  };
+}
+
+// Stripe discounts entry for checkout sessions and subscriptions.
+// Local coupons without a linked Stripe coupon get one created per version of their terms, so
+// editing a local coupon creates a new Stripe coupon instead of silently reusing the old one.
+export async function getStripeDiscount(
+  stripe: Stripe,
+  discount: PromoCodeDiscount
+): Promise<{ promotion_code: string } | { coupon: string }> {
+  if (discount.promotionCodeId) {
+    return { promotion_code: discount.promotionCodeId };
+  }
+
+  if (discount.stripeCouponId) {
+    return { coupon: discount.stripeCouponId };
+  }
+
+  const version = Math.floor(new Date(discount.couponUpdatedAt!).getTime() / 1000);
+  const couponId = `local_${discount.couponId}_${version}`;
+
+  try {
+    await stripe.coupons.retrieve(couponId);
+  } catch (retrieveError) {
+    if (retrieveError.code !== 'resource_missing') {
+      throw retrieveError;
+    }
+
+    await stripe.coupons.create({
+      id: couponId,
+      name: discount.code,
+      ...getStripeDuration(discount),
+      ...(discount.percentOff
+        ? { percent_off: discount.percentOff }
+        : { amount_off: discount.amountOff!, currency: discount.currency!.toLowerCase() }),
+      metadata: {
+        source: 'local_coupons'
+      }
+    });
+
+    console.log('🎟️ Created Stripe coupon for local promo code:', couponId);
+  }
+
+  return { coupon: couponId };
+}
+
+function getStripeDuration(
+  discount: PromoCodeDiscount
+): { duration: 'once' | 'forever' } | { duration: 'repeating'; duration_in_months: number } {
+  if (discount.duration === 'repeating' && discount.durationInMonths) {
+    return { duration: 'repeating', duration_in_months: discount.durationInMonths };
+  }
+
+  return { duration: discount.duration === 'forever' ? 'forever' : 'once' };
+}
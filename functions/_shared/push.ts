@@ -0,0 +1,128 @@
+import webpush from "npm:web-push@3.6.7";
+import type { ProviderConfig, SendResult } from "./messaging.ts";
+
+export interface PushSubscriptionRecord {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushSendResult extends SendResult {
+  deliveredSubscriptionIds: string[];
+  // The push service no longer knows these subscriptions; they should be deleted
+  expiredSubscriptionIds: string[];
+}
+
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+// Sends to every device of a customer. Succeeds if at least one device accepted the notification.
+export async function sendPush(
+  config: ProviderConfig,
+  subscriptions: PushSubscriptionRecord[],
+  title: string,
+  message: string
+): Promise<PushSendResult> {
+  const result: PushSendResult = {
+    success: false,
+    deliveredSubscriptionIds: [],
+    expiredSubscriptionIds: [],
+  };
+
+  if (config.provider !== 'webpush') {
+    return { ...result, error: 'Provider not supported' };
+  }
+
+  if (subscriptions.length === 0) {
+    return { ...result, error: 'Customer has no registered push devices' };
+  }
+
+  const vapidDetails = {
+    subject: config.config_json.subject,
+    publicKey: config.config_json.vapidPublicKey,
+    privateKey: config.api_key_encrypted,
+  };
+  const payload = JSON.stringify({ title, body: message });
+
+  const errors: string[] = [];
+  let retryable = false;
+
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        { vapidDetails, TTL: PUSH_TTL_SECONDS }
+      );
+      result.deliveredSubscriptionIds.push(subscription.id);
+    } catch (error: any) {
+      const status = error.statusCode;
+
+      if (status === 404 || status === 410) {
+        result.expiredSubscriptionIds.push(subscription.id);
+        continue;
+      }
+
+      // No status means the push service could not be reached
+      retryable = retryable || !status || status === 429 || status >= 500;
+      errors.push(error.body || error.message);
+    }
+  }
+
+  if (result.deliveredSubscriptionIds.length > 0) {
+    return { ...result, success: true };
+  }
+
+  return {
+    ...result,
+    error: errors[0] || 'All push subscriptions have expired',
+    retryable,
+  };
+}
+
+// Active subscriptions of a customer; ones past their expiry are deleted on the way
+export async function loadPushSubscriptions(
+  supabase: any,
+  customerId: string
+): Promise<PushSubscriptionRecord[]> {
+  const { data: subscriptions, error } = await supabase
+    .from('customer_push_subscriptions')
+    .select('id, endpoint, p256dh, auth, expires_at')
+    .eq('customer_id', customerId);
+
+  if (error) {
+    throw new Error(`Failed to load push subscriptions: ${error.message}`);
+  }
+
+  const now = Date.now();
+  const expiredIds = (subscriptions || [])
+    .filter((subscription: any) => subscription.expires_at && new Date(subscription.expires_at).getTime() <= now)
+    .map((subscription: any) => subscription.id);
+
+  if (expiredIds.length > 0) {
+    await supabase.from('customer_push_subscriptions').delete().in('id', expiredIds);
+  }
+
+  return (subscriptions || []).filter((subscription: any) => !expiredIds.includes(subscription.id));
+}
+
+// sendMessage reports a thrown error without the device lists, hence the fallbacks
+export async function recordPushDelivery(supabase: any, result: Partial<PushSendResult>): Promise<void> {
+  const expiredIds = result.expiredSubscriptionIds || [];
+  const deliveredIds = result.deliveredSubscriptionIds || [];
+
+  if (expiredIds.length > 0) {
+    console.log('🧹 Removing expired push subscriptions:', expiredIds.length);
+    await supabase
+      .from('customer_push_subscriptions')
+      .delete()
+      .in('id', expiredIds);
+  }
+
+  if (deliveredIds.length > 0) {
+    await supabase
+      .from('customer_push_subscriptions')
+      .update({ last_success_at: new Date().toISOString() })
+      .in('id', deliveredIds);
+  }
+}
@@ -0,0 +1,100 @@
+import type { ReceiptLocale } from "./translations.ts";
+import type { ReceiptTemplate } from "./templates.ts";
+
+export interface ReceiptFont {
+  regular: string;
+  bold: string;
+}
+
+export interface ReceiptLogo {
+  data: string;
+  format: 'PNG' | 'JPEG';
+}
+
+// Fonts and images fetched before rendering so PDFs can be generated synchronously
+export interface ReceiptAssets {
+  font: ReceiptFont | null;
+  logo: ReceiptLogo | null;
+}
+
+// Helvetica has no Arabic glyphs, so Arabic receipts embed a TTF fetched on first use
+const ARABIC_FONT_URLS = {
+  regular: Deno.env.get('RECEIPT_ARABIC_FONT_URL') ||
+    'https://raw.githubusercontent.com/google/fonts/main/ofl/amiri/Amiri-Regular.ttf',
+  bold: Deno.env.get('RECEIPT_ARABIC_BOLD_FONT_URL') ||
+    'https://raw.githubusercontent.com/google/fonts/main/ofl/amiri/Amiri-Bold.ttf'
+};
+
+let arabicFontPromise: Promise<ReceiptFont> | null = null;
+const logoPromises = new Map<string, Promise<ReceiptLogo>>();
+
+export async function loadReceiptAssets(locale: ReceiptLocale, template: ReceiptTemplate): Promise<ReceiptAssets> {
+  const [font, logo] = await Promise.all([
+    locale === 'ar' ? loadArabicFontOrFallback() : Promise.resolve(null),
+    template.logoUrl ? loadLogo(template.logoUrl) : Promise.resolve(null)
+  ]);
+
+  return { font, logo };
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function loadArabicFont(): Promise<ReceiptFont> {
+  if (!arabicFontPromise) {
+    arabicFontPromise = Promise.all([
+      fetchAsBase64(ARABIC_FONT_URLS.regular),
+      fetchAsBase64(ARABIC_FONT_URLS.bold)
+    ]).then(([regular, bold]) => ({ regular, bold }));
+
+    // Allow a retry on the next request if the download failed
+    arabicFontPromise.catch(() => {
+      arabicFontPromise = null;
+    });
+  }
+  return arabicFontPromise;
+}
+
+// Without the font the receipt is rendered in English (see generateReceiptPDF) rather than failing
+async function loadArabicFontOrFallback(): Promise<ReceiptFont | null> {
+  try {
+    return await loadArabicFont();
+  } catch (error) {
+    console.warn('⚠️ Failed to load Arabic receipt font, falling back to English:', error);
+    return null;
+  }
+}
+
+// A logo that cannot be loaded falls back to the brand name rather than failing the receipt
+async function loadLogo(logoUrl: string): Promise<ReceiptLogo | null> {
+  let logoPromise = logoPromises.get(logoUrl);
+  if (!logoPromise) {
+    logoPromise = fetchAsBase64(logoUrl).then(data => ({
+      data,
+      format: /\.jpe?g(\?|$)/i.test(logoUrl) ? 'JPEG' as const : 'PNG' as const
+    }));
+    logoPromises.set(logoUrl, logoPromise);
+    logoPromise.catch(() => logoPromises.delete(logoUrl));
+  }
+
+  try {
+    return await logoPromise;
+  } catch (error) {
+    console.error('⚠️ Failed to load receipt logo:', error);
+    return null;
+  }
+}
+
+async function fetchAsBase64(assetUrl: string): Promise<string> {
+  const response = await fetch(assetUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to load receipt asset ${assetUrl}: ${response.status}`);
+  }
+
+  return bytesToBase64(new Uint8Array(await response.arrayBuffer()));
+}
@@ -0,0 +1,111 @@
+// Receipt rendering shared by download-receipt and the invoice email flow. Branding comes from
+// the deployment's template (see templates.ts); layout and translations are the same everywhere.
+import { INVOICE_SELECT, toCreditNoteData, toInvoiceData } from "./invoice-data.ts";
+import { getReceiptLocale, type ReceiptLocale } from "./translations.ts";
+import { getReceiptTemplate } from "./templates.ts";
+import { loadReceiptAssets } from "./assets.ts";
+import { generateReceiptPDF } from "./render.ts";
+import { withVerification } from "./signing.ts";
+
+export { INVOICE_SELECT, toCreditNoteData, toInvoiceData, type InvoiceData, type SellerDetails } from "./invoice-data.ts";
+export {
+  getReceiptLocale,
+  resolveLocale,
+  RECEIPT_TRANSLATIONS,
+  type ReceiptLabels,
+  type ReceiptLocale
+} from "./translations.ts";
+export { getReceiptTemplate, RECEIPT_TEMPLATES, type ReceiptTemplate, type RGB } from "./templates.ts";
+export { bytesToBase64, loadReceiptAssets, type ReceiptAssets, type ReceiptFont, type ReceiptLogo } from "./assets.ts";
+export { currencyExponent, formatCurrency, formatDate, generateReceiptPDF } from "./render.ts";
+export {
+  createSignedReceiptUrl,
+  createVerificationUrl,
+  DEFAULT_LINK_TTL_HOURS,
+  isReceiptSigningConfigured,
+  MAX_LINK_TTL_HOURS,
+  verifyReceiptLink,
+  withVerification,
+  type ReceiptLinkPurpose
+} from "./signing.ts";
+
+export interface RenderReceiptOptions {
+  invoiceId?: string;
+  // Renders this credit note instead of its invoice's receipt
+  creditNoteId?: string;
+  // Overrides the restaurant's locale
+  locale?: string | null;
+  // Only render documents belonging to this user
+  ownerId?: string;
+}
+
+export interface RenderedReceipt {
+  pdf: Uint8Array;
+  filename: string;
+  locale: ReceiptLocale;
+  invoice: any;
+  creditNote: any | null;
+}
+
+// Loads an invoice or credit note with the service role client and renders its PDF
+export async function renderReceipt(supabase: any, options: RenderReceiptOptions): Promise<RenderedReceipt> {
+  let invoiceId = options.invoiceId;
+  let creditNote: any = null;
+
+  if (options.creditNoteId) {
+    const { data, error: creditNoteError } = await supabase
+      .from('credit_notes')
+      .select('*')
+      .eq('id', options.creditNoteId)
+      .single();
+
+    if (creditNoteError || !data) {
+      console.error('Credit note fetch error:', creditNoteError);
+      throw new Error('Credit note not found');
+    }
+
+    creditNote = data;
+    invoiceId = creditNote.invoice_id;
+  }
+
+  if (!invoiceId) {
+    throw new Error('Invoice ID is required');
+  }
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select(INVOICE_SELECT)
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    console.error('Invoice fetch error:', invoiceError);
+    throw new Error('Invoice not found');
+  }
+
+  if (options.ownerId && invoice.user_id !== options.ownerId) {
+    throw new Error('Invoice not found');
+  }
+
+  const locale = await getReceiptLocale(supabase, options.locale || null, invoice.restaurant_id);
+  const template = getReceiptTemplate();
+  const assets = await loadReceiptAssets(locale, template);
+  const invoiceData = toInvoiceData(invoice);
+
+  const pdf = generateReceiptPDF(
+    creditNote ? toCreditNoteData(invoiceData, creditNote) : await withVerification(invoiceData),
+    locale,
+    template,
+    assets
+  );
+
+  return {
+    pdf,
+    filename: creditNote
+      ? `CreditNote-${creditNote.credit_note_number}.pdf`
+      : `Receipt-${invoiceData.invoice_number}.pdf`,
+    locale,
+    invoice,
+    creditNote
+  };
+}
@@ -0,0 +1,114 @@
+export interface SellerDetails {
+  name: string;
+  address: string | null;
+  tax_id: string | null;
+}
+
+export interface InvoiceData {
+  id: string;
+  invoice_number: string;
+  status: string;
+  subtotal: number;
+  tax: number;
+  tax_rate: number;
+  tax_name: string | null;
+  discount: number;
+  discount_code: string | null;
+  total: number;
+  currency: string;
+  invoice_date: string;
+  paid_at: string;
+  period_start: string;
+  period_end: string;
+  payment_method: string;
+  description: string;
+  restaurant_name: string;
+  user_email: string;
+  buyer_name: string | null;
+  buyer_tax_id: string | null;
+  buyer_address: string | null;
+  seller: SellerDetails;
+  plan_type: string;
+  credit_note?: {
+    original_invoice_number: string;
+    reason: string | null;
+  };
+  // Verification page link, printed as a QR code
+  verification?: {
+    url: string;
+    qr_code: string;
+  };
+  line_items: Array<{
+    description: string;
+    quantity: number;
+    unit_price: number;
+    amount: number;
+  }>;
+}
+
+// Columns every receipt needs; pass to .select() on invoices
+export const INVOICE_SELECT = `
+  *,
+  invoice_line_items (*),
+  user:users!invoices_user_id_fkey (email),
+  subscription:subscriptions!invoices_subscription_id_fkey (plan_type)
+`;
+
+export function toInvoiceData(invoice: any): InvoiceData {
+  return {
+    id: invoice.id,
+    invoice_number: invoice.invoice_number || `INV-${invoice.id.slice(0, 8)}`,
+    status: invoice.status,
+    subtotal: parseFloat(invoice.subtotal) || 0,
+    tax: parseFloat(invoice.tax) || 0,
+    tax_rate: parseFloat(invoice.tax_rate) || 0,
+    tax_name: invoice.tax_name || null,
+    discount: parseFloat(invoice.discount) || 0,
+    discount_code: invoice.discount_code || null,
+    total: parseFloat(invoice.total) || 0,
+    currency: invoice.currency || 'USD',
+    invoice_date: invoice.invoice_date,
+    paid_at: invoice.paid_at,
+    period_start: invoice.period_start,
+    period_end: invoice.period_end,
+    payment_method: invoice.payment_method || 'Card',
+    description: invoice.description || '',
+    restaurant_name: invoice.restaurant_name || 'Restaurant',
+    user_email: invoice.user?.email || 'customer@email.com',
+    buyer_name: invoice.buyer_name || null,
+    buyer_tax_id: invoice.buyer_tax_id || null,
+    buyer_address: invoice.buyer_address || null,
+    seller: {
+      name: Deno.env.get('SELLER_NAME') || 'LEYLS',
+      address: Deno.env.get('SELLER_ADDRESS') || null,
+      tax_id: Deno.env.get('SELLER_TAX_ID') || null
+    },
+    plan_type: invoice.subscription?.plan_type || 'monthly',
+    line_items: invoice.invoice_line_items || []
+  };
+}
+
+// A credit note reuses the receipt layout with the refunded amount as its only line
+export function toCreditNoteData(invoice: InvoiceData, creditNote: any): InvoiceData {
+  const amount = parseFloat(creditNote.amount) || 0;
+
+  return {
+    ...invoice,
+    id: creditNote.id,
+    invoice_number: creditNote.credit_note_number,
+    status: creditNote.status,
+    subtotal: amount,
+    tax: parseFloat(creditNote.tax) || 0,
+    discount: 0,
+    discount_code: null,
+    total: amount,
+    currency: creditNote.currency || invoice.currency,
+    invoice_date: creditNote.issued_at || creditNote.created_at,
+    paid_at: creditNote.issued_at || creditNote.created_at,
+    credit_note: {
+      original_invoice_number: invoice.invoice_number,
+      reason: creditNote.reason || null
+    },
+    line_items: []
+  };
+}
@@ -0,0 +1,379 @@
+import { jsPDF } from "npm:jspdf@2.5.1";
+import type { InvoiceData } from "./invoice-data.ts";
+import { INTL_LOCALES, RECEIPT_TRANSLATIONS, RTL_LOCALES, type ReceiptLocale } from "./translations.ts";
+import { RECEIPT_TEMPLATES, type ReceiptTemplate } from "./templates.ts";
+import type { ReceiptAssets } from "./assets.ts";
+
+export function generateReceiptPDF(
+  invoice: InvoiceData,
+  locale: ReceiptLocale = 'en',
+  template: ReceiptTemplate = RECEIPT_TEMPLATES.leyls,
+  assets: ReceiptAssets = { font: null, logo: null }
+): Uint8Array {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4'
+  });
+
+  const { font, logo } = assets;
+
+  // Helvetica cannot draw Arabic script, so without an embedded font the receipt is rendered in English
+  if (RTL_LOCALES.includes(locale) && !font) {
+    console.warn('⚠️ No font for receipt locale, rendering in English:', locale);
+    locale = 'en';
+  }
+
+  const labels = RECEIPT_TRANSLATIONS[locale];
+  const intlLocale = INTL_LOCALES[locale];
+  const isRTL = RTL_LOCALES.includes(locale);
+  const colors = template.colors;
+
+  let fontFamily = 'helvetica';
+  if (font) {
+    doc.addFileToVFS('ReceiptFont-Regular.ttf', font.regular);
+    doc.addFont('ReceiptFont-Regular.ttf', 'ReceiptFont', 'normal');
+    doc.addFileToVFS('ReceiptFont-Bold.ttf', font.bold);
+    doc.addFont('ReceiptFont-Bold.ttf', 'ReceiptFont', 'bold');
+    fontFamily = 'ReceiptFont';
+  }
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const contentWidth = pageWidth - (2 * margin);
+
+  const setFont = (style: 'normal' | 'bold') => doc.setFont(fontFamily, style);
+
+  // Positions are written left-to-right and mirrored for RTL locales
+  const text = (value: string, x: number, y: number, align: 'left' | 'right' | 'center' = 'left') => {
+    const mirroredAlign = align === 'left' ? 'right' : align === 'right' ? 'left' : 'center';
+    doc.text(value, isRTL ? pageWidth - x : x, y, {
+      align: isRTL ? mirroredAlign : align,
+      ...(isRTL ? { isInputVisual: false, isOutputVisual: true, isInputRtl: true } : {})
+    });
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number) => {
+    doc.line(isRTL ? pageWidth - x1 : x1, y1, isRTL ? pageWidth - x2 : x2, y2);
+  };
+
+  const money = (amount: number) => formatCurrency(amount, invoice.currency, intlLocale);
+  const date = (value: string) => formatDate(value, intlLocale);
+
+  let yPos = margin;
+
+  // Header filled with the template colours, blended step by step when there are several
+  const headerHeight = 40;
+  const headerColors = colors.header;
+  const gradientSteps = headerColors.length > 1 ? 50 : 1;
+  for (let i = 0; i < gradientSteps; i++) {
+    const position = gradientSteps > 1 ? (i / gradientSteps) * (headerColors.length - 1) : 0;
+    const from = headerColors[Math.floor(position)];
+    const to = headerColors[Math.min(Math.floor(position) + 1, headerColors.length - 1)];
+    const localRatio = position - Math.floor(position);
+
+    doc.setFillColor(
+      Math.round(from[0] + (to[0] - from[0]) * localRatio),
+      Math.round(from[1] + (to[1] - from[1]) * localRatio),
+      Math.round(from[2] + (to[2] - from[2]) * localRatio)
+    );
+    doc.rect(
+      0,
+      i * (headerHeight / gradientSteps),
+      pageWidth,
+      headerHeight / gradientSteps + 0.5,
+      'F'
+    );
+  }
+
+  // Company Logo/Name
+  doc.setTextColor(...colors.headerText);
+  if (logo) {
+    const logoHeight = 14;
+    doc.addImage(
+      logo.data,
+      logo.format,
+      isRTL ? pageWidth - margin - template.logoWidth : margin,
+      yPos + 3,
+      template.logoWidth,
+      logoHeight
+    );
+  } else {
+    doc.setFontSize(28);
+    setFont('bold');
+    text(template.brandName, margin, yPos + 15);
+  }
+
+  doc.setFontSize(10);
+  setFont('normal');
+  text(template.tagline || labels.tagline, margin, yPos + 22);
+
+  // Receipt Title
+  doc.setFontSize(32);
+  setFont('bold');
+  text(invoice.credit_note ? labels.creditNote : labels.receipt, pageWidth - margin, yPos + 18, 'right');
+
+  yPos = headerHeight + margin + 10;
+
+  // Invoice Details Section
+  doc.setTextColor(...colors.text);
+  doc.setFontSize(10);
+  setFont('bold');
+  text(invoice.credit_note ? labels.creditNoteDetails : labels.invoiceDetails, margin, yPos);
+
+  yPos += 7;
+  setFont('normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...colors.muted);
+
+  const status = labels.statuses[invoice.status] || invoice.status.toUpperCase();
+  const invoiceDetails = invoice.credit_note
+    ? [
+      [labels.creditNoteNumber, invoice.invoice_number],
+      [labels.originalInvoice, invoice.credit_note.original_invoice_number],
+      [labels.issueDate, date(invoice.invoice_date)],
+      [labels.status, status],
+      ...(invoice.credit_note.reason ? [[labels.reason, invoice.credit_note.reason]] : [])
+    ]
+    : [
+      [labels.invoiceNumber, invoice.invoice_number],
+      [labels.invoiceDate, date(invoice.invoice_date)],
+      [labels.paymentDate, date(invoice.paid_at)],
+      [labels.status, status],
+      [labels.paymentMethod, invoice.payment_method === 'Card' ? labels.card : invoice.payment_method]
+    ];
+
+  // Seller details, aligned to the far side beside the invoice details
+  const sellerLines = [
+    invoice.seller.name,
+    ...(invoice.seller.address ? invoice.seller.address.split('\n') : []),
+    ...(invoice.seller.tax_id ? [`${labels.taxId} ${invoice.seller.tax_id}`] : [])
+  ];
+  let sellerY = yPos;
+  sellerLines.forEach((sellerLine, index) => {
+    setFont(index === 0 ? 'bold' : 'normal');
+    text(sellerLine, pageWidth - margin, sellerY, 'right');
+    sellerY += 5;
+  });
+
+  invoiceDetails.forEach(([label, value]) => {
+    setFont('bold');
+    text(label, margin, yPos);
+    setFont('normal');
+    text(value, margin + 40, yPos);
+    yPos += 5;
+  });
+
+  yPos = Math.max(yPos, sellerY) + 5;
+
+  // Customer Information
+  const buyerLines = [
+    invoice.buyer_name || invoice.restaurant_name,
+    ...(invoice.buyer_address ? invoice.buyer_address.split('\n') : []),
+    ...(invoice.buyer_tax_id ? [`${labels.taxId} ${invoice.buyer_tax_id}`] : []),
+    invoice.user_email
+  ];
+  const billToHeight = 15 + buyerLines.length * 5;
+
+  doc.setFillColor(...colors.surface);
+  doc.roundedRect(margin, yPos, contentWidth, billToHeight, 3, 3, 'F');
+
+  yPos += 7;
+  doc.setTextColor(...colors.text);
+  doc.setFontSize(10);
+  setFont('bold');
+  text(labels.billTo, margin + 5, yPos);
+
+  yPos += 6;
+  doc.setFontSize(9);
+  setFont('normal');
+  doc.setTextColor(...colors.muted);
+  buyerLines.forEach((buyerLine, index) => {
+    if (index > 0) yPos += 5;
+    text(buyerLine, margin + 5, yPos);
+  });
+
+  yPos += 15;
+
+  // Billing Period
+  doc.setTextColor(...colors.text);
+  doc.setFontSize(10);
+  setFont('bold');
+  text(labels.billingPeriod, margin, yPos);
+
+  yPos += 6;
+  doc.setFontSize(9);
+  setFont('normal');
+  doc.setTextColor(...colors.muted);
+  text(`${date(invoice.period_start)} - ${date(invoice.period_end)}`, margin, yPos);
+
+  yPos += 10;
+
+  // Line Items Table
+  doc.setTextColor(...colors.text);
+  doc.setFontSize(10);
+  setFont('bold');
+  text(labels.items, margin, yPos);
+
+  yPos += 7;
+
+  // Table Header
+  doc.setFillColor(...colors.text);
+  doc.rect(margin, yPos, contentWidth, 8, 'F');
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(9);
+  setFont('bold');
+  text(labels.description, margin + 3, yPos + 5);
+  text(labels.qty, pageWidth - margin - 50, yPos + 5);
+  text(labels.unitPrice, pageWidth - margin - 35, yPos + 5);
+  text(labels.amount, pageWidth - margin - 3, yPos + 5, 'right');
+
+  yPos += 8;
+
+  // Table Rows
+  doc.setTextColor(...colors.text);
+  setFont('normal');
+
+  if (invoice.line_items && invoice.line_items.length > 0) {
+    invoice.line_items.forEach((item, index) => {
+      if (index % 2 === 0) {
+        doc.setFillColor(...colors.surface);
+        doc.rect(margin, yPos, contentWidth, 8, 'F');
+      }
+
+      text(item.description, margin + 3, yPos + 5);
+      text(item.quantity.toLocaleString(intlLocale), pageWidth - margin - 50, yPos + 5);
+      text(money(item.unit_price), pageWidth - margin - 35, yPos + 5);
+      text(money(item.amount), pageWidth - margin - 3, yPos + 5, 'right');
+
+      yPos += 8;
+    });
+  } else {
+    // Default line item based on plan type, or the refunded invoice for a credit note
+    const description = invoice.credit_note
+      ? `${labels.refundFor} ${invoice.credit_note.original_invoice_number}`
+      : labels.planNames[invoice.plan_type] || labels.planNames.monthly;
+    text(description, margin + 3, yPos + 5);
+    text((1).toLocaleString(intlLocale), pageWidth - margin - 50, yPos + 5);
+    text(money(invoice.subtotal), pageWidth - margin - 35, yPos + 5);
+    text(money(invoice.subtotal), pageWidth - margin - 3, yPos + 5, 'right');
+
+    yPos += 8;
+  }
+
+  yPos += 5;
+
+  // Totals Section
+  const totalsX = pageWidth - margin - 60;
+
+  doc.setDrawColor(...colors.muted);
+  line(totalsX, yPos, pageWidth - margin, yPos);
+
+  yPos += 7;
+
+  // Subtotal
+  setFont('normal');
+  doc.setTextColor(...colors.muted);
+  text(labels.subtotal, totalsX, yPos);
+  text(money(invoice.subtotal), pageWidth - margin - 3, yPos, 'right');
+
+  yPos += 6;
+
+  // Tax (prices are tax-inclusive, so this is the tax contained in the total)
+  if (invoice.tax > 0) {
+    const taxRate = invoice.tax_rate.toLocaleString(intlLocale);
+    text(`${invoice.tax_name || labels.tax} ${taxRate}% (${labels.taxIncluded}):`, totalsX, yPos);
+    text(money(invoice.tax), pageWidth - margin - 3, yPos, 'right');
+    yPos += 6;
+  }
+
+  // Discount
+  if (invoice.discount > 0) {
+    text(invoice.discount_code ? `${labels.discount} (${invoice.discount_code}):` : `${labels.discount}:`, totalsX, yPos);
+    text(`-${money(invoice.discount)}`, pageWidth - margin - 3, yPos, 'right');
+    yPos += 6;
+  }
+
+  // Total - Highlighted
+  doc.setDrawColor(...colors.accent);
+  doc.setLineWidth(0.5);
+  line(totalsX, yPos, pageWidth - margin, yPos);
+
+  yPos += 7;
+
+  doc.setFontSize(12);
+  setFont('bold');
+  doc.setTextColor(...colors.text);
+  text(invoice.credit_note ? labels.totalRefunded : labels.total, totalsX, yPos);
+
+  doc.setTextColor(...colors.accent);
+  text(money(invoice.total), pageWidth - margin - 3, yPos, 'right');
+
+  // Footer
+  const footerY = pageHeight - 30;
+
+  doc.setDrawColor(...colors.surface);
+  line(margin, footerY, pageWidth - margin, footerY);
+
+  doc.setFontSize(8);
+  setFont('normal');
+  doc.setTextColor(...colors.muted);
+
+  text(template.footerText || labels.thankYou, pageWidth / 2, footerY + 7, 'center');
+
+  doc.setFontSize(7);
+  text(labels.computerGenerated, pageWidth / 2, footerY + 12, 'center');
+  text(`${labels.support} ${template.supportEmail}`, pageWidth / 2, footerY + 17, 'center');
+
+  // Verification QR code in the bottom corner opposite the totals
+  if (invoice.verification) {
+    const qrSize = 22;
+    doc.addImage(
+      invoice.verification.qr_code,
+      'PNG',
+      isRTL ? pageWidth - margin - qrSize : margin,
+      footerY - qrSize - 8,
+      qrSize,
+      qrSize
+    );
+    doc.setFontSize(6);
+    text(labels.verifyReceipt, margin, footerY - 3);
+  }
+
+  // Generate PDF as Uint8Array
+  const pdfOutput = doc.output('arraybuffer');
+  return new Uint8Array(pdfOutput);
+}
+
+export function formatDate(dateString: string, intlLocale: string = 'en-US'): string {
+  if (!dateString) return 'N/A';
+
+  try {
+    const date = new Date(dateString);
+    return date.toLocaleDateString(intlLocale, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  } catch {
+    return 'N/A';
+  }
+}
+
+// Amount is in the currency's minor unit, e.g. cents for USD, fils (1/1000) for KWD, whole yen for JPY
+export function formatCurrency(amount: number, currency: string = 'USD', intlLocale: string = 'en-US'): string {
+  return new Intl.NumberFormat(intlLocale, {
+    style: 'currency',
+    currency: currency.toUpperCase()
+  }).format(amount / 10 ** currencyExponent(currency));
+}
+
+// Decimals of a currency's minor unit (ISO 4217)
+export function currencyExponent(currency: string = 'USD'): number {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase()
+  }).resolvedOptions().maximumFractionDigits ?? 2;
+}
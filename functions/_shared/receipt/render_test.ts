@@ -0,0 +1,131 @@
+// Snapshot of the text drawn on each kind of receipt, so layout and formatting changes show up in review.
+//   cd functions && deno task test
+// Add `-- --update` to accept intended changes. The Arabic receipt embeds the font from
+// RECEIPT_ARABIC_FONT_URL (a file:// URL works offline) and is skipped when it cannot be loaded.
+import { jsPDF } from "npm:jspdf@2.5.1";
+import { assertSnapshot } from "@std/testing/snapshot";
+import { assert } from "@std/assert";
+import { loadReceiptAssets, type ReceiptAssets } from "./assets.ts";
+import { toCreditNoteData, type InvoiceData } from "./invoice-data.ts";
+import { generateReceiptPDF } from "./render.ts";
+import { RECEIPT_TEMPLATES } from "./templates.ts";
+import type { ReceiptLocale } from "./translations.ts";
+
+let drawnText: string[] | null = null;
+
+// Sees every doc.text call before Arabic shaping, so the snapshot holds readable text and its position
+jsPDF.API.events.push(['preProcessText', (payload: any) => {
+  if (!drawnText) return;
+  const value = Array.isArray(payload.text) ? payload.text.join('\n') : String(payload.text);
+  drawnText.push(`${payload.x.toFixed(1)},${payload.y.toFixed(1)} ${value}`);
+}]);
+
+// Dates at midday UTC so the rendered day does not depend on the machine's time zone
+const baseInvoice: InvoiceData = {
+  id: '00000000-0000-0000-0000-000000000001',
+  invoice_number: 'INV-000042',
+  status: 'paid',
+  subtotal: 2900,
+  tax: 0,
+  tax_rate: 0,
+  tax_name: null,
+  discount: 0,
+  discount_code: null,
+  total: 2900,
+  currency: 'USD',
+  invoice_date: '2025-11-01T12:00:00Z',
+  paid_at: '2025-11-01T12:00:00Z',
+  period_start: '2025-11-01T12:00:00Z',
+  period_end: '2025-12-01T12:00:00Z',
+  payment_method: 'Card',
+  description: 'Monthly plan',
+  restaurant_name: 'Jasmine Kitchen',
+  user_email: 'owner@example.com',
+  buyer_name: null,
+  buyer_tax_id: null,
+  buyer_address: null,
+  seller: { name: 'LEYLS', address: '1 Market Street\nDubai', tax_id: 'TRN100200300' },
+  plan_type: 'monthly',
+  line_items: []
+};
+
+function renderText(
+  invoice: InvoiceData,
+  locale: ReceiptLocale = 'en',
+  assets: ReceiptAssets = { font: null, logo: null }
+): string[] {
+  drawnText = [];
+  try {
+    const pdf = generateReceiptPDF(invoice, locale, RECEIPT_TEMPLATES.leyls, assets);
+    assert(new TextDecoder().decode(pdf.subarray(0, 5)) === '%PDF-', 'Output is not a PDF');
+    return drawnText;
+  } finally {
+    drawnText = null;
+  }
+}
+
+Deno.test('plain receipt', async (t) => {
+  await assertSnapshot(t, renderText(baseInvoice));
+});
+
+Deno.test('discounted receipt', async (t) => {
+  await assertSnapshot(t, renderText({
+    ...baseInvoice,
+    subtotal: 2900,
+    discount: 725,
+    discount_code: 'WELCOME25',
+    total: 2175
+  }));
+});
+
+Deno.test('taxed receipt with line items', async (t) => {
+  await assertSnapshot(t, renderText({
+    ...baseInvoice,
+    currency: 'KWD',
+    subtotal: 9000,
+    tax: 1174,
+    tax_rate: 15,
+    tax_name: 'VAT',
+    total: 9000,
+    buyer_name: 'Jasmine Kitchen LLC',
+    buyer_tax_id: 'KW123456',
+    buyer_address: 'Block 3, Street 12\nKuwait City',
+    line_items: [
+      { description: 'Semiannual plan', quantity: 1, unit_price: 8000, amount: 8000 },
+      { description: 'Extra branch', quantity: 2, unit_price: 500, amount: 1000 }
+    ]
+  }));
+});
+
+Deno.test('credit note', async (t) => {
+  await assertSnapshot(t, renderText(toCreditNoteData(baseInvoice, {
+    id: '00000000-0000-0000-0000-000000000002',
+    credit_note_number: 'CN-000007',
+    status: 'issued',
+    amount: 1450,
+    tax: 0,
+    currency: 'USD',
+    reason: 'Duplicate charge',
+    issued_at: '2025-11-05T12:00:00Z',
+    created_at: '2025-11-05T12:00:00Z'
+  })));
+});
+
+// Loaded up front so the test can be skipped, rather than failed, without network access to the font
+const { font: arabicFont } = await loadReceiptAssets('ar', RECEIPT_TEMPLATES.leyls);
+
+Deno.test({
+  name: 'Arabic receipt is rendered right to left',
+  ignore: !arabicFont,
+  fn: async (t) => {
+    await assertSnapshot(t, renderText({
+      ...baseInvoice,
+      currency: 'AED',
+      restaurant_name: 'مطعم الياسمين'
+    }, 'ar', { font: arabicFont, logo: null }));
+  }
+});
+
+Deno.test('Arabic receipt without its font falls back to English', async (t) => {
+  await assertSnapshot(t, renderText(baseInvoice, 'ar'));
+});
@@ -0,0 +1,114 @@
+import QRCode from "npm:qrcode@1.5.3";
+import type { InvoiceData } from "./invoice-data.ts";
+
+// What a signature grants: downloading an invoice or credit note PDF, or viewing an invoice's verification page
+export type ReceiptLinkPurpose = 'invoice' | 'credit_note' | 'verify';
+
+// Download links are meant to be forwarded, not kept
+export const DEFAULT_LINK_TTL_HOURS = 72;
+export const MAX_LINK_TTL_HOURS = 30 * 24;
+
+const encoder = new TextEncoder();
+let signingKeyPromise: Promise<CryptoKey> | null = null;
+
+export function isReceiptSigningConfigured(): boolean {
+  return Boolean(Deno.env.get('RECEIPT_SIGNING_SECRET'));
+}
+
+// HMAC-SHA256 over the purpose, document id and expiry (unix seconds; null never expires), base64url encoded
+export async function signReceiptLink(
+  purpose: ReceiptLinkPurpose,
+  documentId: string,
+  expiresAt: number | null
+): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await getSigningKey(),
+    encoder.encode(`${purpose}:${documentId}:${expiresAt ?? ''}`)
+  );
+
+  return btoa(String.fromCharCode(...new Uint8Array(signature)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export async function verifyReceiptLink(
+  purpose: ReceiptLinkPurpose,
+  documentId: string,
+  expiresAt: number | null,
+  signature: string | null
+): Promise<boolean> {
+  if (!signature || !isReceiptSigningConfigured()) return false;
+  if (expiresAt !== null && (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now())) return false;
+
+  const expected = await signReceiptLink(purpose, documentId, expiresAt);
+  if (expected.length !== signature.length) return false;
+
+  // Constant-time comparison so the signature cannot be guessed byte by byte
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+// Download URL that works without authentication until it expires
+export async function createSignedReceiptUrl(
+  purpose: 'invoice' | 'credit_note',
+  documentId: string,
+  ttlHours: number = DEFAULT_LINK_TTL_HOURS
+): Promise<{ url: string; expiresAt: string }> {
+  const expiresAt = Math.floor(Date.now() / 1000) + Math.round(ttlHours * 3600);
+  const signature = await signReceiptLink(purpose, documentId, expiresAt);
+  const path = purpose === 'credit_note' ? `credit-notes/${documentId}` : documentId;
+  const params = new URLSearchParams({ expires: String(expiresAt), signature });
+
+  return {
+    url: `${functionsBaseUrl()}/download-receipt/${path}?${params}`,
+    expiresAt: new Date(expiresAt * 1000).toISOString()
+  };
+}
+
+// Non-expiring URL of the page confirming an invoice was issued by us. RECEIPT_VERIFY_URL can point
+// it at a custom domain that proxies the verify-receipt function.
+export async function createVerificationUrl(invoiceId: string): Promise<string> {
+  const signature = await signReceiptLink('verify', invoiceId, null);
+  const params = new URLSearchParams({ invoice: invoiceId, signature });
+  const baseUrl = Deno.env.get('RECEIPT_VERIFY_URL') || `${functionsBaseUrl()}/verify-receipt`;
+
+  return `${baseUrl}?${params}`;
+}
+
+// Adds the verification URL and its QR code to an invoice. Receipts are rendered without them when
+// no signing secret is configured; credit notes are verified through their original invoice.
+export async function withVerification(invoice: InvoiceData): Promise<InvoiceData> {
+  if (!isReceiptSigningConfigured() || invoice.credit_note) return invoice;
+
+  const url = await createVerificationUrl(invoice.id);
+  const qrCode = await QRCode.toDataURL(url, { errorCorrectionLevel: 'M', margin: 1, width: 256 });
+
+  return { ...invoice, verification: { url, qr_code: qrCode } };
+}
+
+function functionsBaseUrl(): string {
+  return `${Deno.env.get('SUPABASE_URL')}/functions/v1`;
+}
+
+function getSigningKey(): Promise<CryptoKey> {
+  const secret = Deno.env.get('RECEIPT_SIGNING_SECRET');
+  if (!secret) {
+    throw new Error('RECEIPT_SIGNING_SECRET is not configured');
+  }
+
+  if (!signingKeyPromise) {
+    signingKeyPromise = crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+  }
+  return signingKeyPromise;
+}
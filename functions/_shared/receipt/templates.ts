@@ -0,0 +1,98 @@
+export type RGB = [number, number, number];
+
+export interface ReceiptTemplate {
+  id: string;
+  brandName: string;
+  // Shown under the brand name; null uses the translated platform tagline
+  tagline: string | null;
+  colors: {
+    // One colour gives a solid header, several a top-to-bottom gradient
+    header: RGB[];
+    headerText: RGB;
+    accent: RGB;
+    text: RGB;
+    muted: RGB;
+    surface: RGB;
+  };
+  // PNG or JPEG drawn in the header instead of the brand name
+  logoUrl: string | null;
+  logoWidth: number;
+  // Replaces the translated thank-you line
+  footerText: string | null;
+  supportEmail: string;
+}
+
+export const RECEIPT_TEMPLATES: Record<string, ReceiptTemplate> = {
+  leyls: {
+    id: 'leyls',
+    brandName: 'LEYLS',
+    tagline: null,
+    colors: {
+      header: [[230, 168, 92], [232, 90, 155], [217, 70, 239]], // #E6A85C, #E85A9B, #D946EF
+      headerText: [255, 255, 255],
+      accent: [232, 90, 155],
+      text: [31, 41, 55],
+      muted: [107, 114, 128],
+      surface: [243, 244, 246]
+    },
+    logoUrl: null,
+    logoWidth: 40,
+    footerText: null,
+    supportEmail: 'support@leyls.com'
+  },
+  minimal: {
+    id: 'minimal',
+    brandName: 'LEYLS',
+    tagline: null,
+    colors: {
+      header: [[31, 41, 55]],
+      headerText: [255, 255, 255],
+      accent: [31, 41, 55],
+      text: [31, 41, 55],
+      muted: [107, 114, 128],
+      surface: [243, 244, 246]
+    },
+    logoUrl: null,
+    logoWidth: 40,
+    footerText: null,
+    supportEmail: 'support@leyls.com'
+  }
+};
+
+// Template for this deployment: RECEIPT_TEMPLATE picks a built-in template and the
+// RECEIPT_* variables override its branding
+export function getReceiptTemplate(): ReceiptTemplate {
+  const base = RECEIPT_TEMPLATES[Deno.env.get('RECEIPT_TEMPLATE') || 'leyls'] || RECEIPT_TEMPLATES.leyls;
+  const headerColors = parseColors(Deno.env.get('RECEIPT_BRAND_COLORS'));
+  const accentColor = parseColors(Deno.env.get('RECEIPT_ACCENT_COLOR'))[0];
+
+  return {
+    ...base,
+    brandName: Deno.env.get('RECEIPT_BRAND_NAME') || base.brandName,
+    tagline: Deno.env.get('RECEIPT_TAGLINE') || base.tagline,
+    colors: {
+      ...base.colors,
+      header: headerColors.length > 0 ? headerColors : base.colors.header,
+      accent: accentColor || base.colors.accent
+    },
+    logoUrl: Deno.env.get('RECEIPT_LOGO_URL') || base.logoUrl,
+    logoWidth: Number(Deno.env.get('RECEIPT_LOGO_WIDTH')) || base.logoWidth,
+    footerText: Deno.env.get('RECEIPT_FOOTER_TEXT') || base.footerText,
+    supportEmail: Deno.env.get('RECEIPT_SUPPORT_EMAIL') || base.supportEmail
+  };
+}
+
+// Comma-separated hex colours, e.g. "#E6A85C,#E85A9B"; invalid entries are ignored
+function parseColors(value: string | undefined): RGB[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map(color => color.trim().replace(/^#/, ''))
+    .filter(color => /^[0-9a-f]{6}$/i.test(color))
+    .map(color => [
+      parseInt(color.slice(0, 2), 16),
+      parseInt(color.slice(2, 4), 16),
+      parseInt(color.slice(4, 6), 16)
+    ] as RGB);
+}
@@ -0,0 +1,204 @@
+export type ReceiptLocale = 'en' | 'ar' | 'fr';
+
+export interface ReceiptLabels {
+  receipt: string;
+  creditNote: string;
+  tagline: string;
+  invoiceDetails: string;
+  invoiceNumber: string;
+  creditNoteDetails: string;
+  creditNoteNumber: string;
+  originalInvoice: string;
+  issueDate: string;
+  reason: string;
+  refundFor: string;
+  totalRefunded: string;
+  invoiceDate: string;
+  paymentDate: string;
+  status: string;
+  paymentMethod: string;
+  billTo: string;
+  taxId: string;
+  billingPeriod: string;
+  items: string;
+  description: string;
+  qty: string;
+  unitPrice: string;
+  amount: string;
+  subtotal: string;
+  tax: string;
+  taxIncluded: string;
+  discount: string;
+  total: string;
+  thankYou: string;
+  computerGenerated: string;
+  support: string;
+  verifyReceipt: string;
+  card: string;
+  statuses: Record<string, string>;
+  planNames: Record<string, string>;
+}
+
+export const RECEIPT_TRANSLATIONS: Record<ReceiptLocale, ReceiptLabels> = {
+  en: {
+    receipt: 'RECEIPT',
+    creditNote: 'CREDIT NOTE',
+    tagline: 'Loyalty & Rewards Platform',
+    invoiceDetails: 'Invoice Details',
+    invoiceNumber: 'Invoice Number:',
+    creditNoteDetails: 'Credit Note Details',
+    creditNoteNumber: 'Credit Note No.:',
+    originalInvoice: 'Original Invoice:',
+    issueDate: 'Issue Date:',
+    reason: 'Reason:',
+    refundFor: 'Refund for invoice',
+    totalRefunded: 'Total Refunded:',
+    invoiceDate: 'Invoice Date:',
+    paymentDate: 'Payment Date:',
+    status: 'Status:',
+    paymentMethod: 'Payment Method:',
+    billTo: 'Bill To',
+    taxId: 'Tax ID:',
+    billingPeriod: 'Billing Period',
+    items: 'Items',
+    description: 'Description',
+    qty: 'Qty',
+    unitPrice: 'Unit Price',
+    amount: 'Amount',
+    subtotal: 'Subtotal:',
+    tax: 'Tax',
+    taxIncluded: 'incl.',
+    discount: 'Discount',
+    total: 'Total:',
+    thankYou: 'Thank you for your business!',
+    computerGenerated: 'This is a computer-generated receipt and does not require a signature.',
+    support: 'For support, contact:',
+    verifyReceipt: 'Scan to verify this receipt',
+    card: 'Card',
+    statuses: { paid: 'PAID', pending: 'PENDING', failed: 'FAILED', refunded: 'REFUNDED', issued: 'ISSUED', void: 'VOID' },
+    planNames: {
+      monthly: 'Monthly Subscription',
+      semiannual: '6-Month Subscription',
+      annual: 'Annual Subscription',
+      trial: 'Trial Period'
+    }
+  },
+  ar: {
+    receipt: 'إيصال',
+    creditNote: 'إشعار دائن',
+    tagline: 'منصة الولاء والمكافآت',
+    invoiceDetails: 'تفاصيل الفاتورة',
+    invoiceNumber: 'رقم الفاتورة:',
+    creditNoteDetails: 'تفاصيل الإشعار الدائن',
+    creditNoteNumber: 'رقم الإشعار الدائن:',
+    originalInvoice: 'الفاتورة الأصلية:',
+    issueDate: 'تاريخ الإصدار:',
+    reason: 'السبب:',
+    refundFor: 'استرداد للفاتورة',
+    totalRefunded: 'إجمالي المبلغ المسترد:',
+    invoiceDate: 'تاريخ الفاتورة:',
+    paymentDate: 'تاريخ الدفع:',
+    status: 'الحالة:',
+    paymentMethod: 'طريقة الدفع:',
+    billTo: 'فاتورة إلى',
+    taxId: 'الرقم الضريبي:',
+    billingPeriod: 'فترة الفوترة',
+    items: 'البنود',
+    description: 'الوصف',
+    qty: 'الكمية',
+    unitPrice: 'سعر الوحدة',
+    amount: 'المبلغ',
+    subtotal: 'المجموع الفرعي:',
+    tax: 'الضريبة',
+    taxIncluded: 'شاملة',
+    discount: 'الخصم',
+    total: 'الإجمالي:',
+    thankYou: 'شكرًا لتعاملكم معنا!',
+    computerGenerated: 'هذا إيصال صادر إلكترونيًا ولا يتطلب توقيعًا.',
+    support: 'للدعم تواصلوا معنا على:',
+    verifyReceipt: 'امسح الرمز للتحقق من الإيصال',
+    card: 'بطاقة',
+    statuses: { paid: 'مدفوعة', pending: 'قيد الانتظار', failed: 'فشل الدفع', refunded: 'مستردة', issued: 'صادر', void: 'ملغى' },
+    planNames: {
+      monthly: 'اشتراك شهري',
+      semiannual: 'اشتراك لمدة 6 أشهر',
+      annual: 'اشتراك سنوي',
+      trial: 'فترة تجريبية'
+    }
+  },
+  fr: {
+    receipt: 'REÇU',
+    creditNote: 'AVOIR',
+    tagline: 'Plateforme de fidélité et de récompenses',
+    invoiceDetails: 'Détails de la facture',
+    invoiceNumber: 'N° de facture :',
+    creditNoteDetails: "Détails de l'avoir",
+    creditNoteNumber: "N° d'avoir :",
+    originalInvoice: "Facture d'origine :",
+    issueDate: "Date d'émission :",
+    reason: 'Motif :',
+    refundFor: 'Remboursement de la facture',
+    totalRefunded: 'Total remboursé :',
+    invoiceDate: 'Date de facture :',
+    paymentDate: 'Date de paiement :',
+    status: 'Statut :',
+    paymentMethod: 'Paiement :',
+    billTo: 'Facturé à',
+    taxId: 'N° fiscal :',
+    billingPeriod: 'Période de facturation',
+    items: 'Articles',
+    description: 'Description',
+    qty: 'Qté',
+    unitPrice: 'Prix unitaire',
+    amount: 'Montant',
+    subtotal: 'Sous-total :',
+    tax: 'Taxe',
+    taxIncluded: 'incluse',
+    discount: 'Remise',
+    total: 'Total :',
+    thankYou: 'Merci pour votre confiance !',
+    computerGenerated: 'Ce reçu est généré électroniquement et ne nécessite pas de signature.',
+    support: 'Assistance :',
+    verifyReceipt: 'Scannez pour vérifier ce reçu',
+    card: 'Carte',
+    statuses: { paid: 'PAYÉE', pending: 'EN ATTENTE', failed: 'ÉCHOUÉE', refunded: 'REMBOURSÉE', issued: 'ÉMIS', void: 'ANNULÉ' },
+    planNames: {
+      monthly: 'Abonnement mensuel',
+      semiannual: 'Abonnement 6 mois',
+      annual: 'Abonnement annuel',
+      trial: "Période d'essai"
+    }
+  }
+};
+
+// Locales used for Intl date and number formatting
+export const INTL_LOCALES: Record<ReceiptLocale, string> = {
+  en: 'en-US',
+  ar: 'ar',
+  fr: 'fr-FR'
+};
+
+export const RTL_LOCALES: ReceiptLocale[] = ['ar'];
+
+export function resolveLocale(requested: string | null | undefined): ReceiptLocale {
+  const language = (requested || '').toLowerCase().split(/[-_]/)[0];
+  return language in RECEIPT_TRANSLATIONS ? language as ReceiptLocale : 'en';
+}
+
+// An explicitly requested locale wins, otherwise the restaurant's locale
+export async function getReceiptLocale(
+  supabase: any,
+  requestedLocale: string | null,
+  restaurantId: string | null
+): Promise<ReceiptLocale> {
+  if (!requestedLocale && restaurantId) {
+    const { data: restaurant } = await supabase
+      .from('restaurants')
+      .select('locale')
+      .eq('id', restaurantId)
+      .maybeSingle();
+    requestedLocale = restaurant?.locale || null;
+  }
+
+  return resolveLocale(requestedLocale);
+}
@@ -0,0 +1,78 @@
+import Stripe from "npm:stripe@18.4.0";
+
+export interface CreditNote {
+  id: string;
+  invoice_id: string;
+  user_id: string;
+  credit_note_number: string;
+  status: 'pending' | 'issued' | 'void';
+  amount: number;
+  tax: number;
+  currency: string;
+  reason: string | null;
+  stripe_refund_id: string;
+  stripe_charge_id: string | null;
+  issued_by: string | null;
+  issued_at: string | null;
+  created_at: string;
+}
+
+// Payment intent that paid one of our invoices. Invoices generated before payment intents
+// were linked only carry the subscription id, so those are matched to the Stripe invoice
+// of the same subscription period.
+export async function findInvoicePaymentIntent(
+  stripe: Stripe,
+  invoice: { stripe_payment_intent_id: string | null; period_start: string },
+  stripeSubscriptionId: string | null
+): Promise<string | null> {
+  if (invoice.stripe_payment_intent_id?.startsWith('pi_')) {
+    return invoice.stripe_payment_intent_id;
+  }
+
+  const subscriptionId = invoice.stripe_payment_intent_id?.startsWith('sub_')
+    ? invoice.stripe_payment_intent_id
+    : stripeSubscriptionId;
+
+  if (!subscriptionId) {
+    return null;
+  }
+
+  const periodStart = Math.floor(new Date(invoice.period_start).getTime() / 1000);
+  const stripeInvoices = await stripe.invoices.list({
+    subscription: subscriptionId,
+    status: 'paid',
+    limit: 100,
+  });
+
+  const match = stripeInvoices.data.find(stripeInvoice => {
+    const linePeriod = stripeInvoice.lines.data[0]?.period;
+    return linePeriod && Math.abs(linePeriod.start - periodStart) < 24 * 60 * 60;
+  });
+
+  return (match?.payment_intent as string) || null;
+}
+
+// Stores the credit note for a Stripe refund; safe to call again when the refund changes status
+export async function recordCreditNote(
+  supabaseClient: any,
+  invoiceId: string,
+  refund: Stripe.Refund,
+  issuedBy?: string | null
+): Promise<CreditNote> {
+  const { data, error } = await supabaseClient.rpc('record_credit_note', {
+    p_invoice_id: invoiceId,
+    p_stripe_refund_id: refund.id,
+    p_amount: refund.amount,
+    p_status: refund.status,
+    p_reason: refund.metadata?.reason || refund.reason || null,
+    p_stripe_charge_id: (refund.charge as string) || null,
+    p_issued_by: issuedBy || null
+  });
+
+  if (error) {
+    console.error('❌ Error recording credit note:', error);
+    throw new Error(`Failed to record credit note: ${error.message}`);
+  }
+
+  return data as CreditNote;
+}
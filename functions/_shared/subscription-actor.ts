@@ -0,0 +1,14 @@
+export type SubscriptionActorType = 'webhook' | 'user' | 'support' | 'system';
+
+// Request headers that attribute subscription changes made with the service role key to whoever the
+// function acts for; log_subscription_event records them in subscription_events. Without them a
+// service role change is recorded as made by the system.
+export function subscriptionActorHeaders(
+  actorType: SubscriptionActorType,
+  actorId?: string
+): Record<string, string> {
+  return {
+    'x-subscription-actor-type': actorType,
+    ...(actorId ? { 'x-subscription-actor-id': actorId } : {})
+  };
+}
@@ -0,0 +1,75 @@
+import Stripe from "npm:stripe@18.4.0";
+
+export const MAX_PAUSE_MONTHS = 3;
+
+// Reason the subscription cannot be paused, or null when it can
+export function getPauseIneligibility(subscription: any): string | null {
+  if (subscription.status !== 'active' || subscription.cancel_at_period_end) {
+    return 'Only an active subscription that is not cancelled can be paused';
+  }
+
+  if (subscription.plan_type === 'trial' || !subscription.stripe_subscription_id) {
+    return 'Only paid subscriptions billed through Stripe can be paused';
+  }
+
+  if (subscription.scheduled_plan_type) {
+    return 'Cancel your scheduled plan change before pausing';
+  }
+
+  return null;
+}
+
+// Pauses billing for 1-3 months through Stripe pause_collection. Invoices Stripe creates during the
+// pause are voided, and collection resumes by itself on the resume date. Returns the resume date.
+export async function pauseSubscription(
+  stripe: Stripe,
+  supabaseAdmin: any,
+  subscription: any,
+  months: number
+): Promise<Date> {
+  if (!Number.isInteger(months) || months < 1 || months > MAX_PAUSE_MONTHS) {
+    throw new Error(`A subscription can be paused for 1 to ${MAX_PAUSE_MONTHS} months`);
+  }
+
+  const ineligibility = getPauseIneligibility(subscription);
+  if (ineligibility) {
+    throw new Error(ineligibility);
+  }
+
+  const resumesAt = new Date();
+  resumesAt.setMonth(resumesAt.getMonth() + months);
+
+  console.log('⏸️ Pausing subscription:', {
+    userId: subscription.user_id,
+    stripeSubscriptionId: subscription.stripe_subscription_id,
+    months,
+    resumesAt: resumesAt.toISOString()
+  });
+
+  await stripe.subscriptions.update(subscription.stripe_subscription_id, {
+    pause_collection: {
+      behavior: 'void',
+      resumes_at: Math.floor(resumesAt.getTime() / 1000)
+    },
+    metadata: {
+      paused_at: new Date().toISOString()
+    }
+  });
+
+  // The webhook sets the same state; updating now keeps the dashboard consistent until it arrives
+  const { error: updateError } = await supabaseAdmin
+    .from('subscriptions')
+    .update({
+      status: 'paused',
+      pause_resumes_at: resumesAt.toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', subscription.id);
+
+  if (updateError) {
+    console.error('❌ Error updating subscription status:', updateError);
+    throw new Error('Failed to update subscription status');
+  }
+
+  return resumesAt;
+}
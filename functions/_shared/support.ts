@@ -0,0 +1,15 @@
+import type { User } from "npm:@supabase/supabase-js@2.53.0";
+
+// Support endpoints need both the support role in the JWT and an active support_agents row,
+// so deactivating an agent takes effect before their token expires
+export async function requireSupportAgent(supabaseAdmin: any, user: User, action: string): Promise<void> {
+  const { data: agent } = await supabaseAdmin
+    .from('support_agents')
+    .select('id, is_active')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (user.app_metadata?.role !== 'support' || !agent?.is_active) {
+    throw new Error(`Only support staff can ${action}`);
+  }
+}
@@ -0,0 +1,357 @@
+import Stripe from "npm:stripe@18.4.0";
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { subscriptionActorHeaders } from "../_shared/subscription-actor.ts";
+import { resolvePlanPrice } from "../_shared/plan-prices.ts";
+import { resolvePromoCode, getStripeDiscount, type PromoCodeDiscount } from "../_shared/promo-codes.ts";
+import { getPauseIneligibility, pauseSubscription, MAX_PAUSE_MONTHS } from "../_shared/subscription-pause.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+type CancellationReason =
+  | 'too_expensive'
+  | 'not_using'
+  | 'seasonal_closure'
+  | 'missing_features'
+  | 'switching_provider'
+  | 'technical_issues'
+  | 'other';
+
+interface CancelSubscriptionRequest {
+  action: 'start' | 'accept_offer' | 'cancel';
+  reason?: CancellationReason;
+  feedback?: string;
+  feedbackId?: string;
+  months?: number;
+}
+
+type RetentionOffer =
+  | { type: 'discount'; code: string; description: string | null; percentOff: number | null; amountOff: number | null; currency?: string; duration?: string; durationInMonths?: number | null }
+  | { type: 'pause'; maxMonths: number };
+
+const CANCELLATION_REASONS: CancellationReason[] = [
+  'too_expensive', 'not_using', 'seasonal_closure', 'missing_features',
+  'switching_provider', 'technical_issues', 'other'
+];
+
+// Price-driven reasons get the retention coupon; owners who are not using LEYLS right now are offered a pause
+const DISCOUNT_REASONS: CancellationReason[] = ['too_expensive', 'switching_provider'];
+const PAUSE_REASONS: CancellationReason[] = ['not_using', 'seasonal_closure'];
+
+const MAX_FEEDBACK_LENGTH = 2000;
+
+// Cancellation flow in three steps: `start` records the reason and returns a retention offer (or null),
+// then the owner either takes it with `accept_offer` or goes ahead with `cancel`.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get the user
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    // Use service role client for admin operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { global: { headers: subscriptionActorHeaders('user', user.id) } }
+    );
+
+    const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+      apiVersion: '2023-10-16',
+    });
+
+    const request: CancelSubscriptionRequest = await req.json();
+
+    const { data: subscription, error: subError } = await supabaseAdmin
+      .from('subscriptions')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (subError || !subscription) {
+      throw new Error('Subscription not found');
+    }
+
+    let result: Record<string, unknown>;
+
+    switch (request.action) {
+      case 'start':
+        result = await startCancellation(stripe, supabaseAdmin, subscription, request);
+        break;
+      case 'accept_offer':
+        result = await acceptOffer(stripe, supabaseAdmin, subscription, request);
+        break;
+      case 'cancel':
+        result = await confirmCancellation(stripe, supabaseAdmin, subscription, request);
+        break;
+      default:
+        throw new Error('Unknown cancellation action');
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error in cancellation flow:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
+
+async function startCancellation(
+  stripe: Stripe,
+  supabaseAdmin: any,
+  subscription: any,
+  request: CancelSubscriptionRequest
+): Promise<Record<string, unknown>> {
+  if (!request.reason || !CANCELLATION_REASONS.includes(request.reason)) {
+    throw new Error('Please choose a reason for cancelling');
+  }
+
+  if (subscription.plan_type === 'trial' || ['cancelled', 'expired'].includes(subscription.status)) {
+    throw new Error('There is no paid subscription to cancel');
+  }
+
+  const offer = await findRetentionOffer(stripe, supabaseAdmin, subscription, request.reason);
+
+  const { data: feedback, error: insertError } = await supabaseAdmin
+    .from('cancellation_feedback')
+    .insert({
+      user_id: subscription.user_id,
+      subscription_id: subscription.id,
+      plan_type: subscription.plan_type,
+      reason: request.reason,
+      feedback: request.feedback?.trim().slice(0, MAX_FEEDBACK_LENGTH) || null,
+      offer_type: offer?.type ?? null,
+      offer_details: offer
+    })
+    .select('id')
+    .single();
+
+  if (insertError) {
+    console.error('❌ Error recording cancellation feedback:', insertError);
+    throw new Error('Failed to record cancellation feedback');
+  }
+
+  console.log('📝 Cancellation started:', {
+    userId: subscription.user_id,
+    reason: request.reason,
+    offer: offer?.type ?? 'none'
+  });
+
+  return { feedbackId: feedback.id, offer };
+}
+
+// One retention offer per owner: anyone who already accepted one goes straight to cancellation
+async function findRetentionOffer(
+  stripe: Stripe,
+  supabaseAdmin: any,
+  subscription: any,
+  reason: CancellationReason
+): Promise<RetentionOffer | null> {
+  const { data: previousOffer } = await supabaseAdmin
+    .from('cancellation_feedback')
+    .select('id')
+    .eq('user_id', subscription.user_id)
+    .eq('outcome', 'accepted_offer')
+    .limit(1)
+    .maybeSingle();
+
+  if (previousOffer) {
+    return null;
+  }
+
+  if (PAUSE_REASONS.includes(reason) && !getPauseIneligibility(subscription)) {
+    return { type: 'pause', maxMonths: MAX_PAUSE_MONTHS };
+  }
+
+  if (DISCOUNT_REASONS.includes(reason) && subscription.stripe_subscription_id) {
+    const discount = await resolveRetentionDiscount(stripe, supabaseAdmin, subscription);
+    if (discount) {
+      return {
+        type: 'discount',
+        code: discount.code!,
+        description: discount.description ?? null,
+        percentOff: discount.percentOff ?? null,
+        amountOff: discount.amountOff ?? null,
+        currency: discount.currency,
+        duration: discount.duration,
+        durationInMonths: discount.durationInMonths ?? null
+      };
+    }
+  }
+
+  return null;
+}
+
+async function resolveRetentionDiscount(
+  stripe: Stripe,
+  supabaseAdmin: any,
+  subscription: any
+): Promise<PromoCodeDiscount | null> {
+  const code = Deno.env.get('RETENTION_COUPON_CODE');
+  if (!code) {
+    return null;
+  }
+
+  const plan = await resolvePlanPrice(supabaseAdmin, subscription.plan_type, {
+    userId: subscription.user_id,
+    currency: subscription.currency
+  });
+
+  const discount = await resolvePromoCode(stripe, supabaseAdmin, code, plan);
+  if (!discount.valid) {
+    console.warn('⚠️ Retention coupon is not usable:', { code, reason: discount.reason });
+    return null;
+  }
+
+  return discount;
+}
+
+async function getPendingFeedback(supabaseAdmin: any, subscription: any, feedbackId?: string) {
+  if (!feedbackId) {
+    throw new Error('Feedback ID is required');
+  }
+
+  const { data: feedback, error } = await supabaseAdmin
+    .from('cancellation_feedback')
+    .select('*')
+    .eq('id', feedbackId)
+    .eq('user_id', subscription.user_id)
+    .maybeSingle();
+
+  if (error || !feedback) {
+    throw new Error('Cancellation request not found');
+  }
+
+  if (feedback.outcome !== 'pending') {
+    throw new Error('This cancellation request has already been completed');
+  }
+
+  return feedback;
+}
+
+async function resolveFeedback(
+  supabaseAdmin: any,
+  feedbackId: string,
+  outcome: 'accepted_offer' | 'cancelled',
+  offerDetails?: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('cancellation_feedback')
+    .update({
+      outcome,
+      resolved_at: new Date().toISOString(),
+      ...(offerDetails ? { offer_details: offerDetails } : {})
+    })
+    .eq('id', feedbackId);
+
+  if (error) {
+    console.error('⚠️ Failed to record cancellation outcome:', error);
+  }
+}
+
+async function acceptOffer(
+  stripe: Stripe,
+  supabaseAdmin: any,
+  subscription: any,
+  request: CancelSubscriptionRequest
+): Promise<Record<string, unknown>> {
+  const feedback = await getPendingFeedback(supabaseAdmin, subscription, request.feedbackId);
+
+  if (feedback.offer_type === 'pause') {
+    const months = request.months ?? 1;
+    const resumesAt = await pauseSubscription(stripe, supabaseAdmin, subscription, months);
+
+    await resolveFeedback(supabaseAdmin, feedback.id, 'accepted_offer', { ...feedback.offer_details, months });
+
+    console.log('🤝 Retention pause accepted:', { userId: subscription.user_id, months });
+    return { offer: 'pause', resumesAt: resumesAt.toISOString() };
+  }
+
+  if (feedback.offer_type === 'discount') {
+    // Re-check the coupon in case it expired or ran out since it was offered
+    const discount = await resolveRetentionDiscount(stripe, supabaseAdmin, subscription);
+    if (!discount || discount.code !== feedback.offer_details?.code) {
+      throw new Error('This offer is no longer available');
+    }
+
+    await stripe.subscriptions.update(subscription.stripe_subscription_id, {
+      ...(await getStripeDiscount(stripe, discount)),
+      metadata: {
+        retention_offer: discount.code!,
+        retention_offer_accepted_at: new Date().toISOString()
+      }
+    });
+
+    await resolveFeedback(supabaseAdmin, feedback.id, 'accepted_offer');
+
+    console.log('🤝 Retention discount accepted:', { userId: subscription.user_id, code: discount.code });
+    return { offer: 'discount', code: discount.code };
+  }
+
+  throw new Error('No offer was made for this cancellation');
+}
+
+async function confirmCancellation(
+  stripe: Stripe,
+  supabaseAdmin: any,
+  subscription: any,
+  request: CancelSubscriptionRequest
+): Promise<Record<string, unknown>> {
+  const feedback = await getPendingFeedback(supabaseAdmin, subscription, request.feedbackId);
+
+  // Stop Stripe renewing at the end of the period, and clear any pause so a paused subscription
+  // ends then instead of resuming later. reactivate-subscription reverses this.
+  if (subscription.stripe_subscription_id) {
+    await stripe.subscriptions.update(subscription.stripe_subscription_id, {
+      cancel_at_period_end: true,
+      pause_collection: ''
+    });
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('subscriptions')
+    .update({ status: 'cancelled', cancel_at_period_end: true, updated_at: new Date().toISOString() })
+    .eq('id', subscription.id);
+
+  if (updateError) {
+    console.error('❌ Error updating subscription status:', updateError);
+    throw new Error('Failed to cancel subscription');
+  }
+
+  await resolveFeedback(supabaseAdmin, feedback.id, 'cancelled');
+
+  console.log('❌ Subscription cancelled:', { userId: subscription.user_id, reason: feedback.reason });
+  return { cancelled: true };
+}
@@ -0,0 +1,408 @@
+import Stripe from "npm:stripe@18.4.0";
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { resolvePlanPrice } from "../_shared/plan-prices.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface ChangePlanRequest {
+  planType?: 'monthly' | 'semiannual' | 'annual';
+  confirm?: boolean;
+  prorationDate?: number;
+  timing?: 'immediate' | 'period_end';
+  cancelScheduled?: boolean;
+}
+
+interface ProrationPreview {
+  planType: string;
+  currentPlanType: string;
+  timing: 'immediate' | 'period_end';
+  effectiveAt: string;
+  prorationDate: number;
+  amountDue: number;
+  prorationCredit: number;
+  newPlanAmount: number;
+  currency: string;
+  lines: Array<{
+    description: string;
+    amount: number;
+    proration: boolean;
+  }>;
+}
+
+// How long a proration preview can be confirmed at its quoted price
+const PRORATION_QUOTE_TTL_SECONDS = 10 * 60;
+// Tolerated clock difference between the preview and confirm requests
+const PRORATION_CLOCK_SKEW_SECONDS = 60;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get the user
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+      apiVersion: '2023-10-16',
+    });
+
+    const {
+      planType,
+      confirm = false,
+      prorationDate,
+      timing = 'immediate',
+      cancelScheduled = false
+    }: ChangePlanRequest = await req.json();
+
+    const { data: currentSub, error: subError } = await supabaseClient
+      .from('subscriptions')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (subError || !currentSub) {
+      throw new Error('Subscription not found');
+    }
+
+    if (cancelScheduled) {
+      if (!currentSub.scheduled_plan_type) {
+        throw new Error('No scheduled plan change to cancel');
+      }
+
+      await releaseScheduledChange(stripe, supabaseClient, currentSub);
+
+      console.log('↩️ Scheduled plan change cancelled:', {
+        userId: user.id,
+        scheduledPlanType: currentSub.scheduled_plan_type
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, cancelled: true }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
+    if (!planType) {
+      throw new Error('Plan type is required');
+    }
+
+    if (!currentSub.stripe_subscription_id) {
+      throw new Error('Only auto-renewing subscriptions can change plan. Please purchase the new plan instead.');
+    }
+
+    if (currentSub.status !== 'active') {
+      throw new Error(`Cannot change plan while subscription is ${currentSub.status}`);
+    }
+
+    if (currentSub.plan_type === planType) {
+      throw new Error(`You are already on the ${planType} plan`);
+    }
+
+    // Stripe subscriptions can't switch currency, so the new plan is priced in the current one
+    const plan = await resolvePlanPrice(supabaseClient, planType, {
+      userId: user.id,
+      currency: currentSub.currency
+    });
+
+    if (!plan.stripe_price_id) {
+      throw new Error(`Price ID not configured for plan: ${planType} (${plan.currency}). Please set stripe_price_id in plan_prices.`);
+    }
+
+    const stripeSubscription = await stripe.subscriptions.retrieve(currentSub.stripe_subscription_id);
+    const subscriptionItem = stripeSubscription.items.data[0];
+
+    if (!subscriptionItem) {
+      throw new Error('Stripe subscription has no items to change');
+    }
+
+    // Reuse the quoted proration date on confirm so the charge matches the preview
+    const effectiveProrationDate = getProrationDate(prorationDate);
+    const items = [{ id: subscriptionItem.id, price: plan.stripe_price_id }];
+
+    console.log('🔀 Plan change requested:', {
+      userId: user.id,
+      subscriptionId: stripeSubscription.id,
+      from: currentSub.plan_type,
+      to: planType,
+      timing,
+      confirm,
+      prorationDate: effectiveProrationDate
+    });
+
+    if (timing === 'period_end') {
+      if (currentSub.cancel_at_period_end) {
+        throw new Error('Reactivate your subscription before scheduling a plan change');
+      }
+
+      const effectiveAt = new Date(stripeSubscription.current_period_end * 1000).toISOString();
+
+      if (!confirm) {
+        const preview: ProrationPreview = {
+          planType,
+          currentPlanType: currentSub.plan_type,
+          timing,
+          effectiveAt,
+          prorationDate: effectiveProrationDate,
+          amountDue: 0,
+          prorationCredit: 0,
+          newPlanAmount: plan.amount,
+          currency: plan.currency.toLowerCase(),
+          lines: []
+        };
+
+        return new Response(
+          JSON.stringify({ preview }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 200,
+          }
+        );
+      }
+
+      // A subscription schedule switches the price when the current phase ends.
+      // Phase metadata is copied onto the subscription, so webhooks see the new plan_type.
+      const schedule = stripeSubscription.schedule
+        ? await stripe.subscriptionSchedules.retrieve(stripeSubscription.schedule as string)
+        : await stripe.subscriptionSchedules.create({ from_subscription: stripeSubscription.id });
+
+      const currentPhase = schedule.phases[schedule.phases.length - 1];
+
+      await stripe.subscriptionSchedules.update(schedule.id, {
+        end_behavior: 'release',
+        phases: [
+          {
+            items: [{ price: subscriptionItem.price.id, quantity: subscriptionItem.quantity || 1 }],
+            start_date: currentPhase.start_date,
+            end_date: stripeSubscription.current_period_end,
+            metadata: stripeSubscription.metadata,
+          },
+          {
+            items: [{ price: plan.stripe_price_id, quantity: 1 }],
+            iterations: 1,
+            metadata: {
+              ...stripeSubscription.metadata,
+              user_id: user.id,
+              plan_type: planType,
+              previous_plan_type: currentSub.plan_type,
+              plan_changed_at: effectiveAt
+            },
+          },
+        ],
+      });
+
+      const { error: updateError } = await supabaseClient
+        .from('subscriptions')
+        .update({
+          scheduled_plan_type: planType,
+          scheduled_change_at: effectiveAt,
+          stripe_schedule_id: schedule.id,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', currentSub.id)
+        .eq('user_id', user.id);
+
+      if (updateError) {
+        console.error('❌ Error saving scheduled plan change:', updateError);
+        throw new Error('Plan change scheduled in Stripe but saving it failed');
+      }
+
+      console.log('📅 Plan change scheduled:', {
+        scheduleId: schedule.id,
+        to: planType,
+        effectiveAt
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          scheduled: true,
+          planType,
+          effectiveAt
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
+    if (!confirm) {
+      const upcomingInvoice = await stripe.invoices.createPreview({
+        customer: stripeSubscription.customer as string,
+        subscription: stripeSubscription.id,
+        subscription_details: {
+          items,
+          proration_behavior: 'always_invoice',
+          proration_date: effectiveProrationDate,
+        },
+      });
+
+      const lines = upcomingInvoice.lines.data.map((line: any) => ({
+        description: line.description || '',
+        amount: line.amount,
+        proration: Boolean(line.proration ?? line.parent?.subscription_item_details?.proration),
+      }));
+
+      const preview: ProrationPreview = {
+        planType,
+        currentPlanType: currentSub.plan_type,
+        timing,
+        effectiveAt: new Date(effectiveProrationDate * 1000).toISOString(),
+        prorationDate: effectiveProrationDate,
+        amountDue: upcomingInvoice.amount_due,
+        prorationCredit: lines
+          .filter(line => line.proration && line.amount < 0)
+          .reduce((sum, line) => sum + line.amount, 0),
+        newPlanAmount: plan.amount,
+        currency: upcomingInvoice.currency,
+        lines
+      };
+
+      console.log('🧮 Proration preview calculated:', {
+        amountDue: preview.amountDue,
+        prorationCredit: preview.prorationCredit,
+        currency: preview.currency
+      });
+
+      return new Response(
+        JSON.stringify({ preview }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
+    // An immediate change replaces any change scheduled for the period end
+    if (currentSub.scheduled_plan_type) {
+      await releaseScheduledChange(stripe, supabaseClient, currentSub);
+    }
+
+    const updatedSubscription = await stripe.subscriptions.update(stripeSubscription.id, {
+      items,
+      proration_behavior: 'always_invoice',
+      proration_date: effectiveProrationDate,
+      payment_behavior: 'error_if_incomplete',
+      metadata: {
+        ...stripeSubscription.metadata,
+        user_id: user.id,
+        plan_type: planType,
+        previous_plan_type: currentSub.plan_type,
+        plan_changed_at: new Date().toISOString()
+      }
+    });
+
+    console.log('✅ Stripe subscription moved to new plan:', {
+      subscriptionId: updatedSubscription.id,
+      status: updatedSubscription.status,
+      currentPeriodStart: updatedSubscription.current_period_start,
+      currentPeriodEnd: updatedSubscription.current_period_end
+    });
+
+    const { data: result, error: dbError } = await supabaseClient.rpc('handle_subscription_webhook', {
+      p_user_id: user.id,
+      p_plan_type: planType,
+      p_status: 'active',
+      p_stripe_subscription_id: updatedSubscription.id,
+      p_stripe_customer_id: updatedSubscription.customer as string,
+      p_period_start: new Date(updatedSubscription.current_period_start * 1000).toISOString(),
+      p_period_end: new Date(updatedSubscription.current_period_end * 1000).toISOString(),
+      p_currency: updatedSubscription.currency
+    });
+
+    if (dbError) {
+      console.error('❌ Failed to update database after plan change:', dbError);
+      throw new Error(`Plan changed in Stripe but database update failed: ${dbError.message}`);
+    }
+
+    console.log('✅ Database updated with new plan:', result);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        planType,
+        subscriptionId: updatedSubscription.id,
+        periodStart: result?.period_start,
+        periodEnd: result?.period_end
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error changing plan:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
+
+async function releaseScheduledChange(stripe: Stripe, supabaseClient: any, currentSub: any): Promise<void> {
+  if (currentSub.stripe_schedule_id) {
+    await stripe.subscriptionSchedules.release(currentSub.stripe_schedule_id);
+  }
+
+  const { error } = await supabaseClient
+    .from('subscriptions')
+    .update({
+      scheduled_plan_type: null,
+      scheduled_change_at: null,
+      stripe_schedule_id: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', currentSub.id);
+
+  if (error) {
+    console.error('❌ Error clearing scheduled plan change:', error);
+    throw new Error('Failed to clear scheduled plan change');
+  }
+}
+
+// The client echoes back the date it was quoted. Only recent quotes are honoured, so a plan
+// change can't be backdated or future-dated to shrink the proration charge.
+function getProrationDate(quotedDate?: number): number {
+  const now = Math.floor(Date.now() / 1000);
+
+  if (quotedDate === undefined || quotedDate === null) {
+    return now;
+  }
+
+  if (
+    !Number.isInteger(quotedDate) ||
+    quotedDate > now + PRORATION_CLOCK_SKEW_SECONDS ||
+    quotedDate < now - PRORATION_QUOTE_TTL_SECONDS
+  ) {
+    throw new Error('This price quote has expired. Please review the plan change again.');
+  }
+
+  return quotedDate;
+}
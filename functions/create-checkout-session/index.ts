@@ -1,5 +1,7 @@
 import Stripe from "npm:stripe@18.4.0";
 import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { resolvePromoCode, getStripeDiscount } from "../_shared/promo-codes.ts";
+import { resolvePlanPrice } from "../_shared/plan-prices.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,6 +14,8 @@ interface CheckoutRequest {
   autoRenew: boolean;
   successUrl: string;
   cancelUrl: string;
+  promoCode?: string;
+  currency?: string;
 }
 
 Deno.serve(async (req: Request) => {
@@ -43,21 +47,30 @@ Deno.serve(async (req: Request) => {
       apiVersion: '2023-10-16',
     });
 
-    const { planType, autoRenew, successUrl, cancelUrl }: CheckoutRequest = await req.json();
+    const { planType, autoRenew, successUrl, cancelUrl, promoCode, currency }: CheckoutRequest = await req.json();
 
-    // Define price mapping
-    const priceMap = {
-      monthly: Deno.env.get('STRIPE_MONTHLY_PRICE_ID'),
-      semiannual: Deno.env.get('STRIPE_SEMIANNUAL_PRICE_ID'), 
-      annual: Deno.env.get('STRIPE_ANNUAL_PRICE_ID')
-    };
+    // Look up the Stripe price for the chosen or the restaurant's currency
+    const plan = await resolvePlanPrice(supabaseClient, planType, { userId: user.id, currency });
 
     // Validate that we have a valid price ID
-    const priceId = priceMap[planType];
+    const priceId = plan.stripe_price_id;
     if (!priceId) {
-      throw new Error(`Price ID not configured for plan: ${planType}. Please configure Stripe price IDs in environment variables.`);
+      throw new Error(`Price ID not configured for plan: ${planType} (${plan.currency}). Please set stripe_price_id in plan_prices.`);
     }
 
+    // Validate the promo code before sending the customer to Stripe
+    const discount = promoCode
+      ? await resolvePromoCode(stripe, supabaseClient, promoCode, plan)
+      : null;
+
+    if (discount && !discount.valid) {
+      throw new Error(discount.reason || 'Invalid promo code');
+    }
+
+    const promoMetadata: Record<string, string> = discount
+      ? { promo_code: discount.code!, discount_amount: String(discount.discountAmount || 0) }
+      : {};
+
     // Get or create Stripe customer
     let stripeCustomerId: string;
 
@@ -94,21 +107,26 @@ Deno.serve(async (req: Request) => {
       mode: autoRenew ? 'subscription' : 'payment',
       success_url: successUrl,
       cancel_url: cancelUrl,
+      ...(discount ? { discounts: [await getStripeDiscount(stripe, discount)] } : {}),
       metadata: {
         user_id: user.id,
         plan_type: planType,
         auto_renew: autoRenew.toString(),
+        currency: plan.currency,
+        ...promoMetadata,
       },
       subscription_data: autoRenew ? {
         metadata: {
           user_id: user.id,
           plan_type: planType,
+          ...promoMetadata,
         },
       } : undefined,
       payment_intent_data: !autoRenew ? {
         metadata: {
           user_id: user.id,
           plan_type: planType,
+          ...promoMetadata,
         },
       } : undefined,
       // Custom branding
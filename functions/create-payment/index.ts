@@ -1,5 +1,7 @@
 import Stripe from "npm:stripe@18.4.0";
 import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { resolvePromoCode, getStripeDiscount } from "../_shared/promo-codes.ts";
+import { resolvePlanPrice } from "../_shared/plan-prices.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,6 +13,8 @@ interface PaymentRequest {
   planType: 'monthly' | 'semiannual' | 'annual';
   autoRenew: boolean;
   paymentMethodId: string;
+  promoCode?: string;
+  currency?: string;
 }
 
 Deno.serve(async (req: Request) => {
@@ -42,27 +46,32 @@ Deno.serve(async (req: Request) => {
       apiVersion: '2023-10-16',
     });
 
-    const { planType, autoRenew, paymentMethodId }: PaymentRequest = await req.json();
+    const { planType, autoRenew, paymentMethodId, promoCode, currency }: PaymentRequest = await req.json();
 
     console.log('💳 Creating payment:', {
       userId: user.id,
       planType,
       autoRenew,
+      promoCode,
+      currency,
       paymentMethodId: paymentMethodId.substring(0, 10) + '...'
     });
 
-    // Define price mapping and amounts
-    const priceMap = {
-      monthly: Deno.env.get('STRIPE_MONTHLY_PRICE_ID'),
-      semiannual: Deno.env.get('STRIPE_SEMIANNUAL_PRICE_ID'), 
-      annual: Deno.env.get('STRIPE_ANNUAL_PRICE_ID')
-    };
+    // Look up price and amount for the chosen or the restaurant's currency
+    const plan = await resolvePlanPrice(supabaseClient, planType, { userId: user.id, currency });
 
-    const amounts = {
-      monthly: 299, // $2.99 in cents
-      semiannual: 999, // $9.99 in cents
-      annual: 1999 // $19.99 in cents
-    };
+    const discount = promoCode
+      ? await resolvePromoCode(stripe, supabaseClient, promoCode, plan)
+      : null;
+
+    if (discount && !discount.valid) {
+      throw new Error(discount.reason || 'Invalid promo code');
+    }
+
+    const discountAmount = discount?.discountAmount || 0;
+    const promoMetadata: Record<string, string> = discount
+      ? { promo_code: discount.code!, discount_amount: String(discountAmount) }
+      : {};
 
     // Get or create Stripe customer
     let stripeCustomerId: string;
@@ -106,9 +115,9 @@ Deno.serve(async (req: Request) => {
       console.log('🔄 Creating recurring subscription...');
       
       // Validate price configuration for subscriptions
-      const priceId = priceMap[planType];
+      const priceId = plan.stripe_price_id;
       if (!priceId) {
-        throw new Error(`Price ID not configured for plan: ${planType}. Please configure Stripe price IDs in environment variables.`);
+        throw new Error(`Price ID not configured for plan: ${planType} (${plan.currency}). Please set stripe_price_id in plan_prices.`);
       }
 
       // Create subscription with proper metadata
@@ -121,14 +130,20 @@ Deno.serve(async (req: Request) => {
           payment_method_types: ['card']
         },
         default_payment_method: paymentMethodId,
+        ...(discount ? { discounts: [await getStripeDiscount(stripe, discount)] } : {}),
         expand: ['latest_invoice.payment_intent'],
         metadata: {
           user_id: user.id,
           plan_type: planType,
-          auto_renew: 'true'
+          auto_renew: 'true',
+          ...promoMetadata
         },
       });
 
+      const invoice = subscription.latest_invoice as Stripe.Invoice;
+      const invoiceDiscount = (invoice.total_discount_amounts || [])
+        .reduce((sum, item) => sum + item.amount, 0);
+
       console.log('📋 Subscription created:', {
         subscriptionId: subscription.id,
         status: subscription.status,
@@ -145,7 +160,10 @@ Deno.serve(async (req: Request) => {
           p_stripe_subscription_id: subscription.id,
           p_stripe_customer_id: stripeCustomerId,
           p_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
-          p_period_end: new Date(subscription.current_period_end * 1000).toISOString()
+          p_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+          p_discount: invoiceDiscount,
+          p_discount_code: invoiceDiscount > 0 ? discount?.code : null,
+          p_currency: plan.currency
         });
 
         if (dbError) {
@@ -157,7 +175,6 @@ Deno.serve(async (req: Request) => {
         console.error('❌ Database update error:', dbError);
       }
 
-      const invoice = subscription.latest_invoice as Stripe.Invoice;
       const paymentIntent = invoice.payment_intent as Stripe.PaymentIntent;
 
       return new Response(
@@ -173,11 +190,16 @@ Deno.serve(async (req: Request) => {
       );
     } else {
       console.log('💰 Creating one-time payment...');
+
+      const amount = plan.amount - discountAmount;
+      if (amount <= 0) {
+        throw new Error('This promo code covers the full price. Please choose auto-renewal to redeem it.');
+      }
       
       // Create one-time payment intent
       const paymentIntent = await stripe.paymentIntents.create({
-        amount: amounts[planType],
-        currency: 'usd',
+        amount,
+        currency: plan.currency.toLowerCase(),
         customer: stripeCustomerId,
         payment_method: paymentMethodId,
         confirmation_method: 'manual',
@@ -186,7 +208,8 @@ Deno.serve(async (req: Request) => {
         metadata: {
           user_id: user.id,
           plan_type: planType,
-          auto_renew: 'false'
+          auto_renew: 'false',
+          ...promoMetadata
         },
       });
 
@@ -206,7 +229,10 @@ Deno.serve(async (req: Request) => {
             p_stripe_subscription_id: null,
             p_stripe_customer_id: stripeCustomerId,
             p_period_start: periodStart.toISOString(),
-            p_period_end: periodEnd.toISOString()
+            p_period_end: periodEnd.toISOString(),
+            p_discount: discountAmount,
+            p_discount_code: discount?.code || null,
+            p_currency: plan.currency
           });
 
           if (dbError) {
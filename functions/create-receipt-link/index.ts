@@ -0,0 +1,104 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import {
+  createSignedReceiptUrl,
+  createVerificationUrl,
+  DEFAULT_LINK_TTL_HOURS,
+  isReceiptSigningConfigured,
+  MAX_LINK_TTL_HOURS
+} from "../_shared/receipt/index.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface CreateReceiptLinkRequest {
+  invoiceId?: string;
+  creditNoteId?: string;
+  expiresInHours?: number;
+}
+
+// Creates a shareable download link for one of the owner's invoices or credit notes, so it can be
+// forwarded to someone without an account. Invoices also get their permanent verification URL.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    if (!isReceiptSigningConfigured()) {
+      throw new Error('Receipt links are not configured');
+    }
+
+    const { invoiceId, creditNoteId, expiresInHours }: CreateReceiptLinkRequest = await req.json();
+
+    if (!invoiceId && !creditNoteId) {
+      throw new Error('Invoice ID or credit note ID is required');
+    }
+
+    const ttlHours = expiresInHours ?? DEFAULT_LINK_TTL_HOURS;
+    if (!(ttlHours > 0) || ttlHours > MAX_LINK_TTL_HOURS) {
+      throw new Error(`Links can be valid for at most ${MAX_LINK_TTL_HOURS} hours`);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: document } = await supabaseAdmin
+      .from(creditNoteId ? 'credit_notes' : 'invoices')
+      .select('id, user_id')
+      .eq('id', creditNoteId || invoiceId)
+      .maybeSingle();
+
+    if (!document || document.user_id !== user.id) {
+      throw new Error(creditNoteId ? 'Credit note not found' : 'Invoice not found');
+    }
+
+    const link = await createSignedReceiptUrl(creditNoteId ? 'credit_note' : 'invoice', document.id, ttlHours);
+    const verificationUrl = creditNoteId ? null : await createVerificationUrl(document.id);
+
+    console.log('🔗 Receipt link created:', {
+      documentId: document.id,
+      type: creditNoteId ? 'credit_note' : 'invoice',
+      expiresAt: link.expiresAt
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, url: link.url, expiresAt: link.expiresAt, verificationUrl }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error creating receipt link:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
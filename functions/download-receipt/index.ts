@@ -1,5 +1,18 @@
 import { createClient } from "npm:@supabase/supabase-js@2.53.0";
-import { jsPDF } from "npm:jspdf@2.5.1";
+import JSZip from "npm:jszip@3.10.1";
+import {
+  currencyExponent,
+  generateReceiptPDF,
+  getReceiptLocale,
+  getReceiptTemplate,
+  INVOICE_SELECT,
+  loadReceiptAssets,
+  renderReceipt,
+  toInvoiceData,
+  verifyReceiptLink,
+  withVerification,
+  type InvoiceData
+} from "../_shared/receipt/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,31 +20,8 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'GET, OPTIONS',
 };
 
-interface InvoiceData {
-  id: string;
-  invoice_number: string;
-  status: string;
-  subtotal: number;
-  tax: number;
-  discount: number;
-  total: number;
-  currency: string;
-  invoice_date: string;
-  paid_at: string;
-  period_start: string;
-  period_end: string;
-  payment_method: string;
-  description: string;
-  restaurant_name: string;
-  user_email: string;
-  plan_type: string;
-  line_items: Array<{
-    description: string;
-    quantity: number;
-    unit_price: number;
-    amount: number;
-  }>;
-}
+// PDFs for an export are rendered in memory, so larger ranges have to be split
+const MAX_EXPORT_INVOICES = 500;
 
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
@@ -44,71 +34,92 @@ Deno.serve(async (req: Request) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Extract invoice ID from URL path
     const url = new URL(req.url);
+    if (url.pathname.endsWith('/export')) {
+      return await handleExportRequest(req, url, supabase);
+    }
+
+    // Extract invoice ID from URL path; /credit-notes/<id> renders a credit note instead
     const pathParts = url.pathname.split('/');
-    const invoiceId = pathParts[pathParts.length - 1];
+    const isCreditNote = pathParts[pathParts.length - 2] === 'credit-notes';
+    const documentId = pathParts[pathParts.length - 1];
 
-    if (!invoiceId) {
+    if (!documentId) {
       throw new Error('Invoice ID is required');
     }
 
-    console.log('Generating receipt for invoice:', invoiceId);
-
-    // Fetch invoice with line items and user details
-    const { data: invoice, error: invoiceError } = await supabase
-      .from('invoices')
-      .select(`
-        *,
-        invoice_line_items (*),
-        user:users!invoices_user_id_fkey (email),
-        subscription:subscriptions!invoices_subscription_id_fkey (plan_type)
-      `)
-      .eq('id', invoiceId)
-      .single();
-
-    if (invoiceError || !invoice) {
-      console.error('Invoice fetch error:', invoiceError);
-      throw new Error('Invoice not found');
+    // A signed link can be opened without logging in until it expires (the function is deployed
+    // with JWT verification disabled for this); otherwise the caller must own the document or use
+    // the service role key
+    let ownerId: string | undefined;
+    const signature = url.searchParams.get('signature');
+
+    if (signature) {
+      const isValid = await verifyReceiptLink(
+        isCreditNote ? 'credit_note' : 'invoice',
+        documentId,
+        Number(url.searchParams.get('expires')),
+        signature
+      );
+
+      if (!isValid) {
+        return new Response(JSON.stringify({ error: 'This receipt link is invalid or has expired' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    } else {
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+      const authHeader = req.headers.get('Authorization');
+
+      if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+        const supabaseClient = createClient(
+          Deno.env.get('SUPABASE_URL') ?? '',
+          Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+          {
+            global: {
+              headers: { Authorization: authHeader ?? '' },
+            },
+          }
+        );
+
+        const {
+          data: { user },
+        } = await supabaseClient.auth.getUser();
+
+        if (!user) {
+          return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        ownerId = user.id;
+      }
     }
 
-    console.log('Invoice data retrieved:', {
-      id: invoice.id,
-      number: invoice.invoice_number,
-      total: invoice.total
-    });
+    console.log(isCreditNote ? 'Generating credit note:' : 'Generating receipt for invoice:', documentId);
 
-    // Generate PDF
-    const pdfBuffer = generatePDF({
-      id: invoice.id,
-      invoice_number: invoice.invoice_number || `INV-${invoice.id.slice(0, 8)}`,
-      status: invoice.status,
-      subtotal: parseFloat(invoice.subtotal) || 0,
-      tax: parseFloat(invoice.tax) || 0,
-      discount: parseFloat(invoice.discount) || 0,
-      total: parseFloat(invoice.total) || 0,
-      currency: invoice.currency || 'USD',
-      invoice_date: invoice.invoice_date,
-      paid_at: invoice.paid_at,
-      period_start: invoice.period_start,
-      period_end: invoice.period_end,
-      payment_method: invoice.payment_method || 'Card',
-      description: invoice.description || '',
-      restaurant_name: invoice.restaurant_name || 'Restaurant',
-      user_email: invoice.user?.email || 'customer@email.com',
-      plan_type: invoice.subscription?.plan_type || 'monthly',
-      line_items: invoice.invoice_line_items || []
+    const receipt = await renderReceipt(supabase, {
+      ...(isCreditNote ? { creditNoteId: documentId } : { invoiceId: documentId }),
+      locale: url.searchParams.get('locale'),
+      ownerId
     });
 
-    console.log('PDF generated successfully');
+    console.log('PDF generated successfully:', {
+      invoiceNumber: receipt.invoice.invoice_number,
+      creditNoteNumber: receipt.creditNote?.credit_note_number,
+      locale: receipt.locale
+    });
 
     // Return PDF with proper headers
-    return new Response(pdfBuffer, {
+    return new Response(receipt.pdf, {
       status: 200,
       headers: {
         ...corsHeaders,
         'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename="Receipt-${invoice.invoice_number || invoiceId}.pdf"`,
+        'Content-Language': receipt.locale,
+        'Content-Disposition': `attachment; filename="${receipt.filename}"`,
         'Cache-Control': 'no-cache',
       },
     });
@@ -124,338 +135,153 @@ Deno.serve(async (req: Request) => {
   }
 });
 
-function generatePDF(invoice: InvoiceData): Uint8Array {
-  const doc = new jsPDF({
-    orientation: 'portrait',
-    unit: 'mm',
-    format: 'a4'
-  });
-
-  const pageWidth = doc.internal.pageSize.getWidth();
-  const pageHeight = doc.internal.pageSize.getHeight();
-  const margin = 20;
-  const contentWidth = pageWidth - (2 * margin);
-
-  // Brand Colors
-  const brandGradientStart = [230, 168, 92]; // #E6A85C
-  const brandGradientMid = [232, 90, 155]; // #E85A9B
-  const brandGradientEnd = [217, 70, 239]; // #D946EF
-  const darkGray = [31, 41, 55];
-  const mediumGray = [107, 114, 128];
-  const lightGray = [243, 244, 246];
-
-  let yPos = margin;
-
-  // Header with gradient effect (simulated with multiple rectangles)
-  const headerHeight = 40;
-  const gradientSteps = 50;
-  for (let i = 0; i < gradientSteps; i++) {
-    const ratio = i / gradientSteps;
-    let r, g, b;
-
-    if (ratio < 0.5) {
-      const localRatio = ratio * 2;
-      r = brandGradientStart[0] + (brandGradientMid[0] - brandGradientStart[0]) * localRatio;
-      g = brandGradientStart[1] + (brandGradientMid[1] - brandGradientStart[1]) * localRatio;
-      b = brandGradientStart[2] + (brandGradientMid[2] - brandGradientStart[2]) * localRatio;
-    } else {
-      const localRatio = (ratio - 0.5) * 2;
-      r = brandGradientMid[0] + (brandGradientEnd[0] - brandGradientMid[0]) * localRatio;
-      g = brandGradientMid[1] + (brandGradientEnd[1] - brandGradientMid[1]) * localRatio;
-      b = brandGradientMid[2] + (brandGradientEnd[2] - brandGradientMid[2]) * localRatio;
+async function handleExportRequest(req: Request, url: URL, supabase: any): Promise<Response> {
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      global: {
+        headers: { Authorization: req.headers.get('Authorization')! },
+      },
     }
-
-    doc.setFillColor(Math.round(r), Math.round(g), Math.round(b));
-    doc.rect(
-      0,
-      i * (headerHeight / gradientSteps),
-      pageWidth,
-      headerHeight / gradientSteps + 0.5,
-      'F'
-    );
-  }
-
-  // Company Logo/Name
-  doc.setTextColor(255, 255, 255);
-  doc.setFontSize(28);
-  doc.setFont('helvetica', 'bold');
-  doc.text('LEYLS', margin, yPos + 15);
-
-  doc.setFontSize(10);
-  doc.setFont('helvetica', 'normal');
-  doc.text('Loyalty & Rewards Platform', margin, yPos + 22);
-
-  // Receipt Title
-  doc.setFontSize(32);
-  doc.setFont('helvetica', 'bold');
-  const receiptText = 'RECEIPT';
-  const receiptWidth = doc.getTextWidth(receiptText);
-  doc.text(receiptText, pageWidth - margin - receiptWidth, yPos + 18);
-
-  yPos = headerHeight + margin + 10;
-
-  // Invoice Details Section
-  doc.setTextColor(...darkGray);
-  doc.setFontSize(10);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Invoice Details', margin, yPos);
-
-  yPos += 7;
-  doc.setFont('helvetica', 'normal');
-  doc.setFontSize(9);
-  doc.setTextColor(...mediumGray);
-
-  const invoiceDetails = [
-    ['Invoice Number:', invoice.invoice_number],
-    ['Invoice Date:', formatDate(invoice.invoice_date)],
-    ['Payment Date:', formatDate(invoice.paid_at)],
-    ['Status:', invoice.status.toUpperCase()],
-    ['Payment Method:', invoice.payment_method]
-  ];
-
-  invoiceDetails.forEach(([label, value]) => {
-    doc.setFont('helvetica', 'bold');
-    doc.text(label, margin, yPos);
-    doc.setFont('helvetica', 'normal');
-    doc.text(value, margin + 40, yPos);
-    yPos += 5;
-  });
-
-  yPos += 5;
-
-  // Customer Information
-  doc.setFillColor(...lightGray);
-  doc.roundedRect(margin, yPos, contentWidth, 25, 3, 3, 'F');
-
-  yPos += 7;
-  doc.setTextColor(...darkGray);
-  doc.setFontSize(10);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Bill To', margin + 5, yPos);
-
-  yPos += 6;
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(...mediumGray);
-  doc.text(invoice.restaurant_name, margin + 5, yPos);
-
-  yPos += 5;
-  doc.text(invoice.user_email, margin + 5, yPos);
-
-  yPos += 15;
-
-  // Billing Period
-  doc.setTextColor(...darkGray);
-  doc.setFontSize(10);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Billing Period', margin, yPos);
-
-  yPos += 6;
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(...mediumGray);
-  doc.text(
-    `${formatDate(invoice.period_start)} - ${formatDate(invoice.period_end)}`,
-    margin,
-    yPos
   );
 
-  yPos += 10;
-
-  // Line Items Table
-  doc.setTextColor(...darkGray);
-  doc.setFontSize(10);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Items', margin, yPos);
-
-  yPos += 7;
+  const {
+    data: { user },
+  } = await supabaseClient.auth.getUser();
 
-  // Table Header
-  doc.setFillColor(...darkGray);
-  doc.rect(margin, yPos, contentWidth, 8, 'F');
-
-  doc.setTextColor(255, 255, 255);
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Description', margin + 3, yPos + 5);
-  doc.text('Qty', pageWidth - margin - 50, yPos + 5);
-  doc.text('Unit Price', pageWidth - margin - 35, yPos + 5);
-  doc.text('Amount', pageWidth - margin - 15, yPos + 5, { align: 'right' });
-
-  yPos += 8;
-
-  // Table Rows
-  doc.setTextColor(...darkGray);
-  doc.setFont('helvetica', 'normal');
-
-  if (invoice.line_items && invoice.line_items.length > 0) {
-    invoice.line_items.forEach((item, index) => {
-      if (index % 2 === 0) {
-        doc.setFillColor(...lightGray);
-        doc.rect(margin, yPos, contentWidth, 8, 'F');
-      }
-
-      doc.text(item.description, margin + 3, yPos + 5);
-      doc.text(item.quantity.toString(), pageWidth - margin - 50, yPos + 5);
-      doc.text(formatCurrency(item.unit_price, invoice.currency), pageWidth - margin - 35, yPos + 5);
-      doc.text(
-        formatCurrency(item.amount, invoice.currency),
-        pageWidth - margin - 3,
-        yPos + 5,
-        { align: 'right' }
-      );
+  if (!user) {
+    throw new Error('Unauthorized');
+  }
 
-      yPos += 8;
-    });
-  } else {
-    // Default line item based on plan type
-    const planNames = {
-      monthly: 'Monthly Subscription',
-      semiannual: '6-Month Subscription',
-      annual: 'Annual Subscription',
-      trial: 'Trial Period'
-    };
-
-    doc.text(
-      planNames[invoice.plan_type as keyof typeof planNames] || 'Subscription',
-      margin + 3,
-      yPos + 5
-    );
-    doc.text('1', pageWidth - margin - 50, yPos + 5);
-    doc.text(
-      formatCurrency(invoice.subtotal, invoice.currency),
-      pageWidth - margin - 35,
-      yPos + 5
-    );
-    doc.text(
-      formatCurrency(invoice.subtotal, invoice.currency),
-      pageWidth - margin - 3,
-      yPos + 5,
-      { align: 'right' }
-    );
+  // from and to are inclusive dates (YYYY-MM-DD)
+  const from = url.searchParams.get('from');
+  const to = url.searchParams.get('to');
+  const format = url.searchParams.get('format') || 'csv';
 
-    yPos += 8;
+  if (!from || !to) {
+    throw new Error('from and to dates are required');
   }
 
-  yPos += 5;
+  if (format !== 'csv' && format !== 'zip') {
+    throw new Error('format must be csv or zip');
+  }
 
-  // Totals Section
-  const totalsX = pageWidth - margin - 60;
+  const fromDate = new Date(from);
+  const toDate = new Date(to);
 
-  doc.setDrawColor(...mediumGray);
-  doc.line(totalsX, yPos, pageWidth - margin, yPos);
+  if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+    throw new Error('Invalid date range');
+  }
 
-  yPos += 7;
+  toDate.setUTCDate(toDate.getUTCDate() + 1);
 
-  // Subtotal
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(...mediumGray);
-  doc.text('Subtotal:', totalsX, yPos);
-  doc.text(
-    formatCurrency(invoice.subtotal, invoice.currency),
-    pageWidth - margin - 3,
-    yPos,
-    { align: 'right' }
-  );
+  console.log('Exporting invoices:', { userId: user.id, from, to, format });
 
-  yPos += 6;
+  const { data: invoices, error: invoicesError } = await supabase
+    .from('invoices')
+    .select(INVOICE_SELECT)
+    .eq('user_id', user.id)
+    .gte('invoice_date', fromDate.toISOString())
+    .lt('invoice_date', toDate.toISOString())
+    .order('invoice_date', { ascending: true })
+    .limit(MAX_EXPORT_INVOICES + 1);
 
-  // Tax
-  if (invoice.tax > 0) {
-    doc.text('Tax:', totalsX, yPos);
-    doc.text(
-      formatCurrency(invoice.tax, invoice.currency),
-      pageWidth - margin - 3,
-      yPos,
-      { align: 'right' }
-    );
-    yPos += 6;
+  if (invoicesError) {
+    console.error('Invoice export fetch error:', invoicesError);
+    throw new Error('Failed to load invoices');
   }
 
-  // Discount
-  if (invoice.discount > 0) {
-    doc.text('Discount:', totalsX, yPos);
-    doc.text(
-      `-${formatCurrency(invoice.discount, invoice.currency)}`,
-      pageWidth - margin - 3,
-      yPos,
-      { align: 'right' }
-    );
-    yPos += 6;
+  if (invoices.length > MAX_EXPORT_INVOICES) {
+    throw new Error(`More than ${MAX_EXPORT_INVOICES} invoices in this range. Please export a shorter period.`);
   }
 
-  // Total - Highlighted
-  doc.setDrawColor(...brandGradientMid);
-  doc.setLineWidth(0.5);
-  doc.line(totalsX, yPos, pageWidth - margin, yPos);
-
-  yPos += 7;
-
-  doc.setFontSize(12);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(...darkGray);
-  doc.text('Total:', totalsX, yPos);
+  const invoiceData: InvoiceData[] = invoices.map(toInvoiceData);
+  const csv = generateCSV(invoiceData);
+  const filename = `Invoices-${from}-to-${to}`;
 
-  doc.setTextColor(...brandGradientMid);
-  doc.text(
-    formatCurrency(invoice.total, invoice.currency),
-    pageWidth - margin - 3,
-    yPos,
-    { align: 'right' }
-  );
-
-  // Footer
-  const footerY = pageHeight - 30;
+  if (format === 'csv') {
+    console.log('CSV export generated:', invoiceData.length, 'invoices');
 
-  doc.setDrawColor(...lightGray);
-  doc.line(margin, footerY, pageWidth - margin, footerY);
+    return new Response(csv, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`,
+        'Cache-Control': 'no-cache',
+      },
+    });
+  }
 
-  doc.setFontSize(8);
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(...mediumGray);
+  const locale = await getReceiptLocale(supabase, url.searchParams.get('locale'), invoices[0]?.restaurant_id);
+  const template = getReceiptTemplate();
+  const assets = await loadReceiptAssets(locale, template);
 
-  const footerText = 'Thank you for your business!';
-  const footerWidth = doc.getTextWidth(footerText);
-  doc.text(footerText, (pageWidth - footerWidth) / 2, footerY + 7);
+  const zip = new JSZip();
+  zip.file(`${filename}.csv`, csv);
+  const receipts = await Promise.all(invoiceData.map(withVerification));
+  receipts.forEach(invoice => {
+    zip.file(`Receipt-${invoice.invoice_number}.pdf`, generateReceiptPDF(invoice, locale, template, assets));
+  });
 
-  doc.setFontSize(7);
-  doc.text(
-    'This is a computer-generated receipt and does not require a signature.',
-    (pageWidth - doc.getTextWidth('This is a computer-generated receipt and does not require a signature.')) / 2,
-    footerY + 12
-  );
+  const archive = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
 
-  doc.text(
-    'For support, contact: support@leyls.com',
-    (pageWidth - doc.getTextWidth('For support, contact: support@leyls.com')) / 2,
-    footerY + 17
-  );
+  console.log('ZIP export generated:', invoiceData.length, 'invoices');
 
-  // Generate PDF as Uint8Array
-  const pdfOutput = doc.output('arraybuffer');
-  return new Uint8Array(pdfOutput);
+  return new Response(archive, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/zip',
+      'Content-Language': locale,
+      'Content-Disposition': `attachment; filename="${filename}.zip"`,
+      'Cache-Control': 'no-cache',
+    },
+  });
 }
 
-function formatDate(dateString: string): string {
-  if (!dateString) return 'N/A';
+// Amounts are written in major units with a dot decimal separator for spreadsheet imports
+function generateCSV(invoices: InvoiceData[]): string {
+  const header = [
+    'invoice_number',
+    'invoice_date',
+    'paid_at',
+    'period_start',
+    'period_end',
+    'subtotal',
+    'tax',
+    'discount',
+    'total',
+    'currency'
+  ];
 
-  try {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric'
-    });
-  } catch {
-    return 'N/A';
-  }
+  const day = (value: string | null) => value ? new Date(value).toISOString().slice(0, 10) : '';
+
+  const rows = invoices.map(invoice => {
+    // Amounts are stored in the currency's minor unit
+    const exponent = currencyExponent(invoice.currency);
+    const amount = (value: number) => (value / 10 ** exponent).toFixed(exponent);
+
+    return [
+      invoice.invoice_number,
+      day(invoice.invoice_date),
+      day(invoice.paid_at),
+      day(invoice.period_start),
+      day(invoice.period_end),
+      amount(invoice.subtotal),
+      amount(invoice.tax),
+      amount(invoice.discount),
+      amount(invoice.total),
+      invoice.currency
+    ];
+  });
+
+  return [header, ...rows]
+    .map(row => row.map(csvField).join(','))
+    .join('\r\n') + '\r\n';
 }
 
-function formatCurrency(amount: number, currency: string = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency.toUpperCase(),
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2
-  }).format(amount / 100); // Amount is in cents
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
 }
@@ -0,0 +1,97 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { subscriptionActorHeaders } from "../_shared/subscription-actor.ts";
+import { requireSupportAgent } from "../_shared/support.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface ExtendTrialRequest {
+  userId: string;
+  days: number;
+  reason?: string;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get the user
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    // Use service role client for admin operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { global: { headers: subscriptionActorHeaders('support', user.id) } }
+    );
+
+    await requireSupportAgent(supabaseAdmin, user, 'extend trials');
+
+    const { userId, days, reason }: ExtendTrialRequest = await req.json();
+
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    if (!Number.isInteger(days)) {
+      throw new Error('Days must be a whole number');
+    }
+
+    const { data: trial, error: extendError } = await supabaseAdmin.rpc('extend_trial', {
+      p_user_id: userId,
+      p_days: days,
+      p_actor_id: user.id,
+      p_reason: reason?.trim() || null
+    });
+
+    if (extendError) {
+      console.error('❌ Error extending trial:', extendError);
+      throw new Error(extendError.message);
+    }
+
+    console.log('⏳ Trial extended:', {
+      userId,
+      days,
+      endsAt: trial.ends_at,
+      extendedBy: user.id
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, trial }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error extending trial:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,99 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+interface LimitUsage {
+  used: number;
+  limit: number;
+  exceeded: boolean;
+}
+
+interface RestaurantUsage {
+  restaurant_id: string;
+  plan_type: string;
+  usage: {
+    customers: LimitUsage;
+    branches: LimitUsage;
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get the user
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { data: restaurant, error: restaurantError } = await supabaseClient
+      .from('restaurants')
+      .select('id')
+      .eq('owner_id', user.id)
+      .limit(1)
+      .maybeSingle();
+
+    if (restaurantError || !restaurant) {
+      throw new Error('Restaurant not found');
+    }
+
+    const { data: usage, error: usageError } = await supabaseClient.rpc('get_restaurant_usage', {
+      p_restaurant_id: restaurant.id
+    });
+
+    if (usageError) {
+      console.error('❌ Error loading plan usage:', usageError);
+      throw new Error(`Failed to load plan usage: ${usageError.message}`);
+    }
+
+    const result = usage as RestaurantUsage;
+
+    console.log('📊 Plan usage loaded:', {
+      userId: user.id,
+      restaurantId: restaurant.id,
+      planType: result.plan_type,
+      customers: `${result.usage.customers.used}/${result.usage.customers.limit}`,
+      branches: `${result.usage.branches.used}/${result.usage.branches.limit}`
+    });
+
+    return new Response(
+      JSON.stringify({
+        planType: result.plan_type,
+        usage: result.usage
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error fetching plan usage:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
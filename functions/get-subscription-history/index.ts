@@ -0,0 +1,92 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { requireSupportAgent } from "../_shared/support.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface SubscriptionHistoryRequest {
+  userId: string;
+  limit?: number;
+}
+
+const MAX_EVENTS = 200;
+
+// Subscription timeline of any owner, for support staff. Owners read their own history directly.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get the user
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    // Use service role client for admin operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    await requireSupportAgent(supabaseAdmin, user, 'view subscription history');
+
+    const { userId, limit }: SubscriptionHistoryRequest = await req.json();
+
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const { data: events, error: eventsError } = await supabaseAdmin
+      .from('subscription_events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(Math.min(Math.max(Number(limit) || 50, 1), MAX_EVENTS));
+
+    if (eventsError) {
+      console.error('❌ Error loading subscription history:', eventsError);
+      throw new Error('Failed to load subscription history');
+    }
+
+    console.log('📜 Subscription history viewed:', {
+      userId,
+      events: events.length,
+      viewedBy: user.id
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, events }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error loading subscription history:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,85 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { requireSupportAgent } from "../_shared/support.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Platform-wide subscription statistics for support staff. The underlying database functions
+// cover every restaurant, so they are only executable by the service role.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get the user
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    // Use service role client for admin operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    await requireSupportAgent(supabaseAdmin, user, 'view subscription statistics');
+
+    const { data: revenue, error: revenueError } = await supabaseAdmin.rpc('get_reporting_revenue');
+
+    if (revenueError) {
+      console.error('❌ Error loading reporting revenue:', revenueError);
+      throw new Error('Failed to load reporting revenue');
+    }
+
+    const { data: trialConversion, error: trialsError } = await supabaseAdmin.rpc('get_trial_conversion_stats');
+
+    if (trialsError) {
+      console.error('❌ Error loading trial conversion stats:', trialsError);
+      throw new Error('Failed to load trial conversion stats');
+    }
+
+    const { data: churnReasons, error: churnError } = await supabaseAdmin.rpc('get_churn_reason_stats');
+
+    if (churnError) {
+      console.error('❌ Error loading churn reason stats:', churnError);
+      throw new Error('Failed to load churn reason stats');
+    }
+
+    console.log('📊 Subscription statistics viewed:', { viewedBy: user.id });
+
+    return new Response(
+      JSON.stringify({ success: true, revenue, trialConversion, churnReasons }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error loading subscription statistics:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,145 @@
+import Stripe from "npm:stripe@18.4.0";
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { findInvoicePaymentIntent, recordCreditNote } from "../_shared/refunds.ts";
+import { requireSupportAgent } from "../_shared/support.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface IssueRefundRequest {
+  invoiceId: string;
+  amount?: number;
+  reason?: string;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get the user
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    // Use service role client for admin operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    await requireSupportAgent(supabaseAdmin, user, 'issue refunds');
+
+    const { invoiceId, amount, reason }: IssueRefundRequest = await req.json();
+
+    if (!invoiceId) {
+      throw new Error('Invoice ID is required');
+    }
+
+    const { data: invoice, error: invoiceError } = await supabaseAdmin
+      .from('invoices')
+      .select('*, subscription:subscriptions(stripe_subscription_id)')
+      .eq('id', invoiceId)
+      .maybeSingle();
+
+    if (invoiceError || !invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    const { data: openCreditNotes } = await supabaseAdmin
+      .from('credit_notes')
+      .select('amount')
+      .eq('invoice_id', invoiceId)
+      .in('status', ['pending', 'issued']);
+
+    const refundable = Number(invoice.total) -
+      (openCreditNotes || []).reduce((sum: number, note: any) => sum + Number(note.amount), 0);
+    const refundAmount = amount ?? refundable;
+
+    if (!Number.isInteger(refundAmount) || refundAmount <= 0) {
+      throw new Error('Refund amount must be a positive number of cents');
+    }
+
+    if (refundAmount > refundable) {
+      throw new Error(`Refund amount exceeds the refundable balance of ${refundable} ${invoice.currency}`);
+    }
+
+    const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+      apiVersion: '2023-10-16',
+    });
+
+    const paymentIntentId = await findInvoicePaymentIntent(
+      stripe,
+      invoice,
+      invoice.subscription?.stripe_subscription_id || null
+    );
+
+    if (!paymentIntentId) {
+      throw new Error(`No Stripe payment found for invoice ${invoice.invoice_number}`);
+    }
+
+    console.log('💸 Issuing refund:', {
+      invoiceId,
+      invoiceNumber: invoice.invoice_number,
+      paymentIntentId,
+      amount: refundAmount,
+      currency: invoice.currency,
+      issuedBy: user.id
+    });
+
+    // The webhook finds the invoice through this metadata when charge.refunded arrives
+    const refund = await stripe.refunds.create({
+      payment_intent: paymentIntentId,
+      amount: refundAmount,
+      reason: 'requested_by_customer',
+      metadata: {
+        invoice_id: invoiceId,
+        issued_by: user.id,
+        ...(reason ? { reason } : {})
+      }
+    });
+
+    const creditNote = await recordCreditNote(supabaseAdmin, invoiceId, refund, user.id);
+
+    console.log('✅ Refund issued with credit note:', {
+      refundId: refund.id,
+      refundStatus: refund.status,
+      creditNoteNumber: creditNote.credit_note_number
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, refundId: refund.id, creditNote }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error issuing refund:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
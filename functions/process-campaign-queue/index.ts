@@ -0,0 +1,199 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { sendMessage, type SendResult } from "../_shared/messaging.ts";
+import { loadProviderConfig } from "../_shared/campaigns.ts";
+import { loadPushSubscriptions, recordPushDelivery, type PushSendResult } from "../_shared/push.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface CampaignSendJob {
+  id: string;
+  campaign_id: string;
+  customer_id: string;
+  execution_id: string | null;
+  channel: string;
+  recipient: string | null;
+  message_body: string | null;
+  message_subject: string | null;
+  attempts: number;
+}
+
+interface QueueResults {
+  claimed: number;
+  delivered: number;
+  retried: number;
+  failed: number;
+}
+
+const BATCH_SIZE = Number(Deno.env.get('CAMPAIGN_QUEUE_BATCH_SIZE')) || 50;
+const LEASE_SECONDS = Number(Deno.env.get('CAMPAIGN_QUEUE_LEASE_SECONDS')) || 300;
+// Stop claiming well before the function's wall-clock limit so leased jobs are not abandoned
+const TIME_BUDGET_MS = Number(Deno.env.get('CAMPAIGN_QUEUE_TIME_BUDGET_MS')) || 50_000;
+
+// Delivers queued campaign sends within each provider's per-minute limit. Only callable with the
+// service role key; meant to be invoked every minute. Jobs leased by a worker that crashed are
+// picked up again once their lease expires.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    );
+
+    const workerId = crypto.randomUUID();
+    const startedAt = Date.now();
+    const results: QueueResults = { claimed: 0, delivered: 0, retried: 0, failed: 0 };
+
+    // Provider config per campaign and channel, loaded once per run
+    const providerConfigs = new Map<string, any>();
+
+    const getProviderConfig = async (job: CampaignSendJob) => {
+      const cacheKey = `${job.campaign_id}:${job.channel}`;
+
+      if (!providerConfigs.has(cacheKey)) {
+        const { data: campaign } = await supabase
+          .from('campaigns')
+          .select('restaurant_id')
+          .eq('id', job.campaign_id)
+          .maybeSingle();
+
+        const config = campaign
+          ? await loadProviderConfig(supabase, campaign.restaurant_id, job.channel)
+          : null;
+
+        providerConfigs.set(cacheKey, config);
+      }
+
+      return providerConfigs.get(cacheKey);
+    };
+
+    console.log('📬 Processing campaign queue:', { workerId });
+
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data: claimed, error: claimError } = await supabase.rpc('claim_campaign_sends', {
+        p_worker: workerId,
+        p_limit: BATCH_SIZE,
+        p_lease_seconds: LEASE_SECONDS
+      });
+
+      if (claimError) {
+        throw new Error(`Failed to claim campaign sends: ${claimError.message}`);
+      }
+
+      const jobs: CampaignSendJob[] = claimed || [];
+
+      // Nothing due, or every provider has used its budget for this minute
+      if (jobs.length === 0) {
+        break;
+      }
+
+      results.claimed += jobs.length;
+
+      for (const job of jobs) {
+        let outcome: SendResult;
+
+        try {
+          const providerConfig = await getProviderConfig(job);
+
+          if (!providerConfig) {
+            outcome = { success: false, error: `No provider configured for ${job.channel}`, retryable: false };
+          } else if (!job.recipient || !job.message_body) {
+            outcome = { success: false, error: 'Send has no recipient or message', retryable: false };
+          } else if (job.channel === 'push') {
+            const pushSubscriptions = await loadPushSubscriptions(supabase, job.customer_id);
+
+            outcome = await sendMessage(
+              job.channel,
+              providerConfig,
+              { id: job.customer_id, push_subscriptions: pushSubscriptions },
+              job.message_body,
+              job.message_subject ?? undefined
+            );
+
+            await recordPushDelivery(supabase, outcome as Partial<PushSendResult>);
+          } else {
+            outcome = await sendMessage(
+              job.channel,
+              providerConfig,
+              { phone: job.recipient, email: job.recipient },
+              job.message_body,
+              job.message_subject ?? undefined
+            );
+          }
+        } catch (error) {
+          outcome = { success: false, error: error.message, retryable: true };
+        }
+
+        const { data: completion, error: completeError } = await supabase.rpc('complete_campaign_send', {
+          p_send_id: job.id,
+          p_worker: workerId,
+          p_success: outcome.success,
+          p_error: outcome.error ?? null,
+          p_retryable: outcome.retryable ?? false,
+          p_message_id: outcome.messageId ?? null
+        });
+
+        // The lease runs out and the job is claimed again, so it is not lost
+        if (completeError) {
+          console.error('❌ Failed to record campaign send:', job.id, completeError);
+          continue;
+        }
+
+        if (!completion?.recorded) {
+          console.warn('⚠️ Lease lost before send was recorded:', job.id);
+          continue;
+        }
+
+        if (completion.status === 'delivered') {
+          results.delivered++;
+        } else if (completion.status === 'queued') {
+          console.log('🔁 Campaign send will be retried:', {
+            sendId: job.id,
+            attempt: job.attempts,
+            error: outcome.error
+          });
+          results.retried++;
+        } else {
+          console.error('❌ Campaign send failed:', { sendId: job.id, error: outcome.error });
+          results.failed++;
+        }
+      }
+    }
+
+    console.log('✅ Campaign queue run complete:', results);
+
+    return new Response(
+      JSON.stringify({ success: true, results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error processing campaign queue:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,262 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { getPlatformEmailConfig, sendEmail } from "../_shared/messaging.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface DunningStep {
+  step_key: string;
+  day: number;
+  action: 'reminder' | 'restrict';
+  email_subject: string | null;
+  email_body: string | null;
+}
+
+interface DunningResults {
+  subscriptions: number;
+  remindersSent: number;
+  restricted: number;
+  skipped: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A step still processing after this long was abandoned by a crashed run and may be claimed again
+const STEP_TIMEOUT_SECONDS = Number(Deno.env.get('DUNNING_STEP_TIMEOUT_SECONDS')) || 1800;
+// Failed or abandoned steps are retried on later runs until they have been tried this many times
+const MAX_STEP_ATTEMPTS = Number(Deno.env.get('DUNNING_MAX_STEP_ATTEMPTS')) || 3;
+
+// Runs due dunning steps for every past-due subscription. Only callable with the service role key;
+// meant to be invoked on a schedule.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    );
+
+    const { data: steps, error: stepsError } = await supabase
+      .from('dunning_steps')
+      .select('step_key, day, action, email_subject, email_body')
+      .eq('active', true)
+      .order('day', { ascending: true });
+
+    if (stepsError) {
+      throw new Error(`Failed to load dunning schedule: ${stepsError.message}`);
+    }
+
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from('subscriptions')
+      .select('id, user_id, plan_type, past_due_since, access_restricted_at')
+      .eq('status', 'past_due')
+      .not('past_due_since', 'is', null);
+
+    if (subscriptionsError) {
+      throw new Error(`Failed to load past-due subscriptions: ${subscriptionsError.message}`);
+    }
+
+    const gracePeriodDays = steps.find((step: DunningStep) => step.action === 'restrict')?.day ?? null;
+    const results: DunningResults = {
+      subscriptions: subscriptions.length,
+      remindersSent: 0,
+      restricted: 0,
+      skipped: 0,
+      failed: 0
+    };
+
+    console.log('⏰ Processing dunning:', {
+      pastDueSubscriptions: subscriptions.length,
+      steps: steps.map((step: DunningStep) => `${step.step_key}@${step.day}`),
+      gracePeriodDays
+    });
+
+    for (const subscription of subscriptions) {
+      try {
+        await processSubscription(supabase, subscription, steps, gracePeriodDays, results);
+      } catch (error) {
+        console.error('❌ Dunning failed for subscription:', subscription.id, error);
+        results.failed++;
+      }
+    }
+
+    console.log('✅ Dunning run complete:', results);
+
+    return new Response(
+      JSON.stringify({ success: true, results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error processing dunning:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
+
+async function processSubscription(
+  supabase: any,
+  subscription: any,
+  steps: DunningStep[],
+  gracePeriodDays: number | null,
+  results: DunningResults
+): Promise<void> {
+  const pastDueSince = new Date(subscription.past_due_since);
+  const daysPastDue = Math.floor((Date.now() - pastDueSince.getTime()) / DAY_MS);
+  const dueSteps = steps.filter(step => step.day <= daysPastDue);
+
+  if (dueSteps.length === 0) return;
+
+  const { data: events } = await supabase
+    .from('dunning_events')
+    .select('step_key, status, attempts')
+    .eq('subscription_id', subscription.id)
+    .eq('past_due_since', subscription.past_due_since);
+
+  // Failed and in-flight steps stay pending; claim_dunning_step decides whether they may run again
+  const doneSteps = new Set(
+    (events || [])
+      .filter((event: any) =>
+        !['failed', 'processing'].includes(event.status) || event.attempts >= MAX_STEP_ATTEMPTS
+      )
+      .map((event: any) => event.step_key)
+  );
+  const pendingSteps = dueSteps.filter(step => !doneSteps.has(step.step_key));
+
+  if (pendingSteps.length === 0) return;
+
+  // After a missed run only the latest reminder is sent, so owners never get several at once
+  const latestReminder = [...pendingSteps].reverse().find(step => step.action === 'reminder');
+
+  for (const step of pendingSteps) {
+    // Claim the step first; the unique key keeps overlapping runs from repeating it
+    const { data: eventId, error: claimError } = await supabase.rpc('claim_dunning_step', {
+      p_subscription_id: subscription.id,
+      p_user_id: subscription.user_id,
+      p_past_due_since: subscription.past_due_since,
+      p_step_key: step.step_key,
+      p_stale_seconds: STEP_TIMEOUT_SECONDS,
+      p_max_attempts: MAX_STEP_ATTEMPTS
+    });
+
+    if (claimError) {
+      throw new Error(`Failed to claim dunning step ${step.step_key}: ${claimError.message}`);
+    }
+
+    if (!eventId) continue;
+
+    let status: 'sent' | 'applied' | 'skipped' | 'failed';
+    let errorMessage: string | null = null;
+
+    if (step.action === 'restrict') {
+      const { error } = await supabase
+        .from('subscriptions')
+        .update({ access_restricted_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', subscription.id)
+        .eq('status', 'past_due');
+
+      status = error ? 'failed' : 'applied';
+      errorMessage = error?.message || null;
+
+      if (!error) {
+        results.restricted++;
+        console.log('🔒 Access restricted after grace period:', {
+          subscriptionId: subscription.id,
+          daysPastDue
+        });
+      }
+    } else if (step !== latestReminder) {
+      status = 'skipped';
+      results.skipped++;
+    } else {
+      const gracePeriodEnd = gracePeriodDays !== null
+        ? new Date(pastDueSince.getTime() + gracePeriodDays * DAY_MS)
+        : null;
+      const sendResult = await sendReminder(supabase, subscription, step, gracePeriodEnd);
+
+      status = sendResult.success ? 'sent' : 'failed';
+      errorMessage = sendResult.error || null;
+
+      if (sendResult.success) {
+        results.remindersSent++;
+        console.log('📧 Dunning reminder sent:', {
+          subscriptionId: subscription.id,
+          step: step.step_key
+        });
+      }
+    }
+
+    if (status === 'failed') {
+      results.failed++;
+    }
+
+    await supabase
+      .from('dunning_events')
+      .update({ status, error_message: errorMessage, updated_at: new Date().toISOString() })
+      .eq('id', eventId);
+  }
+}
+
+async function sendReminder(
+  supabase: any,
+  subscription: any,
+  step: DunningStep,
+  gracePeriodEnd: Date | null
+): Promise<{ success: boolean; error?: string }> {
+  const emailConfig = getPlatformEmailConfig();
+  if (!emailConfig) {
+    return { success: false, error: 'SENDGRID_API_KEY is not configured' };
+  }
+
+  const { data: { user } } = await supabase.auth.admin.getUserById(subscription.user_id);
+  if (!user?.email) {
+    return { success: false, error: 'Owner has no email address' };
+  }
+
+  const { data: restaurant } = await supabase
+    .from('restaurants')
+    .select('name')
+    .eq('owner_id', subscription.user_id)
+    .limit(1)
+    .maybeSingle();
+
+  const variables: Record<string, string> = {
+    restaurant_name: restaurant?.name || user.email,
+    plan_type: subscription.plan_type,
+    grace_period_end: gracePeriodEnd
+      ? gracePeriodEnd.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+      : '',
+    days_left: gracePeriodEnd
+      ? String(Math.max(0, Math.ceil((gracePeriodEnd.getTime() - Date.now()) / DAY_MS)))
+      : '',
+    billing_url: `${Deno.env.get('APP_URL') || 'https://app.leyls.com'}/dashboard/billing`
+  };
+
+  const fill = (template: string) =>
+    template.replace(/\{\{(\w+)\}\}/g, (match, key) => variables[key] ?? match);
+
+  return await sendEmail(emailConfig, user.email, fill(step.email_subject || ''), fill(step.email_body || ''));
+}
@@ -0,0 +1,128 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import {
+  loadCampaign,
+  runCampaign,
+  finishCampaignEnqueue,
+  failCampaignExecution,
+} from "../_shared/campaigns.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface ClaimedRun {
+  campaign_id: string;
+  execution_id: string;
+  scheduled_for: string;
+}
+
+interface SchedulerResults {
+  claimed: number;
+  resumed: number;
+  completed: number;
+  failed: number;
+}
+
+const BATCH_SIZE = Number(Deno.env.get('CAMPAIGN_SCHEDULER_BATCH_SIZE')) || 20;
+// An execution still being queued after this long was interrupted and is queued again
+const ENQUEUE_TIMEOUT_SECONDS = Number(Deno.env.get('CAMPAIGN_ENQUEUE_TIMEOUT_SECONDS')) || 600;
+const MAX_ENQUEUE_ATTEMPTS = Number(Deno.env.get('CAMPAIGN_MAX_ENQUEUE_ATTEMPTS')) || 3;
+
+// Starts scheduled and recurring campaigns that are due, and finishes queueing executions whose
+// earlier attempt crashed or timed out. Only callable with the service role key; meant to be invoked
+// every minute.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    );
+
+    // Claiming opens the execution and moves next_run_at on, so a run is never started twice
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_due_campaign_runs', {
+      p_limit: BATCH_SIZE
+    });
+
+    if (claimError) {
+      throw new Error(`Failed to claim due campaigns: ${claimError.message}`);
+    }
+
+    // Queueing is idempotent per customer, so an interrupted execution is simply run again
+    const { data: stalled, error: stalledError } = await supabase.rpc('claim_stalled_campaign_enqueues', {
+      p_stale_seconds: ENQUEUE_TIMEOUT_SECONDS,
+      p_max_attempts: MAX_ENQUEUE_ATTEMPTS,
+      p_limit: BATCH_SIZE
+    });
+
+    if (stalledError) {
+      throw new Error(`Failed to claim interrupted campaign runs: ${stalledError.message}`);
+    }
+
+    const dueRuns: ClaimedRun[] = claimed || [];
+    const resumedRuns: ClaimedRun[] = stalled || [];
+    const runs = [...dueRuns, ...resumedRuns];
+    const results: SchedulerResults = {
+      claimed: dueRuns.length,
+      resumed: resumedRuns.length,
+      completed: 0,
+      failed: 0
+    };
+
+    console.log('⏰ Processing scheduled campaigns:', { due: dueRuns.length, resumed: resumedRuns.length });
+
+    for (const run of runs) {
+      try {
+        const campaign = await loadCampaign(supabase, run.campaign_id);
+        const runResults = await runCampaign(supabase, campaign, { executionId: run.execution_id });
+        await finishCampaignEnqueue(supabase, run.campaign_id, run.execution_id, runResults);
+
+        console.log('📣 Scheduled campaign queued:', {
+          campaignId: run.campaign_id,
+          executionId: run.execution_id,
+          scheduledFor: run.scheduled_for,
+          ...runResults
+        });
+        results.completed++;
+      } catch (error) {
+        console.error('❌ Scheduled campaign failed:', run.campaign_id, error);
+        await failCampaignExecution(supabase, run.execution_id, error.message);
+        results.failed++;
+      }
+    }
+
+    console.log('✅ Campaign scheduler run complete:', results);
+
+    return new Response(
+      JSON.stringify({ success: true, results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error processing scheduled campaigns:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
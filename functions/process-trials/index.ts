@@ -0,0 +1,252 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { getPlatformEmailConfig, sendEmail, type SendResult } from "../_shared/messaging.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface TrialResults {
+  remindersSent: number;
+  expired: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days before the end of a trial that the owner is told it is ending
+const REMINDER_DAYS = Number(Deno.env.get('TRIAL_REMINDER_DAYS')) || 3;
+
+// Sends trial-ending notices and expires finished trials. Only callable with the service role key;
+// meant to be invoked on a schedule.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    );
+
+    const now = new Date();
+    const results: TrialResults = { remindersSent: 0, expired: 0, failed: 0 };
+
+    const { data: endedTrials, error: endedError } = await supabase
+      .from('trials')
+      .select('id, user_id, ends_at')
+      .in('status', ['started', 'reminder_sent', 'extended'])
+      .lte('ends_at', now.toISOString());
+
+    if (endedError) {
+      throw new Error(`Failed to load ended trials: ${endedError.message}`);
+    }
+
+    const { data: endingTrials, error: endingError } = await supabase
+      .from('trials')
+      .select('id, user_id, ends_at')
+      .in('status', ['started', 'extended'])
+      .gt('ends_at', now.toISOString())
+      .lte('ends_at', new Date(now.getTime() + REMINDER_DAYS * DAY_MS).toISOString());
+
+    if (endingError) {
+      throw new Error(`Failed to load ending trials: ${endingError.message}`);
+    }
+
+    console.log('⏰ Processing trials:', {
+      ended: endedTrials.length,
+      ending: endingTrials.length,
+      reminderDays: REMINDER_DAYS
+    });
+
+    for (const trial of endedTrials) {
+      try {
+        if (await expireTrial(supabase, trial)) {
+          results.expired++;
+        }
+      } catch (error) {
+        console.error('❌ Failed to expire trial:', trial.id, error);
+        results.failed++;
+      }
+    }
+
+    for (const trial of endingTrials) {
+      try {
+        const sent = await sendTrialReminder(supabase, trial);
+        if (sent === true) results.remindersSent++;
+        if (sent === false) results.failed++;
+      } catch (error) {
+        console.error('❌ Failed to send trial reminder:', trial.id, error);
+        results.failed++;
+      }
+    }
+
+    console.log('✅ Trial run complete:', results);
+
+    return new Response(
+      JSON.stringify({ success: true, results }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error processing trials:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
+
+// Returns null when another run already moved the trial on
+async function sendTrialReminder(supabase: any, trial: any): Promise<boolean | null> {
+  const endsAt = new Date(trial.ends_at);
+  const daysLeft = Math.max(1, Math.ceil((endsAt.getTime() - Date.now()) / DAY_MS));
+
+  // Claim the transition first so overlapping runs never send the notice twice
+  const transition = await transitionTrial(supabase, trial.user_id, 'reminder_sent', { days_left: daysLeft });
+  if (!transition) return null;
+
+  const endsOn = endsAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const sendResult = await sendTrialEmail(
+    supabase,
+    trial.user_id,
+    `Your LEYLS trial ends in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`,
+    (name, billingUrl) => [
+      `Hi ${name},`,
+      '',
+      `Your free trial ends on ${endsOn}. Choose a plan before then to keep your loyalty program running without interruption.`,
+      '',
+      `Choose your plan: ${billingUrl}`
+    ].join('\n')
+  );
+
+  await recordEmailOutcome(supabase, transition, sendResult);
+
+  if (sendResult.success) {
+    console.log('📧 Trial reminder sent:', { userId: trial.user_id, daysLeft });
+  }
+
+  return sendResult.success;
+}
+
+// Returns false when another run already moved the trial on
+async function expireTrial(supabase: any, trial: any): Promise<boolean> {
+  const transition = await transitionTrial(supabase, trial.user_id, 'expired', { ends_at: trial.ends_at });
+  if (!transition) return false;
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({ status: 'expired', updated_at: new Date().toISOString() })
+    .eq('user_id', trial.user_id)
+    .eq('plan_type', 'trial')
+    .eq('status', 'active');
+
+  if (error) {
+    console.error('⚠️ Failed to expire trial subscription:', error);
+  }
+
+  const sendResult = await sendTrialEmail(
+    supabase,
+    trial.user_id,
+    'Your LEYLS trial has ended',
+    (name, billingUrl) => [
+      `Hi ${name},`,
+      '',
+      'Your free trial has ended and your account is now limited to trial features.',
+      'Your customers and their points are kept, so you can pick up where you left off.',
+      '',
+      `Choose a plan to restore full access: ${billingUrl}`
+    ].join('\n')
+  );
+
+  await recordEmailOutcome(supabase, transition, sendResult);
+
+  console.log('⌛ Trial expired:', { userId: trial.user_id, emailed: sendResult.success });
+  return true;
+}
+
+async function transitionTrial(
+  supabase: any,
+  userId: string,
+  toStatus: 'reminder_sent' | 'expired',
+  details: Record<string, unknown>
+): Promise<{ eventId: string; details: Record<string, unknown> } | null> {
+  const { data, error } = await supabase.rpc('transition_trial', {
+    p_user_id: userId,
+    p_to_status: toStatus,
+    p_details: details
+  });
+
+  if (error) {
+    throw new Error(`Failed to move trial to ${toStatus}: ${error.message}`);
+  }
+
+  if (!data.transitioned) {
+    console.log('ℹ️ Trial already processed:', { userId, reason: data.reason });
+    return null;
+  }
+
+  return { eventId: data.event_id, details };
+}
+
+async function recordEmailOutcome(
+  supabase: any,
+  transition: { eventId: string; details: Record<string, unknown> },
+  sendResult: SendResult
+): Promise<void> {
+  await supabase
+    .from('trial_events')
+    .update({
+      details: {
+        ...transition.details,
+        email: sendResult.success ? 'sent' : 'failed',
+        ...(sendResult.error ? { email_error: sendResult.error } : {})
+      }
+    })
+    .eq('id', transition.eventId);
+}
+
+async function sendTrialEmail(
+  supabase: any,
+  userId: string,
+  subject: string,
+  buildMessage: (name: string, billingUrl: string) => string
+): Promise<SendResult> {
+  const emailConfig = getPlatformEmailConfig();
+  if (!emailConfig) {
+    return { success: false, error: 'SENDGRID_API_KEY is not configured' };
+  }
+
+  const { data: { user } } = await supabase.auth.admin.getUserById(userId);
+  if (!user?.email) {
+    return { success: false, error: 'Owner has no email address' };
+  }
+
+  const { data: restaurant } = await supabase
+    .from('restaurants')
+    .select('name')
+    .eq('owner_id', userId)
+    .limit(1)
+    .maybeSingle();
+
+  const billingUrl = `${Deno.env.get('APP_URL') || 'https://app.leyls.com'}/dashboard/billing`;
+
+  return await sendEmail(emailConfig, user.email, subject, buildMessage(restaurant?.name || user.email, billingUrl));
+}
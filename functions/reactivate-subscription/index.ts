@@ -1,5 +1,6 @@
 import Stripe from "npm:stripe@18.4.0";
 import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { resolvePlanPrice } from "../_shared/plan-prices.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -86,14 +87,13 @@ Deno.serve(async (req: Request) => {
     } else {
       console.log('💰 No Stripe subscription found, creating new subscription for future renewal...');
       
-      // Get price ID for the plan type
-      const priceMap = {
-        monthly: Deno.env.get('STRIPE_MONTHLY_PRICE_ID'),
-        semiannual: Deno.env.get('STRIPE_SEMIANNUAL_PRICE_ID'),
-        annual: Deno.env.get('STRIPE_ANNUAL_PRICE_ID')
-      };
-
-      const priceId = priceMap[currentSub.plan_type as keyof typeof priceMap];
+      // Renew in the currency the subscription was billed in
+      const price = await resolvePlanPrice(supabaseClient, currentSub.plan_type, {
+        userId: user.id,
+        currency: currentSub.currency
+      });
+
+      const priceId = price.stripe_price_id;
       if (!priceId) {
         throw new Error(`Price ID not configured for plan: ${currentSub.plan_type}`);
       }
@@ -0,0 +1,184 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { loadProviderConfig } from "../_shared/campaigns.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface BrowserPushSubscription {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+interface PushSubscriptionRequest {
+  action: 'get_public_key' | 'register' | 'unregister';
+  restaurantId?: string;
+  customerId?: string;
+  subscription?: BrowserPushSubscription;
+  endpoint?: string;
+}
+
+// Registers a customer's browser or wallet app for campaign push notifications.
+//   get_public_key  VAPID public key the device subscribes with (no sign-in needed)
+//   register        stores the device for the signed-in customer
+//   unregister      removes a device by its endpoint
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { action, restaurantId, customerId, subscription, endpoint }: PushSubscriptionRequest = await req.json();
+
+    if (action === 'unregister') {
+      // The endpoint is a secret only the device knows, so holding it is enough to remove it
+      if (!endpoint) {
+        throw new Error('Endpoint is required');
+      }
+
+      await supabaseAdmin
+        .from('customer_push_subscriptions')
+        .delete()
+        .eq('endpoint', endpoint);
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
+    if (!restaurantId) {
+      throw new Error('Restaurant ID is required');
+    }
+
+    const providerConfig = await loadProviderConfig(supabaseAdmin, restaurantId, 'push');
+
+    if (!providerConfig?.config_json?.vapidPublicKey) {
+      throw new Error('Push notifications are not enabled for this restaurant');
+    }
+
+    if (action === 'get_public_key') {
+      return new Response(
+        JSON.stringify({ success: true, vapidPublicKey: providerConfig.config_json.vapidPublicKey }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
+    if (action !== 'register') {
+      throw new Error('Invalid action');
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get the user
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    if (!customerId || !subscription?.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+      throw new Error('Customer ID and a complete push subscription are required');
+    }
+
+    const { data: customer } = await supabaseAdmin
+      .from('customers')
+      .select('id, email, phone')
+      .eq('id', customerId)
+      .eq('restaurant_id', restaurantId)
+      .maybeSingle();
+
+    if (!customer || !isSameCustomer(user, customer)) {
+      throw new Error('Unauthorized to register devices for this customer');
+    }
+
+    const now = new Date().toISOString();
+
+    // A device that re-subscribes, or changes hands, keeps a single row
+    const { error: upsertError } = await supabaseAdmin
+      .from('customer_push_subscriptions')
+      .upsert({
+        restaurant_id: restaurantId,
+        customer_id: customerId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        user_agent: req.headers.get('User-Agent'),
+        expires_at: subscription.expirationTime ? new Date(subscription.expirationTime).toISOString() : null,
+        updated_at: now,
+      }, { onConflict: 'endpoint' });
+
+    if (upsertError) {
+      console.error('❌ Error saving push subscription:', upsertError);
+      throw new Error('Failed to register device');
+    }
+
+    console.log('🔔 Push device registered:', { restaurantId, customerId });
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error handling push subscription:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
+
+// The signed-in user is the customer when their verified email or phone matches the customer record.
+// Unconfirmed identifiers are ignored, otherwise anyone could sign up with a customer's address.
+function isSameCustomer(user: any, customer: any): boolean {
+  const digits = (value?: string | null) => (value || '').replace(/\D/g, '');
+
+  if (
+    user.email_confirmed_at &&
+    user.email &&
+    customer.email &&
+    user.email.toLowerCase() === customer.email.toLowerCase()
+  ) {
+    return true;
+  }
+
+  return Boolean(
+    user.phone_confirmed_at &&
+    user.phone &&
+    customer.phone &&
+    digits(user.phone) === digits(customer.phone)
+  );
+}
@@ -0,0 +1,97 @@
+import Stripe from "npm:stripe@18.4.0";
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { subscriptionActorHeaders } from "../_shared/subscription-actor.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Ends a pause before its resume date. Billing restarts with the next invoice Stripe creates.
+// The subscription turns active when the resulting customer.subscription.updated webhook arrives,
+// so handle_subscription_webhook knows the current period was not charged.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get the user
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    // Use service role client for admin operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { global: { headers: subscriptionActorHeaders('user', user.id) } }
+    );
+
+    const { data: subscription, error: subError } = await supabaseAdmin
+      .from('subscriptions')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (subError || !subscription) {
+      throw new Error('Subscription not found');
+    }
+
+    if (subscription.status !== 'paused') {
+      throw new Error('Subscription is not paused');
+    }
+
+    const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+      apiVersion: '2023-10-16',
+    });
+
+    console.log('▶️ Resuming subscription:', {
+      userId: user.id,
+      stripeSubscriptionId: subscription.stripe_subscription_id,
+      scheduledResume: subscription.pause_resumes_at
+    });
+
+    // An empty value clears pause_collection
+    await stripe.subscriptions.update(subscription.stripe_subscription_id, {
+      pause_collection: '',
+      metadata: {
+        resumed_at: new Date().toISOString()
+      }
+    });
+
+    console.log('✅ Subscription resume requested');
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error resuming subscription:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
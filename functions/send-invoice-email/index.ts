@@ -0,0 +1,205 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { getPlatformEmailConfig, sendEmail } from "../_shared/messaging.ts";
+import { bytesToBase64, formatCurrency, renderReceipt } from "../_shared/receipt/index.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface SendInvoiceEmailRequest {
+  invoiceId: string;
+}
+
+// Minimum time between two resends of the same invoice
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Emails an invoice's PDF receipt to the billing contact. Called by stripe-webhook with the
+// service role key when a payment creates an invoice, and by owners from BillingPage to resend.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+    const isAutomatic = Boolean(serviceRoleKey) && authHeader === `Bearer ${serviceRoleKey}`;
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    );
+
+    let requestedBy: string | null = null;
+
+    if (!isAutomatic) {
+      const supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        {
+          global: {
+            headers: { Authorization: authHeader! },
+          },
+        }
+      );
+
+      const {
+        data: { user },
+      } = await supabaseClient.auth.getUser();
+
+      if (!user) {
+        throw new Error('Unauthorized');
+      }
+
+      requestedBy = user.id;
+    }
+
+    const { invoiceId }: SendInvoiceEmailRequest = await req.json();
+
+    if (!invoiceId) {
+      throw new Error('Invoice ID is required');
+    }
+
+    const { data: invoice, error: invoiceError } = await supabaseAdmin
+      .from('invoices')
+      .select('id, user_id, invoice_number, total, currency, invoice_date, restaurant_name')
+      .eq('id', invoiceId)
+      .maybeSingle();
+
+    if (invoiceError || !invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    if (requestedBy && invoice.user_id !== requestedBy) {
+      throw new Error('Unauthorized to email this invoice');
+    }
+
+    const { data: lastDelivery } = await supabaseAdmin
+      .from('invoice_email_deliveries')
+      .select('trigger, status, created_at')
+      .eq('invoice_id', invoiceId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    // Several Stripe events land on the same invoice; it is only sent automatically once
+    if (isAutomatic) {
+      const { data: sentAutomatically } = await supabaseAdmin
+        .from('invoice_email_deliveries')
+        .select('id')
+        .eq('invoice_id', invoiceId)
+        .eq('trigger', 'automatic')
+        .eq('status', 'sent')
+        .limit(1)
+        .maybeSingle();
+
+      if (sentAutomatically) {
+        console.log('ℹ️ Invoice already emailed, skipping:', invoice.invoice_number);
+        return new Response(
+          JSON.stringify({ success: true, skipped: true }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 200,
+          }
+        );
+      }
+    } else if (lastDelivery && Date.now() - new Date(lastDelivery.created_at).getTime() < RESEND_COOLDOWN_MS) {
+      throw new Error('This invoice was just emailed. Please wait a minute before resending.');
+    }
+
+    const emailConfig = getPlatformEmailConfig();
+    if (!emailConfig) {
+      throw new Error('Invoice email is not configured');
+    }
+
+    const recipient = await getBillingContact(supabaseAdmin, invoice.user_id);
+    if (!recipient) {
+      throw new Error('No billing email address found for this account');
+    }
+
+    // Rendered by the same module as download-receipt so the attachment matches the download exactly
+    const receipt = await renderReceipt(supabaseAdmin, { invoiceId });
+    const amount = formatCurrency(Number(invoice.total), invoice.currency || 'USD');
+
+    const subject = `Your LEYLS receipt ${invoice.invoice_number}`;
+    const message = [
+      `Hi ${invoice.restaurant_name || 'there'},`,
+      '',
+      `Thank you for your payment of ${amount}. Your receipt ${invoice.invoice_number} is attached.`,
+      '',
+      'You can download all your invoices from the Billing page of your dashboard.',
+      '',
+      'LEYLS Billing'
+    ].join('\n');
+
+    const sendResult = await sendEmail(emailConfig, recipient, subject, message, [{
+      filename: receipt.filename,
+      content: bytesToBase64(receipt.pdf),
+      type: 'application/pdf'
+    }]);
+
+    const { error: logError } = await supabaseAdmin
+      .from('invoice_email_deliveries')
+      .insert({
+        invoice_id: invoiceId,
+        user_id: invoice.user_id,
+        recipient,
+        trigger: isAutomatic ? 'automatic' : 'resend',
+        status: sendResult.success ? 'sent' : 'failed',
+        provider: emailConfig.provider,
+        provider_message_id: sendResult.messageId || null,
+        error_message: sendResult.error || null,
+        requested_by: requestedBy
+      });
+
+    if (logError) {
+      console.error('⚠️ Failed to log invoice email delivery:', logError);
+    }
+
+    if (!sendResult.success) {
+      console.error('❌ Invoice email failed:', sendResult.error);
+      throw new Error('Failed to send invoice email');
+    }
+
+    console.log('📧 Invoice emailed:', {
+      invoiceNumber: invoice.invoice_number,
+      recipient,
+      trigger: isAutomatic ? 'automatic' : 'resend'
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, recipient }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error sending invoice email:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
+
+// Billing contact from the billing profile, otherwise the account email
+async function getBillingContact(supabaseAdmin: any, userId: string): Promise<string | null> {
+  const { data: profile } = await supabaseAdmin
+    .from('billing_profiles')
+    .select('billing_email')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (profile?.billing_email) {
+    return profile.billing_email;
+  }
+
+  const { data: { user } } = await supabaseAdmin.auth.admin.getUserById(userId);
+  return user?.email || null;
+}
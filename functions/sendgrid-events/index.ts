@@ -0,0 +1,170 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-twilio-email-event-webhook-signature, x-twilio-email-event-webhook-timestamp',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface SendGridEvent {
+  event: string;
+  sg_message_id?: string;
+  timestamp?: number;
+  reason?: string;
+}
+
+// SendGrid event -> campaign_sends.delivery_status; deferrals, spam reports and unsubscribes are ignored
+const SENDGRID_DELIVERY_STATUSES: Record<string, string> = {
+  processed: 'sent',
+  delivered: 'delivered',
+  open: 'opened',
+  click: 'clicked',
+  bounce: 'bounced',
+  dropped: 'bounced',
+};
+
+// Event Webhook for campaign emails. Each restaurant sends through its own SendGrid account, so the
+// webhook URL carries the restaurant id and the batch is verified with that account's signing key.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const restaurantId = new URL(req.url).searchParams.get('restaurant_id');
+
+    if (!restaurantId) {
+      throw new Error('restaurant_id is required');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: providerConfig } = await supabase
+      .from('channel_provider_configs')
+      .select('config_json')
+      .eq('restaurant_id', restaurantId)
+      .eq('channel', 'email')
+      .eq('provider', 'sendgrid')
+      .maybeSingle();
+
+    const body = await req.text();
+    const signature = req.headers.get('X-Twilio-Email-Event-Webhook-Signature');
+    const timestamp = req.headers.get('X-Twilio-Email-Event-Webhook-Timestamp');
+    const publicKey = providerConfig?.config_json?.eventWebhookPublicKey;
+
+    if (
+      !publicKey ||
+      !signature ||
+      !timestamp ||
+      !(await isValidSendGridSignature(publicKey, timestamp + body, signature))
+    ) {
+      console.error('❌ Invalid SendGrid event signature for restaurant:', restaurantId);
+      return new Response(JSON.stringify({ error: 'Invalid signature' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const events: SendGridEvent[] = JSON.parse(body);
+
+    const deliveryEvents = events
+      .filter(event => SENDGRID_DELIVERY_STATUSES[event.event] && event.sg_message_id)
+      .map(event => ({
+        // sg_message_id is the X-Message-Id returned on send followed by a per-recipient suffix
+        message_id: event.sg_message_id!.split('.')[0],
+        event: SENDGRID_DELIVERY_STATUSES[event.event],
+        occurred_at: event.timestamp ? new Date(event.timestamp * 1000).toISOString() : null,
+        error: event.reason ?? null,
+      }));
+
+    if (deliveryEvents.length > 0) {
+      const { data: updated, error: recordError } = await supabase.rpc('record_campaign_delivery_events', {
+        p_restaurant_id: restaurantId,
+        p_provider: 'sendgrid',
+        p_events: deliveryEvents
+      });
+
+      if (recordError) {
+        throw new Error(`Failed to record delivery events: ${recordError.message}`);
+      }
+
+      console.log('📬 Campaign email events:', {
+        restaurantId,
+        received: events.length,
+        applied: updated
+      });
+    }
+
+    return new Response(JSON.stringify({ received: true }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    });
+  } catch (error) {
+    console.error('❌ Error handling SendGrid events:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
+
+// Signed Event Webhook: ECDSA P-256 / SHA-256 over timestamp + raw body. SendGrid provides the key
+// as base64 SPKI and the signature as base64 DER, which WebCrypto needs as raw r || s.
+async function isValidSendGridSignature(publicKey: string, payload: string, signature: string): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey(
+      'spki',
+      base64ToBytes(publicKey),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+
+    return await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      derToRawSignature(base64ToBytes(signature)),
+      new TextEncoder().encode(payload)
+    );
+  } catch (error) {
+    console.error('❌ Could not verify SendGrid signature:', error);
+    return false;
+  }
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  return Uint8Array.from(atob(value.trim()), char => char.charCodeAt(0));
+}
+
+// SEQUENCE { INTEGER r, INTEGER s } -> 64 bytes
+function derToRawSignature(der: Uint8Array): Uint8Array {
+  let offset = 2;
+  if (der[1] & 0x80) {
+    offset += der[1] & 0x7f;
+  }
+
+  const readInteger = () => {
+    const length = der[offset + 1];
+    let value = der.slice(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+
+    while (value.length > 32 && value[0] === 0) {
+      value = value.slice(1);
+    }
+
+    const padded = new Uint8Array(32);
+    padded.set(value, 32 - value.length);
+    return padded;
+  };
+
+  const raw = new Uint8Array(64);
+  raw.set(readInteger(), 0);
+  raw.set(readInteger(), 32);
+  return raw;
+}
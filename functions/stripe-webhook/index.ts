@@ -1,5 +1,7 @@
 import Stripe from "npm:stripe@18.4.0";
 import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { subscriptionActorHeaders } from "../_shared/subscription-actor.ts";
+import { recordCreditNote } from "../_shared/refunds.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,6 +19,10 @@ interface WebhookProcessingResult {
   actualDuration?: number;
 }
 
+interface ReplayRequest {
+  eventId: string;
+}
+
 interface PeriodCalculation {
   start: Date;
   end: Date;
@@ -33,16 +39,25 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  const url = new URL(req.url);
+  if (url.pathname.endsWith('/replay')) {
+    return await handleReplayRequest(req);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { global: { headers: subscriptionActorHeaders('webhook') } }
+  );
+
+  // Set once the delivery holds the ledger row, so a crash below can release it
+  let claimedEvent: Stripe.Event | null = null;
+
   try {
     const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
       apiVersion: '2023-10-16',
     });
 
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
-
     const signature = req.headers.get('stripe-signature');
     const body = await req.text();
     
@@ -66,60 +81,60 @@ Deno.serve(async (req: Request) => {
     console.log(`🎯 Processing webhook event: ${event.type} at ${new Date().toISOString()}`);
     console.log(`📊 Event ID: ${event.id}, Created: ${new Date(event.created * 1000).toISOString()}`);
 
-    let processingResult: WebhookProcessingResult = {
-      success: false,
-      action: 'unknown'
-    };
-
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        processingResult = await handleCheckoutCompleted(event, stripe, supabase);
-        break;
-      }
-
-      case 'payment_intent.succeeded': {
-        processingResult = await handlePaymentSucceeded(event, stripe, supabase);
-        break;
-      }
-
-      case 'invoice.payment_succeeded': {
-        processingResult = await handleInvoicePaymentSucceeded(event, stripe, supabase);
-        break;
-      }
+    // Record the delivery in the event ledger and skip events we already handled
+    const { data: ledgerEntry, error: ledgerError } = await supabase.rpc('begin_stripe_webhook_event', {
+      p_event_id: event.id,
+      p_event_type: event.type,
+      p_payload_hash: await hashPayload(body),
+      p_event_created: getEventCreatedAt(event)
+    });
 
-      case 'invoice.payment_failed': {
-        processingResult = await handleInvoicePaymentFailed(event, stripe, supabase);
-        break;
-      }
+    if (ledgerError) {
+      console.error('❌ Failed to record webhook event in ledger:', ledgerError);
+      throw new Error(`Failed to record webhook event: ${ledgerError.message}`);
+    }
 
-      case 'customer.subscription.updated': {
-        processingResult = await handleSubscriptionUpdated(event, stripe, supabase);
-        break;
-      }
+    // Another delivery is still processing this event. Answer with an error so Stripe retries
+    // later; if that delivery dies, the retry picks the event up again.
+    if (!ledgerEntry.should_process && ledgerEntry.status === 'processing') {
+      console.log(`⏳ Event ${event.id} is already being processed, asking Stripe to retry`);
+
+      return new Response(JSON.stringify({
+        received: true,
+        processed: false,
+        in_flight: true,
+        event_type: event.type,
+        timestamp: new Date().toISOString()
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 409,
+      });
+    }
 
-      case 'customer.subscription.deleted': {
-        processingResult = await handleSubscriptionDeleted(event, stripe, supabase);
-        break;
-      }
+    if (!ledgerEntry.should_process) {
+      console.log(`⏭️ Skipping already handled event ${event.id}:`, {
+        status: ledgerEntry.status,
+        attempts: ledgerEntry.attempts,
+        payloadChanged: ledgerEntry.payload_changed
+      });
 
-      default:
-        console.log(`ℹ️ Unhandled webhook event type: ${event.type}`);
-        processingResult = {
-          success: true,
-          action: 'ignored',
-        };
+      return new Response(JSON.stringify({
+        received: true,
+        processed: false,
+        duplicate: true,
+        ledger_status: ledgerEntry.status,
+        event_type: event.type,
+        timestamp: new Date().toISOString()
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      });
     }
 
-    console.log(`📈 Webhook processing completed:`, {
-      eventType: event.type,
-      success: processingResult.success,
-      action: processingResult.action,
-      userId: processingResult.userId,
-      planType: processingResult.planType,
-      billingPeriodAccurate: processingResult.billingPeriodAccurate,
-      actualDuration: processingResult.actualDuration,
-      error: processingResult.error
-    });
+    claimedEvent = event;
+
+    const processingResult = await processStripeEvent(event, stripe, supabase);
+    await settleWebhookEvent(event, processingResult, supabase, false);
 
     return new Response(JSON.stringify({ 
       received: true, 
@@ -138,9 +153,19 @@ Deno.serve(async (req: Request) => {
     });
   } catch (error) {
     console.error('💥 Webhook processing error:', error);
+
+    // Mark the event failed instead of leaving it `processing`, so Stripe's retry is handled
+    if (claimedEvent) {
+      await settleWebhookEvent(claimedEvent, {
+        success: false,
+        action: 'error',
+        error: error.message
+      }, supabase, false);
+    }
+
     return new Response(JSON.stringify({ 
       error: error.message,
-      event_type: 'unknown',
+      event_type: claimedEvent?.type ?? 'unknown',
       timestamp: new Date().toISOString()
     }), { 
       status: 400,
@@ -149,6 +174,345 @@ Deno.serve(async (req: Request) => {
   }
 });
 
+// Re-runs a dead-lettered event through the same handler switch. Only callable with the service role key.
+async function handleReplayRequest(req: Request): Promise<Response> {
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+      apiVersion: '2023-10-16',
+    });
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      { global: { headers: subscriptionActorHeaders('webhook') } }
+    );
+
+    const { eventId }: ReplayRequest = await req.json();
+
+    if (!eventId) {
+      throw new Error('Event ID is required');
+    }
+
+    console.log('🔁 Replaying dead-lettered webhook event:', eventId);
+
+    const { data: deadLetter, error: fetchError } = await supabase
+      .from('stripe_webhook_dead_letters')
+      .select('*')
+      .eq('event_id', eventId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch dead letter: ${fetchError.message}`);
+    }
+
+    if (!deadLetter) {
+      throw new Error('No dead letter found for this event');
+    }
+
+    const event = deadLetter.payload as Stripe.Event;
+    const body = JSON.stringify(event);
+
+    const { data: ledgerEntry, error: ledgerError } = await supabase.rpc('begin_stripe_webhook_event', {
+      p_event_id: event.id,
+      p_event_type: event.type,
+      p_payload_hash: await hashPayload(body),
+      p_event_created: getEventCreatedAt(event)
+    });
+
+    if (ledgerError) {
+      throw new Error(`Failed to record webhook event: ${ledgerError.message}`);
+    }
+
+    if (!ledgerEntry.should_process) {
+      console.log(`⏭️ Event ${event.id} is not replayable, ledger status: ${ledgerEntry.status}`);
+
+      // A stale ledger entry means nothing was applied, so the dead letter stays open
+      if (ledgerEntry.status === 'processed' || ledgerEntry.status === 'ignored') {
+        await supabase.rpc('resolve_stripe_webhook_dead_letter', {
+          p_event_id: event.id,
+          p_resolved_by: 'stripe_retry'
+        });
+      }
+
+      return new Response(JSON.stringify({
+        replayed: false,
+        ledger_status: ledgerEntry.status,
+        event_id: event.id,
+        event_type: event.type,
+        timestamp: new Date().toISOString()
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 409,
+      });
+    }
+
+    const processingResult = await processStripeEvent(event, stripe, supabase);
+    await settleWebhookEvent(event, processingResult, supabase, true);
+
+    console.log(`🔁 Replay of ${event.id} finished:`, {
+      success: processingResult.success,
+      action: processingResult.action,
+      userId: processingResult.userId,
+      error: processingResult.error
+    });
+
+    // Nothing was applied, so the dead letter stays open for support to handle
+    if (processingResult.action === 'stale_event_ignored') {
+      return new Response(JSON.stringify({
+        replayed: false,
+        outcome: 'stale',
+        event_id: event.id,
+        event_type: event.type,
+        user_id: processingResult.userId,
+        timestamp: new Date().toISOString(),
+        error: 'The subscription already reflects a newer Stripe event; nothing was applied'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 409,
+      });
+    }
+
+    return new Response(JSON.stringify({
+      replayed: true,
+      processed: processingResult.success,
+      action: processingResult.action,
+      event_id: event.id,
+      event_type: event.type,
+      user_id: processingResult.userId,
+      plan_type: processingResult.planType,
+      timestamp: new Date().toISOString(),
+      error: processingResult.error
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: processingResult.success ? 200 : 422,
+    });
+  } catch (error) {
+    console.error('💥 Webhook replay error:', error);
+    return new Response(JSON.stringify({
+      error: error.message,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+async function processStripeEvent(
+  event: Stripe.Event,
+  stripe: Stripe,
+  supabase: any
+): Promise<WebhookProcessingResult> {
+  let processingResult: WebhookProcessingResult = {
+    success: false,
+    action: 'unknown'
+  };
+
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      processingResult = await handleCheckoutCompleted(event, stripe, supabase);
+      break;
+    }
+
+    case 'payment_intent.succeeded': {
+      processingResult = await handlePaymentSucceeded(event, stripe, supabase);
+      break;
+    }
+
+    case 'invoice.payment_succeeded': {
+      processingResult = await handleInvoicePaymentSucceeded(event, stripe, supabase);
+      break;
+    }
+
+    case 'invoice.payment_failed': {
+      processingResult = await handleInvoicePaymentFailed(event, stripe, supabase);
+      break;
+    }
+
+    case 'customer.subscription.updated': {
+      processingResult = await handleSubscriptionUpdated(event, stripe, supabase);
+      break;
+    }
+
+    case 'customer.subscription.deleted': {
+      processingResult = await handleSubscriptionDeleted(event, stripe, supabase);
+      break;
+    }
+
+    case 'charge.refunded': {
+      processingResult = await handleChargeRefunded(event, stripe, supabase);
+      break;
+    }
+
+    // Stripe sends charge.refund.updated and, on newer API versions, refund.updated as well
+    case 'charge.refund.updated':
+    case 'refund.updated': {
+      processingResult = await handleRefundUpdated(event, stripe, supabase);
+      break;
+    }
+
+    default:
+      console.log(`ℹ️ Unhandled webhook event type: ${event.type}`);
+      processingResult = {
+        success: true,
+        action: 'ignored',
+      };
+  }
+
+  console.log(`📈 Webhook processing completed:`, {
+    eventType: event.type,
+    success: processingResult.success,
+    action: processingResult.action,
+    userId: processingResult.userId,
+    planType: processingResult.planType,
+    billingPeriodAccurate: processingResult.billingPeriodAccurate,
+    actualDuration: processingResult.actualDuration,
+    error: processingResult.error
+  });
+
+  return processingResult;
+}
+
+// Stores the outcome in the ledger and keeps the dead-letter queue in sync
+async function settleWebhookEvent(
+  event: Stripe.Event,
+  processingResult: WebhookProcessingResult,
+  supabase: any,
+  isReplay: boolean
+): Promise<void> {
+  const { error: completeError } = await supabase.rpc('complete_stripe_webhook_event', {
+    p_event_id: event.id,
+    p_status: getLedgerStatus(processingResult),
+    p_result: processingResult
+  });
+
+  if (completeError) {
+    console.error('❌ Failed to update webhook event ledger:', completeError);
+  }
+
+  // A replayed event that turned out stale applied nothing, so its dead letter stays open
+  const staleReplay = isReplay && processingResult.action === 'stale_event_ignored';
+
+  if (processingResult.success && !staleReplay) {
+    const { error: resolveError } = await supabase.rpc('resolve_stripe_webhook_dead_letter', {
+      p_event_id: event.id,
+      p_resolved_by: isReplay ? 'replay' : 'stripe_retry'
+    });
+
+    if (resolveError) {
+      console.error('❌ Failed to resolve dead letter:', resolveError);
+    }
+    return;
+  }
+
+  const eventObject = event.data.object as { metadata?: Record<string, string> };
+  const { error: deadLetterError } = await supabase.rpc('record_stripe_webhook_failure', {
+    p_event_id: event.id,
+    p_event_type: event.type,
+    p_payload: event,
+    p_result: staleReplay
+      ? { ...processingResult, error: 'Replay was stale: the subscription already reflects a newer event' }
+      : processingResult,
+    p_user_id: processingResult.userId || eventObject.metadata?.user_id || null,
+    p_is_replay: isReplay
+  });
+
+  if (deadLetterError) {
+    console.error('❌ Failed to record dead letter for event:', event.id, deadLetterError);
+  } else {
+    console.log(`📥 Event ${event.id} stored in dead-letter queue`);
+  }
+}
+
+async function hashPayload(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function getEventCreatedAt(event: Stripe.Event): string {
+  return new Date(event.created * 1000).toISOString();
+}
+
+// Total discount Stripe applied to an invoice, in cents
+function getInvoiceDiscount(invoice: Stripe.Invoice): number {
+  return (invoice.total_discount_amounts || []).reduce((sum, discount) => sum + discount.amount, 0);
+}
+
+// Remembers which payment paid an invoice so support can refund it later
+async function linkInvoicePaymentIntent(
+  supabase: any,
+  invoiceId: string | null | undefined,
+  paymentIntentId: string | null | undefined
+): Promise<void> {
+  if (!invoiceId || !paymentIntentId) return;
+
+  const { error } = await supabase
+    .from('invoices')
+    .update({ stripe_payment_intent_id: paymentIntentId })
+    .eq('id', invoiceId);
+
+  if (error) {
+    console.error('⚠️ Failed to link payment intent to invoice:', invoiceId, error);
+  }
+}
+
+// Emails the receipt to the billing contact. A failed email never fails the webhook;
+// the owner can resend it from BillingPage.
+async function requestInvoiceEmail(invoiceId: string | null | undefined): Promise<void> {
+  if (!invoiceId) return;
+
+  try {
+    const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/send-invoice-email`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ invoiceId })
+    });
+
+    if (!response.ok) {
+      console.error('⚠️ Invoice email request failed:', invoiceId, await response.text());
+    }
+  } catch (error) {
+    console.error('⚠️ Invoice email request failed:', invoiceId, error);
+  }
+}
+
+function getLedgerStatus(result: WebhookProcessingResult): string {
+  if (!result.success) return 'failed';
+  if (result.action === 'ignored') return 'ignored';
+  if (result.action === 'stale_event_ignored') return 'stale';
+  return 'processed';
+}
+
+function staleEventResult(event: Stripe.Event, result: any, planType: string): WebhookProcessingResult {
+  console.log('⏭️ Ignoring stale event, subscription already reflects a newer state:', {
+    eventId: event.id,
+    eventCreated: result.event_created,
+    lastAppliedEventAt: result.last_applied_event_at
+  });
+
+  return {
+    success: true,
+    action: 'stale_event_ignored',
+    userId: result.user_id,
+    planType
+  };
+}
+
 function calculatePeriodFromStripe(
   subscription: Stripe.Subscription,
   planType: string
@@ -289,7 +653,12 @@ async function handleCheckoutCompleted(
       p_stripe_subscription_id: session.subscription as string || null,
       p_stripe_customer_id: session.customer as string,
       p_period_start: periodCalculation.start.toISOString(),
-      p_period_end: periodCalculation.end.toISOString()
+      p_period_end: periodCalculation.end.toISOString(),
+      p_stripe_event_id: event.id,
+      p_event_created: getEventCreatedAt(event),
+      p_discount: session.total_details?.amount_discount || 0,
+      p_discount_code: session.metadata.promo_code || null,
+      p_currency: session.currency
     });
 
     if (error) {
@@ -297,6 +666,13 @@ async function handleCheckoutCompleted(
       throw error;
     }
 
+    if (result?.skipped) {
+      return staleEventResult(event, result, planType);
+    }
+
+    // Subscription checkouts are linked when their invoice.payment_succeeded arrives
+    await linkInvoicePaymentIntent(supabase, result?.invoice_id, session.payment_intent as string);
+
     console.log('✅ Checkout completion processed successfully:', {
       result,
       periodSource: periodCalculation.source,
@@ -362,7 +738,12 @@ async function handlePaymentSucceeded(
       p_stripe_subscription_id: null, // One-time payments don't have subscription IDs
       p_stripe_customer_id: paymentIntent.customer as string,
       p_period_start: periodCalculation.start.toISOString(),
-      p_period_end: periodCalculation.end.toISOString()
+      p_period_end: periodCalculation.end.toISOString(),
+      p_stripe_event_id: event.id,
+      p_event_created: getEventCreatedAt(event),
+      p_discount: Number(paymentIntent.metadata.discount_amount || 0),
+      p_discount_code: paymentIntent.metadata.promo_code || null,
+      p_currency: paymentIntent.currency
     });
 
     if (error) {
@@ -370,6 +751,12 @@ async function handlePaymentSucceeded(
       throw error;
     }
 
+    if (result?.skipped) {
+      return staleEventResult(event, result, planType);
+    }
+
+    await linkInvoicePaymentIntent(supabase, result?.invoice_id, paymentIntent.id);
+
     console.log('✅ Payment success processed successfully:', {
       result,
       periodSource: periodCalculation.source,
@@ -463,6 +850,8 @@ async function handleInvoicePaymentSucceeded(
       });
     }
 
+    const invoiceDiscount = getInvoiceDiscount(invoice);
+
     console.log('💾 Updating subscription in database...');
     const { data: result, error } = await supabase.rpc('handle_subscription_webhook', {
       p_user_id: userId,
@@ -471,7 +860,12 @@ async function handleInvoicePaymentSucceeded(
       p_stripe_subscription_id: subscription.id,
       p_stripe_customer_id: subscription.customer as string,
       p_period_start: periodCalculation.start.toISOString(),
-      p_period_end: periodCalculation.end.toISOString()
+      p_period_end: periodCalculation.end.toISOString(),
+      p_stripe_event_id: event.id,
+      p_event_created: getEventCreatedAt(event),
+      p_discount: invoiceDiscount,
+      p_discount_code: invoiceDiscount > 0 ? subscription.metadata.promo_code || null : null,
+      p_currency: invoice.currency
     });
 
     if (error) {
@@ -479,6 +873,13 @@ async function handleInvoicePaymentSucceeded(
       throw error;
     }
 
+    if (result?.skipped) {
+      return staleEventResult(event, result, planType);
+    }
+
+    await linkInvoicePaymentIntent(supabase, result?.invoice_id, invoice.payment_intent as string);
+    await requestInvoiceEmail(result?.invoice_id);
+
     console.log('✅ Invoice payment processed successfully:', {
       result,
       periodSource: periodCalculation.source,
@@ -553,7 +954,9 @@ async function handleInvoicePaymentFailed(
       p_stripe_subscription_id: subscription.id,
       p_stripe_customer_id: subscription.customer as string,
       p_period_start: periodCalculation.start.toISOString(),
-      p_period_end: periodCalculation.end.toISOString()
+      p_period_end: periodCalculation.end.toISOString(),
+      p_stripe_event_id: event.id,
+      p_event_created: getEventCreatedAt(event)
     });
 
     if (error) {
@@ -561,6 +964,10 @@ async function handleInvoicePaymentFailed(
       throw error;
     }
 
+    if (result?.skipped) {
+      return staleEventResult(event, result, planType);
+    }
+
     console.log('✅ Subscription marked as past_due for failed payment:', {
       result,
       periodSource: periodCalculation.source,
@@ -601,7 +1008,8 @@ async function handleSubscriptionUpdated(
       cancelAtPeriodEnd: subscription.cancel_at_period_end,
       canceledAt: subscription.canceled_at,
       trialStart: subscription.trial_start,
-      trialEnd: subscription.trial_end
+      trialEnd: subscription.trial_end,
+      pauseCollection: subscription.pause_collection
     });
     
     if (!subscription.metadata?.user_id) {
@@ -613,7 +1021,27 @@ async function handleSubscriptionUpdated(
     }
 
     const userId = subscription.metadata.user_id;
-    const planType = subscription.metadata.plan_type || 'monthly';
+    let planType = subscription.metadata.plan_type || 'monthly';
+
+    // A plan change scheduled for the period end takes effect once Stripe starts the new period
+    const { data: scheduledChange } = await supabase
+      .from('subscriptions')
+      .select('scheduled_plan_type, scheduled_change_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (
+      scheduledChange?.scheduled_plan_type &&
+      scheduledChange.scheduled_change_at &&
+      subscription.current_period_start * 1000 >= new Date(scheduledChange.scheduled_change_at).getTime() - 60000
+    ) {
+      console.log('📅 Applying scheduled plan change:', {
+        from: planType,
+        to: scheduledChange.scheduled_plan_type,
+        scheduledAt: scheduledChange.scheduled_change_at
+      });
+      planType = scheduledChange.scheduled_plan_type;
+    }
     
     // Map Stripe status to our status with enhanced logging
     let status: string;
@@ -641,11 +1069,23 @@ async function handleSubscriptionUpdated(
         status = 'active'; // Treat trialing as active
         console.log('🆓 Subscription is in trial period');
         break;
+      case 'paused':
+        status = 'paused';
+        console.log('⏸️ Subscription is paused');
+        break;
       default:
         status = 'active';
         console.log(`❓ Unknown subscription status: ${subscription.status}, defaulting to active`);
     }
 
+    // Stripe keeps a subscription with paused collection active; it resumes when pause_collection is cleared
+    if (subscription.pause_collection && status === 'active') {
+      status = 'paused';
+      console.log('⏸️ Collection is paused until:', subscription.pause_collection.resumes_at
+        ? new Date(subscription.pause_collection.resumes_at * 1000).toISOString()
+        : 'resumed manually');
+    }
+
     // Always use actual Stripe periods for subscription updates
     const periodCalculation = calculatePeriodFromStripe(subscription, planType);
 
@@ -657,7 +1097,10 @@ async function handleSubscriptionUpdated(
       p_stripe_subscription_id: subscription.id,
       p_stripe_customer_id: subscription.customer as string,
       p_period_start: periodCalculation.start.toISOString(),
-      p_period_end: periodCalculation.end.toISOString()
+      p_period_end: periodCalculation.end.toISOString(),
+      p_stripe_event_id: event.id,
+      p_event_created: getEventCreatedAt(event),
+      p_currency: subscription.currency
     });
 
     if (error) {
@@ -665,6 +1108,22 @@ async function handleSubscriptionUpdated(
       throw error;
     }
 
+    if (result?.skipped) {
+      return staleEventResult(event, result, planType);
+    }
+
+    if (status === 'paused') {
+      const resumesAt = subscription.pause_collection?.resumes_at;
+      const { error: pauseError } = await supabase
+        .from('subscriptions')
+        .update({ pause_resumes_at: resumesAt ? new Date(resumesAt * 1000).toISOString() : null })
+        .eq('user_id', userId);
+
+      if (pauseError) {
+        console.error('⚠️ Failed to store pause resume date:', pauseError);
+      }
+    }
+
     console.log('✅ Subscription update processed successfully:', {
       result,
       statusChange: status,
@@ -730,7 +1189,9 @@ async function handleSubscriptionDeleted(
       p_stripe_subscription_id: subscription.id,
       p_stripe_customer_id: subscription.customer as string,
       p_period_start: periodCalculation.start.toISOString(),
-      p_period_end: periodCalculation.end.toISOString()
+      p_period_end: periodCalculation.end.toISOString(),
+      p_stripe_event_id: event.id,
+      p_event_created: getEventCreatedAt(event)
     });
 
     if (error) {
@@ -738,6 +1199,10 @@ async function handleSubscriptionDeleted(
       throw error;
     }
 
+    if (result?.skipped) {
+      return staleEventResult(event, result, planType);
+    }
+
     console.log('✅ Subscription cancellation processed successfully:', {
       result,
       periodSource: periodCalculation.source,
@@ -761,4 +1226,177 @@ async function handleSubscriptionDeleted(
       error: error.message
     };
   }
-}
\ No newline at end of file
+}
+
+async function handleChargeRefunded(
+  event: Stripe.Event,
+  stripe: Stripe,
+  supabase: any
+): Promise<WebhookProcessingResult> {
+  try {
+    const charge = event.data.object as Stripe.Charge;
+    console.log('💸 Processing charge refund:', {
+      chargeId: charge.id,
+      paymentIntentId: charge.payment_intent,
+      invoiceId: charge.invoice,
+      amount: charge.amount,
+      amountRefunded: charge.amount_refunded,
+      currency: charge.currency
+    });
+
+    // Charge objects no longer embed their refunds
+    const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+    const fallbackInvoiceId = await findInvoiceForCharge(charge, stripe, supabase);
+    const failedRefunds: string[] = [];
+    let recorded = 0;
+
+    // One bad refund must not keep the others from being recorded. Recording is idempotent,
+    // so a retry of the whole event only fills in the ones that failed.
+    for (const refund of refunds.data) {
+      const invoiceId = refund.metadata?.invoice_id || fallbackInvoiceId;
+
+      if (!invoiceId) {
+        console.warn('⚠️ No invoice found for refund, skipping:', refund.id);
+        continue;
+      }
+
+      try {
+        const creditNote = await recordCreditNote(supabase, invoiceId, refund, refund.metadata?.issued_by);
+        recorded++;
+
+        console.log('🧾 Credit note recorded:', {
+          refundId: refund.id,
+          refundStatus: refund.status,
+          creditNoteNumber: creditNote.credit_note_number,
+          amount: creditNote.amount
+        });
+      } catch (error) {
+        console.error('❌ Error recording credit note for refund:', refund.id, error);
+        failedRefunds.push(`${refund.id}: ${error.message}`);
+      }
+    }
+
+    if (failedRefunds.length > 0) {
+      return {
+        success: false,
+        action: 'charge_refunded_partial',
+        error: `Failed to record ${failedRefunds.length} of ${refunds.data.length} refunds (${recorded} recorded): ${failedRefunds.join('; ')}`
+      };
+    }
+
+    return {
+      success: true,
+      action: recorded > 0 ? 'charge_refunded' : 'charge_refunded_no_invoice'
+    };
+  } catch (error) {
+    console.error('❌ Error handling charge refund:', error);
+    return {
+      success: false,
+      action: 'charge_refunded',
+      error: error.message
+    };
+  }
+}
+
+// A refund changed status after it was created, e.g. a pending refund succeeded or a refund failed
+// or was cancelled. Failed and cancelled refunds void their credit note.
+async function handleRefundUpdated(
+  event: Stripe.Event,
+  stripe: Stripe,
+  supabase: any
+): Promise<WebhookProcessingResult> {
+  try {
+    const refund = event.data.object as Stripe.Refund;
+    console.log('💸 Processing refund update:', {
+      refundId: refund.id,
+      chargeId: refund.charge,
+      status: refund.status,
+      amount: refund.amount
+    });
+
+    const { data: existingNote } = await supabase
+      .from('credit_notes')
+      .select('invoice_id')
+      .eq('stripe_refund_id', refund.id)
+      .maybeSingle();
+
+    let invoiceId: string | null = existingNote?.invoice_id || refund.metadata?.invoice_id || null;
+
+    if (!invoiceId && refund.charge) {
+      const charge = await stripe.charges.retrieve(refund.charge as string);
+      invoiceId = await findInvoiceForCharge(charge, stripe, supabase);
+    }
+
+    if (!invoiceId) {
+      console.warn('⚠️ No invoice found for refund, skipping:', refund.id);
+      return {
+        success: true,
+        action: 'refund_updated_no_invoice'
+      };
+    }
+
+    const creditNote = await recordCreditNote(supabase, invoiceId, refund, refund.metadata?.issued_by);
+
+    console.log('🧾 Credit note updated:', {
+      refundId: refund.id,
+      refundStatus: refund.status,
+      creditNoteNumber: creditNote.credit_note_number,
+      creditNoteStatus: creditNote.status
+    });
+
+    return {
+      success: true,
+      action: 'refund_updated'
+    };
+  } catch (error) {
+    console.error('❌ Error handling refund update:', error);
+    return {
+      success: false,
+      action: 'refund_updated',
+      error: error.message
+    };
+  }
+}
+
+// Our invoice for a refunded charge: by its payment intent, else by the Stripe invoice's subscription period
+async function findInvoiceForCharge(
+  charge: Stripe.Charge,
+  stripe: Stripe,
+  supabase: any
+): Promise<string | null> {
+  if (charge.payment_intent) {
+    const { data: invoice } = await supabase
+      .from('invoices')
+      .select('id')
+      .eq('stripe_payment_intent_id', charge.payment_intent as string)
+      .maybeSingle();
+
+    if (invoice) return invoice.id;
+  }
+
+  if (!charge.invoice) return null;
+
+  const stripeInvoice = await stripe.invoices.retrieve(charge.invoice as string);
+  const linePeriod = stripeInvoice.lines.data[0]?.period;
+
+  if (!stripeInvoice.subscription || !linePeriod) return null;
+
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('id')
+    .eq('stripe_subscription_id', stripeInvoice.subscription as string)
+    .maybeSingle();
+
+  if (!subscription) return null;
+
+  const { data: invoice } = await supabase
+    .from('invoices')
+    .select('id')
+    .eq('subscription_id', subscription.id)
+    .gte('period_start', new Date((linePeriod.start - 24 * 60 * 60) * 1000).toISOString())
+    .lte('period_start', new Date((linePeriod.start + 24 * 60 * 60) * 1000).toISOString())
+    .limit(1)
+    .maybeSingle();
+
+  return invoice?.id || null;
+}
@@ -0,0 +1,147 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { twilioStatusCallbackUrl } from "../_shared/messaging.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-twilio-signature',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Twilio MessageStatus -> campaign_sends.delivery_status; queued, sending and accepted are ignored
+const TWILIO_DELIVERY_STATUSES: Record<string, string> = {
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'opened',
+  undelivered: 'undelivered',
+  failed: 'undelivered',
+};
+
+// Status callbacks for campaign WhatsApp and SMS messages. Twilio signs each request with the auth
+// token of the restaurant's account, so the send is looked up first to find which token to check.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const params = Object.fromEntries(new URLSearchParams(await req.text()));
+    const messageSid = params.MessageSid;
+    const messageStatus = params.MessageStatus;
+
+    if (!messageSid || !messageStatus) {
+      throw new Error('Missing MessageSid or MessageStatus');
+    }
+
+    const { data: send } = await supabase
+      .from('campaign_sends')
+      .select('id, channel, campaign:campaigns!inner(restaurant_id)')
+      .eq('provider', 'twilio')
+      .eq('message_id', messageSid)
+      .maybeSingle();
+
+    // Test sends and messages sent before tracking started have no send to update
+    if (!send) {
+      return new Response(JSON.stringify({ received: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      });
+    }
+
+    const restaurantId = send.campaign.restaurant_id;
+
+    const { data: providerConfig } = await supabase
+      .from('channel_provider_configs')
+      .select('api_key_encrypted')
+      .eq('restaurant_id', restaurantId)
+      .eq('channel', send.channel)
+      .eq('provider', 'twilio')
+      .maybeSingle();
+
+    const signature = req.headers.get('X-Twilio-Signature');
+
+    if (
+      !providerConfig?.api_key_encrypted ||
+      !signature ||
+      !(await isValidTwilioSignature(providerConfig.api_key_encrypted, twilioStatusCallbackUrl(), params, signature))
+    ) {
+      console.error('❌ Invalid Twilio signature for message:', messageSid);
+      return new Response(JSON.stringify({ error: 'Invalid signature' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const deliveryStatus = TWILIO_DELIVERY_STATUSES[messageStatus];
+
+    if (deliveryStatus) {
+      const { error: recordError } = await supabase.rpc('record_campaign_delivery_events', {
+        p_restaurant_id: restaurantId,
+        p_provider: 'twilio',
+        p_events: [{
+          message_id: messageSid,
+          event: deliveryStatus,
+          occurred_at: new Date().toISOString(),
+          error: params.ErrorCode ? `Twilio error ${params.ErrorCode}` : null,
+        }]
+      });
+
+      if (recordError) {
+        throw new Error(`Failed to record delivery status: ${recordError.message}`);
+      }
+
+      console.log('📬 Campaign message status:', { sendId: send.id, messageStatus, deliveryStatus });
+    }
+
+    return new Response(JSON.stringify({ received: true }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    });
+  } catch (error) {
+    console.error('❌ Error handling Twilio status callback:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
+
+// https://www.twilio.com/docs/usage/security#validating-requests: HMAC-SHA1 of the URL followed by
+// every POST parameter name and value in name order, keyed with the auth token, base64 encoded
+async function isValidTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+  signature: string
+): Promise<boolean> {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((data, key) => data + key + params[key], url);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+  if (expected.length !== signature.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
@@ -0,0 +1,87 @@
+import Stripe from "npm:stripe@18.4.0";
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import { resolvePromoCode } from "../_shared/promo-codes.ts";
+import { resolvePlanPrice } from "../_shared/plan-prices.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface ValidatePromoCodeRequest {
+  code: string;
+  planType: 'monthly' | 'semiannual' | 'annual';
+  currency?: string;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    // Get the user
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+      apiVersion: '2023-10-16',
+    });
+
+    const { code, planType, currency }: ValidatePromoCodeRequest = await req.json();
+
+    if (!code || !planType) {
+      throw new Error('Promo code and plan type are required');
+    }
+
+    const plan = await resolvePlanPrice(supabaseClient, planType, { userId: user.id, currency });
+
+    const discount = await resolvePromoCode(stripe, supabaseClient, code, plan);
+
+    console.log('🎟️ Promo code validated:', {
+      userId: user.id,
+      code: code.trim().toUpperCase(),
+      planType,
+      valid: discount.valid,
+      source: discount.source,
+      discountAmount: discount.discountAmount
+    });
+
+    return new Response(
+      JSON.stringify({
+        ...discount,
+        currency: plan.currency,
+        totalAfterDiscount: discount.valid ? plan.amount - (discount.discountAmount || 0) : plan.amount
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Error validating promo code:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,169 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+import {
+  formatCurrency,
+  formatDate,
+  getReceiptTemplate,
+  verifyReceiptLink,
+  type ReceiptTemplate
+} from "../_shared/receipt/index.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+interface VerificationResult {
+  valid: boolean;
+  invoice?: {
+    invoice_number: string;
+    invoice_date: string;
+    status: string;
+    total: number;
+    amount_refunded: number;
+    currency: string;
+    billed_to: string;
+    issued_by: string;
+  };
+}
+
+// Public page behind the QR code on receipts. Confirms an invoice was issued by us and shows its
+// key figures; nothing else about the account is disclosed. Deploy with JWT verification disabled.
+// Responds with JSON when the client asks for it, otherwise with an HTML page.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const wantsJson = url.searchParams.get('format') === 'json' ||
+    (req.headers.get('Accept') || '').includes('application/json');
+
+  try {
+    const invoiceId = url.searchParams.get('invoice');
+    const signature = url.searchParams.get('signature');
+
+    const isValid = Boolean(invoiceId) && await verifyReceiptLink('verify', invoiceId!, null, signature);
+    let result: VerificationResult = { valid: false };
+
+    if (isValid) {
+      const supabase = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+
+      const { data: invoice } = await supabase
+        .from('invoices')
+        .select('invoice_number, invoice_date, status, total, amount_refunded, currency, restaurant_name, buyer_name')
+        .eq('id', invoiceId)
+        .maybeSingle();
+
+      if (invoice) {
+        result = {
+          valid: true,
+          invoice: {
+            invoice_number: invoice.invoice_number,
+            invoice_date: invoice.invoice_date,
+            status: invoice.status,
+            total: Number(invoice.total) || 0,
+            amount_refunded: Number(invoice.amount_refunded) || 0,
+            currency: invoice.currency || 'USD',
+            billed_to: invoice.buyer_name || invoice.restaurant_name || '',
+            issued_by: Deno.env.get('SELLER_NAME') || 'LEYLS'
+          }
+        };
+      }
+    }
+
+    console.log(result.valid ? '✅ Receipt verified:' : '⚠️ Receipt verification failed:', {
+      invoiceId,
+      invoiceNumber: result.invoice?.invoice_number
+    });
+
+    const status = result.valid ? 200 : 404;
+
+    if (wantsJson) {
+      return new Response(JSON.stringify(result), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(renderVerificationPage(result, getReceiptTemplate()), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('❌ Error verifying receipt:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
+
+function renderVerificationPage(result: VerificationResult, template: ReceiptTemplate): string {
+  const [r, g, b] = template.colors.accent;
+  const invoice = result.invoice;
+
+  const rows = invoice
+    ? [
+      ['Invoice number', invoice.invoice_number],
+      ['Issued by', invoice.issued_by],
+      ['Billed to', invoice.billed_to],
+      ['Invoice date', formatDate(invoice.invoice_date)],
+      ['Status', invoice.status.toUpperCase()],
+      ['Total', formatCurrency(invoice.total, invoice.currency)],
+      ...(invoice.amount_refunded > 0
+        ? [['Refunded', formatCurrency(invoice.amount_refunded, invoice.currency)]]
+        : [])
+    ]
+    : [];
+
+  const body = invoice
+    ? `<p class="result valid">&#10003; This is a genuine ${escapeHtml(template.brandName)} invoice.</p>
+      <table>${rows.map(([label, value]) =>
+        `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`
+    : `<p class="result invalid">&#10007; This receipt could not be verified.</p>
+      <p>The link is incomplete or the invoice was not issued by ${escapeHtml(template.brandName)}.
+      Please contact ${escapeHtml(template.supportEmail)} if you believe this is an error.</p>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Receipt verification - ${escapeHtml(template.brandName)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; background: #f3f4f6; color: #1f2937; margin: 0; padding: 24px; }
+    main { max-width: 480px; margin: 40px auto; background: #fff; border-radius: 16px; padding: 32px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); }
+    h1 { font-size: 20px; margin: 0 0 16px; color: rgb(${r}, ${g}, ${b}); }
+    .result { font-weight: 600; }
+    .valid { color: #059669; }
+    .invalid { color: #dc2626; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { text-align: left; padding: 8px 0; border-bottom: 1px solid #e5e7eb; font-size: 14px; }
+    th { color: #6b7280; font-weight: 500; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>${escapeHtml(template.brandName)} receipt verification</h1>
+    ${body}
+  </main>
+</body>
+</html>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -4,15 +4,28 @@ export interface Subscription {
   id: string;
   user_id: string;
   plan_type: 'trial' | 'monthly' | 'semiannual' | 'annual';
-  status: 'active' | 'expired' | 'cancelled' | 'past_due';
+  status: 'active' | 'expired' | 'cancelled' | 'past_due' | 'paused';
   stripe_subscription_id?: string;
   stripe_customer_id?: string;
+  currency?: string | null;
   current_period_start: string;
   current_period_end: string;
   created_at: string;
   updated_at: string;
   billing_period_text?: string;
   billing_period_accurate?: boolean;
+  cancel_at_period_end?: boolean;
+  scheduled_plan_type?: 'monthly' | 'semiannual' | 'annual' | null;
+  scheduled_change_at?: string | null;
+  past_due_since?: string | null;
+  access_restricted_at?: string | null;
+  paused_at?: string | null;
+  pause_resumes_at?: string | null;
+}
+
+export interface GracePeriod {
+  endsAt: string;
+  daysRemaining: number;
 }
 
 export interface PlanFeatures {
@@ -24,7 +37,426 @@ export interface PlanFeatures {
   apiAccess: boolean;
 }
 
+export interface PlanPrice {
+  plan_type: string;
+  currency: string;
+  amount: number;
+}
+
+export interface Plan {
+  id: string;
+  plan_type: 'trial' | 'monthly' | 'semiannual' | 'annual';
+  name: string;
+  description: string;
+  stripe_price_id?: string;
+  amount: number;
+  currency: string;
+  interval: 'day' | 'month' | 'year';
+  interval_count: number;
+  features: Partial<PlanFeatures>;
+  active: boolean;
+  sort_order: number;
+  prices?: PlanPrice[];
+}
+
+export interface PromoCodeValidation {
+  valid: boolean;
+  reason?: string;
+  source?: 'stripe' | 'local';
+  code?: string;
+  description?: string | null;
+  percentOff?: number | null;
+  amountOff?: number | null;
+  currency?: string;
+  duration?: string;
+  durationInMonths?: number | null;
+  discountAmount?: number;
+  totalAfterDiscount?: number;
+}
+
+export interface BillingProfile {
+  id?: string;
+  user_id: string;
+  legal_name: string | null;
+  tax_id: string | null;
+  address_line1: string | null;
+  address_line2: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  country: string | null;
+  billing_email?: string | null;
+}
+
+export interface CreditNote {
+  id: string;
+  invoice_id: string;
+  credit_note_number: string;
+  status: 'pending' | 'issued' | 'void';
+  amount: number;
+  tax: number;
+  currency: string;
+  reason: string | null;
+  issued_at: string | null;
+  created_at: string;
+}
+
+export interface InvoiceEmailDelivery {
+  recipient: string;
+  trigger: 'automatic' | 'resend';
+  status: 'sent' | 'failed';
+  created_at: string;
+}
+
+export interface InvoiceRecord {
+  id: string;
+  invoice_number: string;
+  status: string;
+  total: number;
+  amount_refunded: number;
+  currency: string;
+  invoice_date: string;
+  period_start: string;
+  period_end: string;
+  credit_notes: CreditNote[];
+  email_deliveries: InvoiceEmailDelivery[];
+}
+
+export interface Trial {
+  id: string;
+  user_id: string;
+  status: 'started' | 'reminder_sent' | 'extended' | 'converted' | 'expired';
+  started_at: string;
+  ends_at: string;
+  original_ends_at: string;
+  extended_days: number;
+  reminder_sent_at: string | null;
+  converted_at: string | null;
+  converted_plan_type: string | null;
+  expired_at: string | null;
+}
+
+export interface TrialConversionStats {
+  started: number;
+  active: number;
+  extended: number;
+  converted: number;
+  expired: number;
+  conversionRate: number;
+  avgDaysToConvert: number | null;
+}
+
+export interface SubscriptionEvent {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  event_type: 'created' | 'plan_changed' | 'status_changed' | 'renewed' | 'plan_change_scheduled' | 'cancellation_changed' | 'updated';
+  plan_type: string | null;
+  status: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  changes: Record<string, { from: unknown; to: unknown } | boolean>;
+  actor_type: 'webhook' | 'user' | 'support' | 'system';
+  actor_id: string | null;
+  stripe_event_id: string | null;
+  created_at: string;
+}
+
+export type CancellationReason =
+  | 'too_expensive'
+  | 'not_using'
+  | 'seasonal_closure'
+  | 'missing_features'
+  | 'switching_provider'
+  | 'technical_issues'
+  | 'other';
+
+export type RetentionOffer =
+  | {
+    type: 'discount';
+    code: string;
+    description: string | null;
+    percentOff: number | null;
+    amountOff: number | null;
+    currency?: string;
+    duration?: string;
+    durationInMonths?: number | null;
+  }
+  | { type: 'pause'; maxMonths: number };
+
+export interface ChurnReasonStats {
+  attempts: number;
+  cancelled: number;
+  retained: number;
+  retentionRate: number;
+  byReason: Array<{ reason: CancellationReason; attempts: number; cancelled: number; retained: number; offered: number }>;
+}
+
+export interface ReceiptLink {
+  url: string;
+  expiresAt: string;
+  verificationUrl: string | null;
+}
+
 export class SubscriptionService {
+  private static planCatalog: Plan[] | null = null;
+
+  static async getPlanCatalog(forceRefresh: boolean = false): Promise<Plan[]> {
+    if (this.planCatalog && !forceRefresh) {
+      return this.planCatalog;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('plans')
+        .select('*, prices:plan_prices(plan_type, currency, amount)')
+        .eq('active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+
+      this.planCatalog = data || [];
+      return this.planCatalog;
+    } catch (error: any) {
+      console.error('Error fetching plan catalog:', error);
+      return this.planCatalog || [];
+    }
+  }
+
+  static getPlan(planType: string): Plan | undefined {
+    return this.planCatalog?.find(plan => plan.plan_type === planType);
+  }
+
+  // Price of a plan in the given currency, falling back to the plan's base price
+  static getPlanPrice(planType: string, currency?: string | null): PlanPrice | undefined {
+    const plan = this.getPlan(planType);
+    if (!plan) return undefined;
+
+    const price = currency
+      ? plan.prices?.find(p => p.currency === currency.toUpperCase())
+      : undefined;
+
+    return price || { plan_type: plan.plan_type, currency: plan.currency, amount: plan.amount };
+  }
+
+  // Checks a promo code before checkout; pass the returned code as promoCode to
+  // create-checkout-session or create-payment to apply it
+  static async validatePromoCode(code: string, planType: string): Promise<PromoCodeValidation> {
+    try {
+      const { data, error } = await supabase.functions.invoke('validate-promo-code', {
+        body: { code, planType }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      return data as PromoCodeValidation;
+    } catch (error: any) {
+      console.error('Error validating promo code:', error);
+      return { valid: false, reason: error.message || 'Failed to validate promo code' };
+    }
+  }
+
+  static async getBillingProfile(userId: string): Promise<BillingProfile | null> {
+    try {
+      const { data, error } = await supabase
+        .from('billing_profiles')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error: any) {
+      console.error('Error fetching billing profile:', error);
+      return null;
+    }
+  }
+
+  static async getInvoices(userId: string): Promise<InvoiceRecord[]> {
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select(`
+          id, invoice_number, status, total, amount_refunded, currency, invoice_date, period_start, period_end,
+          credit_notes(*),
+          email_deliveries:invoice_email_deliveries(recipient, trigger, status, created_at)
+        `)
+        .eq('user_id', userId)
+        .order('invoice_date', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error: any) {
+      console.error('Error fetching invoices:', error);
+      return [];
+    }
+  }
+
+  // Emails the receipt again to the billing contact; returns the address it was sent to
+  static async resendInvoiceEmail(invoiceId: string): Promise<string> {
+    const { data, error } = await supabase.functions.invoke('send-invoice-email', {
+      body: { invoiceId }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.recipient;
+  }
+
+  // Link that opens the PDF without logging in until it expires, for forwarding to an accountant.
+  // Invoices also get a permanent verification URL.
+  static async createReceiptLink(
+    document: { invoiceId?: string; creditNoteId?: string },
+    expiresInHours?: number
+  ): Promise<ReceiptLink> {
+    const { data, error } = await supabase.functions.invoke('create-receipt-link', {
+      body: { ...document, expiresInHours }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return { url: data.url, expiresAt: data.expiresAt, verificationUrl: data.verificationUrl };
+  }
+
+  static async getTrial(userId: string): Promise<Trial | null> {
+    const { data, error } = await supabase
+      .from('trials')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching trial:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  // Support staff only; extends from the current end, or from today if the trial already expired
+  static async extendTrial(userId: string, days: number, reason?: string): Promise<Trial> {
+    const { data, error } = await supabase.functions.invoke('extend-trial', {
+      body: { userId, days, reason }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.trial;
+  }
+
+  // Stops billing for 1-3 months; the dashboard is read-only until the returned resume date
+  static async pauseSubscription(months: number): Promise<string> {
+    const { data, error } = await supabase.functions.invoke('pause-subscription', {
+      body: { months }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.resumesAt;
+  }
+
+  static async resumeSubscription(): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('resume-subscription', {
+      body: {}
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+  }
+
+  static async getSubscriptionHistory(userId: string): Promise<SubscriptionEvent[]> {
+    const { data, error } = await supabase
+      .from('subscription_events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching subscription history:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  // Support staff only; any owner's history
+  static async getCustomerSubscriptionHistory(userId: string, limit?: number): Promise<SubscriptionEvent[]> {
+    const { data, error } = await supabase.functions.invoke('get-subscription-history', {
+      body: { userId, limit }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.events;
+  }
+
+  // First step of cancelling: records the reason and returns a retention offer, if there is one
+  static async startCancellation(
+    reason: CancellationReason,
+    feedback?: string
+  ): Promise<{ feedbackId: string; offer: RetentionOffer | null }> {
+    const { data, error } = await supabase.functions.invoke('cancel-subscription', {
+      body: { action: 'start', reason, feedback }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return { feedbackId: data.feedbackId, offer: data.offer };
+  }
+
+  // months only applies to a pause offer
+  static async acceptRetentionOffer(feedbackId: string, months?: number): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('cancel-subscription', {
+      body: { action: 'accept_offer', feedbackId, months }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+  }
+
+  static async confirmCancellation(feedbackId: string): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('cancel-subscription', {
+      body: { action: 'cancel', feedbackId }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+  }
+
+  // Support staff only; amount is in cents and defaults to the invoice's refundable balance
+  static async issueRefund(invoiceId: string, amount?: number, reason?: string): Promise<CreditNote> {
+    const { data, error } = await supabase.functions.invoke('issue-refund', {
+      body: { invoiceId, amount, reason }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.creditNote;
+  }
+
+  static async saveBillingProfile(profile: BillingProfile): Promise<BillingProfile> {
+    const { data, error } = await supabase
+      .from('billing_profiles')
+      .upsert({
+        ...profile,
+        tax_id: profile.tax_id?.replace(/\s+/g, '').toUpperCase() || null,
+        billing_email: profile.billing_email?.trim().toLowerCase() || null,
+        country: profile.country?.trim().toUpperCase() || null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving billing profile:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
   static async createSubscription(
     userId: string,
     planType: 'trial' | 'monthly' | 'semiannual' | 'annual',
@@ -40,6 +472,7 @@ export class SubscriptionService {
       
       switch (planType) {
         case 'trial':
+          // The trials row tracking reminders, extensions and conversion is created by a trigger
           periodEnd.setDate(periodEnd.getDate() + 30);
           break;
         case 'monthly':
@@ -182,7 +615,7 @@ export class SubscriptionService {
 
   static async updateSubscriptionStatus(
     subscriptionId: string,
-    status: 'active' | 'expired' | 'cancelled' | 'past_due'
+    status: 'active' | 'expired' | 'cancelled' | 'past_due' | 'paused'
   ): Promise<void> {
     try {
       const { error: updateError } = await supabase
@@ -206,12 +639,25 @@ export class SubscriptionService {
     isCancelled?: boolean;
     billingPeriodText?: string;
     billingPeriodAccurate?: boolean;
+    gracePeriod?: GracePeriod | null;
+    isRestricted?: boolean;
+    isPaused?: boolean;
+    pausedUntil?: string | null;
   }> {
     try {
       console.log('🔍 Checking subscription access for user:', userId);
+      await this.getPlanCatalog();
       const subscription = await this.getUserSubscription(userId);
       console.log('📊 Raw subscription data:', subscription);
-      return this.fallbackAccessCheck(subscription);
+
+      // Past-due subscriptions keep access until the dunning grace period ends
+      let gracePeriodDays: number | null = null;
+      if (subscription?.status === 'past_due' && subscription.past_due_since && !subscription.access_restricted_at) {
+        const { data } = await supabase.rpc('get_dunning_grace_period_days');
+        gracePeriodDays = data ?? null;
+      }
+
+      return this.fallbackAccessCheck(subscription, gracePeriodDays);
     } catch (error: any) {
       console.error('Error checking subscription access:', error);
       return {
@@ -227,7 +673,7 @@ export class SubscriptionService {
     }
   }
 
-  private static fallbackAccessCheck(subscription: Subscription | null) {
+  private static fallbackAccessCheck(subscription: Subscription | null, gracePeriodDays: number | null = null) {
     console.log('🔍 Fallback access check for subscription:', subscription);
     
     if (!subscription) {
@@ -248,8 +694,24 @@ export class SubscriptionService {
     const endDate = new Date(subscription.current_period_end);
     const isExpired = endDate <= now;
     const isCancelled = subscription.status === 'cancelled' || subscription.cancel_at_period_end === true;
-    const hasAccess = (subscription.status === 'active' || (isCancelled && !isExpired)) && endDate > now;
     const daysRemaining = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+
+    let gracePeriod: GracePeriod | null = null;
+    if (gracePeriodDays !== null && subscription.past_due_since) {
+      const graceEnd = new Date(new Date(subscription.past_due_since).getTime() + gracePeriodDays * 24 * 60 * 60 * 1000);
+      if (graceEnd > now) {
+        gracePeriod = {
+          endsAt: graceEnd.toISOString(),
+          daysRemaining: Math.ceil((graceEnd.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
+        };
+      }
+    }
+
+    const isRestricted = subscription.status === 'past_due' && !gracePeriod;
+    // Paused subscriptions keep read-only access to their data until billing resumes
+    const isPaused = subscription.status === 'paused';
+    const hasAccess = isPaused ||
+      ((subscription.status === 'active' || (isCancelled && !isExpired) || gracePeriod !== null) && endDate > now);
     
     // Use database billing period text if available, otherwise generate fallback
     let billingPeriodText = subscription.billing_period_text;
@@ -269,18 +731,25 @@ export class SubscriptionService {
       daysRemaining,
       endDate: endDate.toISOString(),
       billingPeriodText,
-      billingPeriodAccurate
+      billingPeriodAccurate,
+      gracePeriod,
+      isRestricted,
+      isPaused
     });
 
     return {
       hasAccess,
       subscription,
-      features: this.getPlanFeatures(subscription.plan_type),
+      features: isRestricted ? this.getTrialFeatures() : this.getPlanFeatures(subscription.plan_type),
       daysRemaining: Math.max(0, daysRemaining),
       isExpired,
       isCancelled,
       billingPeriodText,
-      billingPeriodAccurate
+      billingPeriodAccurate,
+      gracePeriod,
+      isRestricted,
+      isPaused,
+      pausedUntil: isPaused ? subscription.pause_resumes_at ?? null : null
     };
   }
 
@@ -302,6 +771,12 @@ export class SubscriptionService {
   }
 
   static getPlanFeatures(planType: 'trial' | 'monthly' | 'semiannual' | 'annual'): PlanFeatures {
+    // Prefer the plan catalog; the defaults below only apply until it has been loaded
+    const plan = this.getPlan(planType);
+    if (plan) {
+      return { ...this.getDefaultTrialFeatures(), ...plan.features };
+    }
+
     switch (planType) {
       case 'trial': return this.getTrialFeatures();
       case 'monthly':
@@ -320,6 +795,15 @@ export class SubscriptionService {
   }
 
   private static getTrialFeatures(): PlanFeatures {
+    const trialPlan = this.getPlan('trial');
+    if (trialPlan) {
+      return { ...this.getDefaultTrialFeatures(), ...trialPlan.features };
+    }
+
+    return this.getDefaultTrialFeatures();
+  }
+
+  private static getDefaultTrialFeatures(): PlanFeatures {
     return {
       maxCustomers: 100,
       maxBranches: 1,
@@ -358,23 +842,70 @@ export class SubscriptionService {
     trial: number;
     paid: number;
     revenue: number;
+    reportingCurrency: string;
+    revenueByCurrency: Array<{ currency: string; amount: number; converted: number | null }>;
     churnRate: number;
+    trialConversion: TrialConversionStats;
+    churnReasons: ChurnReasonStats;
   }> {
+    const emptyTrialConversion: TrialConversionStats = {
+      started: 0, active: 0, extended: 0, converted: 0, expired: 0, conversionRate: 0, avgDaysToConvert: null
+    };
+    const emptyChurnReasons: ChurnReasonStats = {
+      attempts: 0, cancelled: 0, retained: 0, retentionRate: 0, byReason: []
+    };
+
     try {
       const { data, error: rpcError } = await supabase.rpc('get_subscription_statistics');
       if (rpcError) throw rpcError;
 
+      // Revenue is summed across currencies, so report it converted to one currency.
+      // Platform-wide figures are served to support staff by get-subscription-stats.
+      const { data: platformStats, error: platformStatsError } = await supabase.functions.invoke('get-subscription-stats');
+      if (platformStatsError || platformStats?.error) {
+        console.error('Error fetching platform subscription stats:', platformStatsError || platformStats.error);
+      }
+      const revenue = platformStats?.revenue;
+      const trials = platformStats?.trialConversion;
+      const churn = platformStats?.churnReasons;
+
       return {
         total: data.total || 0,
         active: data.active || 0,
         trial: data.trial || 0,
         paid: data.paid || 0,
-        revenue: data.totalRevenue || 0,
-        churnRate: data.churnRate || 0
+        revenue: revenue ? Number(revenue.total_revenue) || 0 : data.totalRevenue || 0,
+        reportingCurrency: revenue?.reporting_currency || 'USD',
+        revenueByCurrency: revenue?.by_currency || [],
+        churnRate: data.churnRate || 0,
+        trialConversion: trials
+          ? {
+            started: trials.started || 0,
+            active: trials.active || 0,
+            extended: trials.extended || 0,
+            converted: trials.converted || 0,
+            expired: trials.expired || 0,
+            conversionRate: Number(trials.conversion_rate) || 0,
+            avgDaysToConvert: trials.avg_days_to_convert != null ? Number(trials.avg_days_to_convert) : null
+          }
+          : emptyTrialConversion,
+        churnReasons: churn
+          ? {
+            attempts: Number(churn.attempts) || 0,
+            cancelled: Number(churn.cancelled) || 0,
+            retained: Number(churn.retained) || 0,
+            retentionRate: Number(churn.retention_rate) || 0,
+            byReason: churn.by_reason || []
+          }
+          : emptyChurnReasons
       };
     } catch (error: any) {
       console.error('Error fetching subscription stats:', error);
-      return { total: 0, active: 0, trial: 0, paid: 0, revenue: 0, churnRate: 0 };
+      return {
+        total: 0, active: 0, trial: 0, paid: 0, revenue: 0, reportingCurrency: 'USD', revenueByCurrency: [], churnRate: 0,
+        trialConversion: emptyTrialConversion,
+        churnReasons: emptyChurnReasons
+      };
     }
   }
 
@@ -0,0 +1,359 @@
+/*
+  # Stripe Webhook Event Ledger
+
+  1. Problem
+    - stripe-webhook passed every delivery straight to handle_subscription_webhook
+    - event.id was never recorded, so Stripe retries replayed state changes and regenerated invoices
+    - Out-of-order deliveries could overwrite a newer subscription state with an older one
+
+  2. New Tables
+    - `stripe_webhook_events`: one row per Stripe event id with type, payload hash,
+      processing status, attempt count and the last processing result
+
+  3. New Functions
+    - `begin_stripe_webhook_event`: records a delivery and decides whether it should be processed
+    - `complete_stripe_webhook_event`: stores the final status and result of a delivery
+
+  4. Changes
+    - `subscriptions.last_stripe_event_at` / `last_stripe_event_id` track the last applied Stripe event
+    - `handle_subscription_webhook` accepts the Stripe event id and creation time and ignores
+      events older than the last applied state
+
+  5. Security
+    - Ledger and its functions are only accessible to the service role
+*/
+
+CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+  id text PRIMARY KEY,
+  event_type text NOT NULL,
+  payload_hash text NOT NULL,
+  status text NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'processed', 'failed', 'ignored', 'stale')),
+  attempts integer NOT NULL DEFAULT 1,
+  result jsonb,
+  stripe_created_at timestamptz NOT NULL,
+  first_received_at timestamptz NOT NULL DEFAULT NOW(),
+  last_received_at timestamptz NOT NULL DEFAULT NOW(),
+  processed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_status
+  ON stripe_webhook_events (status, last_received_at);
+
+ALTER TABLE stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access" ON stripe_webhook_events;
+
+CREATE POLICY "Service role full access"
+  ON stripe_webhook_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS last_stripe_event_at timestamptz;
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS last_stripe_event_id text;
+
+-- Record a webhook delivery and decide whether it should be processed
+CREATE OR REPLACE FUNCTION public.begin_stripe_webhook_event(
+  p_event_id text,
+  p_event_type text,
+  p_payload_hash text,
+  p_event_created timestamptz
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_event stripe_webhook_events%ROWTYPE;
+BEGIN
+  INSERT INTO stripe_webhook_events (
+    id,
+    event_type,
+    payload_hash,
+    status,
+    attempts,
+    stripe_created_at
+  ) VALUES (
+    p_event_id,
+    p_event_type,
+    p_payload_hash,
+    'processing',
+    1,
+    p_event_created
+  )
+  ON CONFLICT (id) DO NOTHING
+  RETURNING * INTO v_event;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'should_process', true,
+      'status', v_event.status,
+      'attempts', v_event.attempts,
+      'payload_changed', false
+    );
+  END IF;
+
+  SELECT * INTO v_event
+  FROM stripe_webhook_events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  -- Already settled: Stripe is retrying a delivery we handled
+  IF v_event.status IN ('processed', 'ignored', 'stale') THEN
+    UPDATE stripe_webhook_events
+    SET last_received_at = NOW()
+    WHERE id = p_event_id;
+
+    RETURN jsonb_build_object(
+      'should_process', false,
+      'status', v_event.status,
+      'attempts', v_event.attempts,
+      'payload_changed', v_event.payload_hash <> p_payload_hash
+    );
+  END IF;
+
+  -- Another delivery of the same event is still in flight. The caller answers with an error so
+  -- Stripe keeps retrying in case that delivery dies.
+  IF v_event.status = 'processing' AND v_event.last_received_at > NOW() - INTERVAL '2 minutes' THEN
+    RETURN jsonb_build_object(
+      'should_process', false,
+      'status', v_event.status,
+      'attempts', v_event.attempts,
+      'payload_changed', v_event.payload_hash <> p_payload_hash
+    );
+  END IF;
+
+  -- Failed or abandoned: try again
+  UPDATE stripe_webhook_events
+  SET
+    status = 'processing',
+    attempts = attempts + 1,
+    payload_hash = p_payload_hash,
+    last_received_at = NOW()
+  WHERE id = p_event_id
+  RETURNING * INTO v_event;
+
+  RETURN jsonb_build_object(
+    'should_process', true,
+    'status', v_event.status,
+    'attempts', v_event.attempts,
+    'payload_changed', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Store the outcome of a webhook delivery
+CREATE OR REPLACE FUNCTION public.complete_stripe_webhook_event(
+  p_event_id text,
+  p_status text,
+  p_result jsonb DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE stripe_webhook_events
+  SET
+    status = p_status,
+    result = p_result,
+    processed_at = CASE WHEN p_status = 'failed' THEN processed_at ELSE NOW() END
+  WHERE id = p_event_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Webhook event not found in ledger: %', p_event_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.begin_stripe_webhook_event(text, text, text, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_stripe_webhook_event(text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.begin_stripe_webhook_event(text, text, text, timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_stripe_webhook_event(text, text, jsonb) TO service_role;
+
+DROP FUNCTION IF EXISTS public.handle_subscription_webhook(uuid, text, text, text, text, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.handle_subscription_webhook(
+  p_user_id uuid,
+  p_plan_type text,
+  p_status text,
+  p_stripe_subscription_id text DEFAULT NULL,
+  p_stripe_customer_id text DEFAULT NULL,
+  p_period_start timestamptz DEFAULT NULL,
+  p_period_end timestamptz DEFAULT NULL,
+  p_stripe_event_id text DEFAULT NULL,
+  p_event_created timestamptz DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_subscription_id uuid;
+  v_last_event_at timestamptz;
+  v_period_start timestamptz;
+  v_period_end timestamptz;
+  v_plan_type subscription_plan_type;
+  v_status subscription_status;
+  v_invoice_id uuid;
+  v_duration_days integer;
+  v_billing_period_text text;
+  v_is_accurate boolean;
+  result jsonb;
+BEGIN
+  RAISE NOTICE 'Processing subscription webhook for user: %, plan: %, status: %', p_user_id, p_plan_type, p_status;
+
+  -- Validate and cast plan type
+  BEGIN
+    v_plan_type := p_plan_type::subscription_plan_type;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid plan type: %. Must be one of: trial, monthly, semiannual, annual', p_plan_type;
+  END;
+
+  -- Validate and cast status
+  BEGIN
+    v_status := p_status::subscription_status;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid status: %. Must be one of: active, expired, cancelled, past_due', p_status;
+  END;
+
+  -- Check if subscription exists
+  SELECT id, last_stripe_event_at INTO v_subscription_id, v_last_event_at
+  FROM subscriptions
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- Ignore Stripe events older than the state already applied
+  IF p_event_created IS NOT NULL AND v_last_event_at IS NOT NULL AND p_event_created < v_last_event_at THEN
+    RAISE NOTICE 'Skipping stale event % (created %, last applied %)', p_stripe_event_id, p_event_created, v_last_event_at;
+
+    RETURN jsonb_build_object(
+      'skipped', true,
+      'reason', 'stale_event',
+      'subscription_id', v_subscription_id,
+      'user_id', p_user_id,
+      'event_created', p_event_created,
+      'last_applied_event_at', v_last_event_at
+    );
+  END IF;
+
+  -- Calculate periods if not provided
+  v_period_start := COALESCE(p_period_start, NOW());
+
+  IF p_period_end IS NULL THEN
+    CASE v_plan_type
+      WHEN 'trial' THEN
+        v_period_end := v_period_start + INTERVAL '30 days';
+      WHEN 'monthly' THEN
+        v_period_end := v_period_start + INTERVAL '1 month';
+      WHEN 'semiannual' THEN
+        v_period_end := v_period_start + INTERVAL '6 months';
+      WHEN 'annual' THEN
+        v_period_end := v_period_start + INTERVAL '1 year';
+    END CASE;
+  ELSE
+    v_period_end := p_period_end;
+  END IF;
+
+  -- Calculate duration and billing period text
+  v_duration_days := EXTRACT(DAY FROM (v_period_end - v_period_start))::integer;
+
+  v_billing_period_text := TO_CHAR(v_period_start, 'Mon DD, YYYY') || ' - ' ||
+                          TO_CHAR(v_period_end, 'Mon DD, YYYY') ||
+                          ' (' || v_duration_days || ' days)';
+
+  -- Determine if period is accurate
+  v_is_accurate := CASE v_plan_type
+    WHEN 'monthly' THEN v_duration_days BETWEEN 28 AND 31
+    WHEN 'semiannual' THEN v_duration_days BETWEEN 180 AND 186
+    WHEN 'annual' THEN v_duration_days BETWEEN 360 AND 370
+    WHEN 'trial' THEN v_duration_days BETWEEN 28 AND 32
+    ELSE true
+  END;
+
+  IF v_subscription_id IS NOT NULL THEN
+    -- Update existing subscription
+    UPDATE subscriptions
+    SET
+      plan_type = v_plan_type,
+      status = v_status,
+      stripe_subscription_id = COALESCE(p_stripe_subscription_id, stripe_subscription_id),
+      stripe_customer_id = COALESCE(p_stripe_customer_id, stripe_customer_id),
+      current_period_start = v_period_start,
+      current_period_end = v_period_end,
+      billing_period_text = v_billing_period_text,
+      billing_period_accurate = v_is_accurate,
+      last_stripe_event_at = COALESCE(p_event_created, last_stripe_event_at),
+      last_stripe_event_id = COALESCE(p_stripe_event_id, last_stripe_event_id),
+      updated_at = NOW()
+    WHERE id = v_subscription_id;
+
+    RAISE NOTICE 'Updated existing subscription: %', v_subscription_id;
+  ELSE
+    -- Create new subscription
+    INSERT INTO subscriptions (
+      user_id,
+      plan_type,
+      status,
+      stripe_subscription_id,
+      stripe_customer_id,
+      current_period_start,
+      current_period_end,
+      billing_period_text,
+      billing_period_accurate,
+      last_stripe_event_at,
+      last_stripe_event_id,
+      created_at,
+      updated_at
+    ) VALUES (
+      p_user_id,
+      v_plan_type,
+      v_status,
+      p_stripe_subscription_id,
+      p_stripe_customer_id,
+      v_period_start,
+      v_period_end,
+      v_billing_period_text,
+      v_is_accurate,
+      p_event_created,
+      p_stripe_event_id,
+      NOW(),
+      NOW()
+    ) RETURNING id INTO v_subscription_id;
+
+    RAISE NOTICE 'Created new subscription: %', v_subscription_id;
+  END IF;
+
+  -- Generate invoice if status is active or paid
+  IF v_status IN ('active'::subscription_status, 'paid'::subscription_status) THEN
+    BEGIN
+      v_invoice_id := generate_invoice_for_subscription(
+        v_subscription_id,
+        p_user_id,
+        v_plan_type::text,
+        v_period_start,
+        v_period_end,
+        p_stripe_subscription_id
+      );
+      RAISE NOTICE 'Invoice generated successfully: %', v_invoice_id;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Failed to generate invoice: %', SQLERRM;
+    END;
+  END IF;
+
+  -- Return result
+  result := jsonb_build_object(
+    'subscription_id', v_subscription_id,
+    'invoice_id', v_invoice_id,
+    'user_id', p_user_id,
+    'plan_type', v_plan_type::text,
+    'status', v_status::text,
+    'period_start', v_period_start,
+    'period_end', v_period_end,
+    'billing_period_text', v_billing_period_text,
+    'billing_period_accurate', v_is_accurate,
+    'duration_days', v_duration_days,
+    'stripe_event_id', p_stripe_event_id,
+    'processed_at', NOW()
+  );
+
+  RAISE NOTICE 'Webhook processing complete: %', result;
+  RETURN result;
+
+EXCEPTION WHEN OTHERS THEN
+  RAISE EXCEPTION 'Webhook processing failed: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,138 @@
+/*
+  # Dead-Letter Queue for Failed Stripe Webhook Events
+
+  1. Problem
+    - When a webhook handler failed, the event was only logged to the console and lost
+    - Support had to wait for Stripe to retry before a customer stuck in the wrong
+      subscription state could be recovered
+
+  2. New Tables
+    - `stripe_webhook_dead_letters`: one row per failed Stripe event with the original payload,
+      the failed WebhookProcessingResult and replay bookkeeping
+
+  3. New Functions
+    - `record_stripe_webhook_failure`: stores or refreshes the dead letter for a failed event
+    - `resolve_stripe_webhook_dead_letter`: marks the dead letter resolved once the event succeeds,
+      either through a Stripe retry or a manual replay
+
+  4. Security
+    - Dead letters contain raw Stripe payloads and are only accessible to the service role
+    - Both functions can only be called with the service role
+    - A replay that turns out stale leaves the dead letter pending: nothing was applied, so the
+      customer may still be in the wrong state
+*/
+
+CREATE TABLE IF NOT EXISTS stripe_webhook_dead_letters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id text NOT NULL UNIQUE REFERENCES stripe_webhook_events(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  action text,
+  error text,
+  result jsonb,
+  user_id uuid,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved')),
+  failure_count integer NOT NULL DEFAULT 1,
+  replay_count integer NOT NULL DEFAULT 0,
+  last_failed_at timestamptz NOT NULL DEFAULT NOW(),
+  last_replayed_at timestamptz,
+  resolved_at timestamptz,
+  resolved_by text CHECK (resolved_by IN ('stripe_retry', 'replay')),
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_dead_letters_pending
+  ON stripe_webhook_dead_letters (status, last_failed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_dead_letters_user
+  ON stripe_webhook_dead_letters (user_id);
+
+ALTER TABLE stripe_webhook_dead_letters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access" ON stripe_webhook_dead_letters;
+
+CREATE POLICY "Service role full access"
+  ON stripe_webhook_dead_letters
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Store or refresh the dead letter for a failed event
+CREATE OR REPLACE FUNCTION public.record_stripe_webhook_failure(
+  p_event_id text,
+  p_event_type text,
+  p_payload jsonb,
+  p_result jsonb,
+  p_user_id uuid DEFAULT NULL,
+  p_is_replay boolean DEFAULT false
+)
+RETURNS uuid AS $$
+DECLARE
+  v_dead_letter_id uuid;
+BEGIN
+  INSERT INTO stripe_webhook_dead_letters (
+    event_id,
+    event_type,
+    payload,
+    action,
+    error,
+    result,
+    user_id,
+    replay_count,
+    last_replayed_at
+  ) VALUES (
+    p_event_id,
+    p_event_type,
+    p_payload,
+    p_result->>'action',
+    p_result->>'error',
+    p_result,
+    p_user_id,
+    CASE WHEN p_is_replay THEN 1 ELSE 0 END,
+    CASE WHEN p_is_replay THEN NOW() ELSE NULL END
+  )
+  ON CONFLICT (event_id) DO UPDATE SET
+    action = EXCLUDED.action,
+    error = EXCLUDED.error,
+    result = EXCLUDED.result,
+    user_id = COALESCE(EXCLUDED.user_id, stripe_webhook_dead_letters.user_id),
+    status = 'pending',
+    failure_count = stripe_webhook_dead_letters.failure_count + 1,
+    replay_count = stripe_webhook_dead_letters.replay_count + EXCLUDED.replay_count,
+    last_failed_at = NOW(),
+    last_replayed_at = COALESCE(EXCLUDED.last_replayed_at, stripe_webhook_dead_letters.last_replayed_at),
+    resolved_at = NULL,
+    resolved_by = NULL,
+    updated_at = NOW()
+  RETURNING id INTO v_dead_letter_id;
+
+  RETURN v_dead_letter_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mark the dead letter for an event as resolved
+CREATE OR REPLACE FUNCTION public.resolve_stripe_webhook_dead_letter(
+  p_event_id text,
+  p_resolved_by text
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE stripe_webhook_dead_letters
+  SET
+    status = 'resolved',
+    resolved_at = NOW(),
+    resolved_by = p_resolved_by,
+    replay_count = replay_count + CASE WHEN p_resolved_by = 'replay' THEN 1 ELSE 0 END,
+    last_replayed_at = CASE WHEN p_resolved_by = 'replay' THEN NOW() ELSE last_replayed_at END,
+    updated_at = NOW()
+  WHERE event_id = p_event_id
+    AND status = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.record_stripe_webhook_failure(text, text, jsonb, jsonb, uuid, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.resolve_stripe_webhook_dead_letter(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_stripe_webhook_failure(text, text, jsonb, jsonb, uuid, boolean) TO service_role;
+GRANT EXECUTE ON FUNCTION public.resolve_stripe_webhook_dead_letter(text, text) TO service_role;
@@ -0,0 +1,263 @@
+/*
+  # Plan Catalog
+
+  1. Problem
+    - Stripe price IDs were read from STRIPE_*_PRICE_ID env vars in create-payment,
+      create-checkout-session and reactivate-subscription
+    - Plan amounts were hard-coded in create-payment and get_plan_amount
+    - Plan features were hard-coded in SubscriptionService.getPlanFeatures
+    - Adding or repricing a plan needed code changes in five places
+
+  2. New Tables
+    - `plans`: one row per plan with Stripe price id, amount (in cents), currency,
+      billing interval, features JSON and an active flag
+
+  3. Changes
+    - `get_plan_amount`, `get_plan_description` and the new `get_plan_currency` read from `plans`
+    - `generate_invoice_for_subscription` takes the invoice currency from the plan
+
+  4. Security
+    - Active plans are readable by everyone (pricing page, checkout)
+    - Only the service role can modify the catalog
+
+  5. Deployment
+    - Copy the values of STRIPE_MONTHLY_PRICE_ID, STRIPE_SEMIANNUAL_PRICE_ID and
+      STRIPE_ANNUAL_PRICE_ID into `plans.stripe_price_id` after applying this migration
+*/
+
+CREATE TABLE IF NOT EXISTS plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_type text NOT NULL UNIQUE,
+  name text NOT NULL,
+  description text NOT NULL,
+  stripe_price_id text UNIQUE,
+  amount integer NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  currency text NOT NULL DEFAULT 'USD',
+  interval text NOT NULL CHECK (interval IN ('day', 'month', 'year')),
+  interval_count integer NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+  features jsonb NOT NULL DEFAULT '{}'::jsonb,
+  active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO plans (plan_type, name, description, amount, currency, interval, interval_count, features, sort_order)
+VALUES
+  (
+    'trial',
+    'Free Trial',
+    '30-Day Free Trial',
+    0,
+    'USD',
+    'day',
+    30,
+    '{"maxCustomers": 100, "maxBranches": 1, "advancedAnalytics": false, "prioritySupport": false, "customBranding": false, "apiAccess": false}',
+    0
+  ),
+  (
+    'monthly',
+    'Monthly Plan',
+    'Monthly Subscription - Full Access',
+    299,
+    'USD',
+    'month',
+    1,
+    '{"maxCustomers": -1, "maxBranches": -1, "advancedAnalytics": true, "prioritySupport": true, "customBranding": false, "apiAccess": false}',
+    1
+  ),
+  (
+    'semiannual',
+    '6-Month Plan',
+    '6-Month Subscription - Full Access',
+    999,
+    'USD',
+    'month',
+    6,
+    '{"maxCustomers": -1, "maxBranches": -1, "advancedAnalytics": true, "prioritySupport": true, "customBranding": true, "apiAccess": true}',
+    2
+  ),
+  (
+    'annual',
+    'Annual Plan',
+    'Annual Subscription - Full Access + White Label',
+    1999,
+    'USD',
+    'year',
+    1,
+    '{"maxCustomers": -1, "maxBranches": -1, "advancedAnalytics": true, "prioritySupport": true, "customBranding": true, "apiAccess": true}',
+    3
+  )
+ON CONFLICT (plan_type) DO NOTHING;
+
+ALTER TABLE plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read active plans" ON plans;
+DROP POLICY IF EXISTS "Service role full access" ON plans;
+
+CREATE POLICY "Anyone can read active plans"
+  ON plans
+  FOR SELECT
+  TO anon, authenticated
+  USING (active = true);
+
+CREATE POLICY "Service role full access"
+  ON plans
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Function to get plan pricing
+CREATE OR REPLACE FUNCTION get_plan_amount(plan_type TEXT)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(
+    (SELECT p.amount FROM plans p WHERE p.plan_type = get_plan_amount.plan_type),
+    0
+  )::NUMERIC;
+$$ LANGUAGE sql STABLE;
+
+-- Function to get plan description
+CREATE OR REPLACE FUNCTION get_plan_description(plan_type TEXT)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT p.description FROM plans p WHERE p.plan_type = get_plan_description.plan_type),
+    'Subscription'
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Function to get plan currency
+CREATE OR REPLACE FUNCTION get_plan_currency(plan_type TEXT)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT UPPER(p.currency) FROM plans p WHERE p.plan_type = get_plan_currency.plan_type),
+    'USD'
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Main function to generate invoice for subscription
+CREATE OR REPLACE FUNCTION generate_invoice_for_subscription(
+  p_subscription_id UUID,
+  p_user_id UUID,
+  p_plan_type TEXT,
+  p_period_start TIMESTAMPTZ,
+  p_period_end TIMESTAMPTZ,
+  p_stripe_payment_intent_id TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_invoice_number TEXT;
+  v_amount NUMERIC;
+  v_currency TEXT;
+  v_restaurant_id UUID;
+  v_restaurant_name TEXT;
+BEGIN
+  -- Get restaurant info
+  SELECT id, name
+  INTO v_restaurant_id, v_restaurant_name
+  FROM restaurants
+  WHERE owner_id = p_user_id
+  LIMIT 1;
+
+  -- If no restaurant found, use user email
+  IF v_restaurant_name IS NULL THEN
+    SELECT email INTO v_restaurant_name
+    FROM auth.users
+    WHERE id = p_user_id;
+  END IF;
+
+  -- Calculate amount
+  v_amount := get_plan_amount(p_plan_type);
+  v_currency := get_plan_currency(p_plan_type);
+
+  -- Generate invoice number
+  v_invoice_number := generate_invoice_number();
+
+  -- Create or update invoice
+  INSERT INTO invoices (
+    id,
+    user_id,
+    subscription_id,
+    invoice_number,
+    status,
+    subtotal,
+    tax,
+    discount,
+    total,
+    currency,
+    invoice_date,
+    due_date,
+    paid_at,
+    period_start,
+    period_end,
+    payment_method,
+    stripe_payment_intent_id,
+    description,
+    restaurant_id,
+    restaurant_name,
+    metadata,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    p_user_id,
+    p_subscription_id,
+    v_invoice_number,
+    'paid',
+    v_amount,
+    0,
+    0,
+    v_amount,
+    v_currency,
+    NOW(),
+    NOW(),
+    NOW(),
+    p_period_start,
+    p_period_end,
+    'Card',
+    p_stripe_payment_intent_id,
+    get_plan_description(p_plan_type),
+    v_restaurant_id,
+    COALESCE(v_restaurant_name, 'Customer'),
+    jsonb_build_object(
+      'plan_type', p_plan_type,
+      'auto_generated', true
+    ),
+    NOW(),
+    NOW()
+  )
+  ON CONFLICT (subscription_id, period_start)
+  DO UPDATE SET
+    status = EXCLUDED.status,
+    paid_at = EXCLUDED.paid_at,
+    updated_at = NOW()
+  RETURNING id INTO v_invoice_id;
+
+  -- Create line item for the invoice
+  INSERT INTO invoice_line_items (
+    id,
+    invoice_id,
+    description,
+    quantity,
+    unit_price,
+    amount,
+    item_type,
+    created_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    v_invoice_id,
+    get_plan_description(p_plan_type),
+    1,
+    v_amount,
+    v_amount,
+    'subscription',
+    NOW()
+  )
+  ON CONFLICT DO NOTHING;
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,179 @@
+/*
+  # Enforce Plan Limits Server-Side
+
+  1. Problem
+    - maxCustomers and maxBranches from the plan catalog were only checked in the dashboard
+    - A trial restaurant could add unlimited customers or branches straight through the API
+
+  2. New Functions
+    - `resolve_restaurant_plan_features`: effective plan and features for a restaurant's owner;
+      owners without a current paid period fall back to the trial plan. Internal: used by the
+      limit triggers, which run for whoever inserts the row
+    - `get_restaurant_plan_features`: the same for the restaurant's owner or the service role
+    - `get_restaurant_usage`: current usage against every enforced limit, used by the get-plan-usage function
+    - `enforce_plan_limit`: trigger function rejecting inserts past the plan limit
+
+  3. Changes
+    - BEFORE INSERT triggers on `customers` (maxCustomers) and `branches` (maxBranches)
+
+  4. Scope
+    - Only maxCustomers and maxBranches are enforced. advancedAnalytics and apiAccess are shown
+      on BillingPage but gate nothing server-side yet, so the usage endpoint does not report them
+
+  5. Errors
+    - Inserts past the limit raise SQLSTATE PT403, which PostgREST returns as HTTP 403 with
+      message `plan_limit_exceeded` and a JSON `details` payload:
+      { "limit": "maxBranches", "max": 1, "current": 1, "plan_type": "trial" }
+*/
+
+-- Effective plan and features for a restaurant, without an access check
+CREATE OR REPLACE FUNCTION public.resolve_restaurant_plan_features(p_restaurant_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_plan_type text;
+  v_status text;
+  v_period_end timestamptz;
+  v_features jsonb;
+BEGIN
+  SELECT s.plan_type::text, s.status::text, s.current_period_end
+  INTO v_plan_type, v_status, v_period_end
+  FROM restaurants r
+  LEFT JOIN subscriptions s ON s.user_id = r.owner_id
+  WHERE r.id = p_restaurant_id;
+
+  -- Without a current period the restaurant is limited to the trial plan
+  IF v_plan_type IS NULL
+     OR v_period_end IS NULL
+     OR v_period_end <= NOW()
+     OR v_status NOT IN ('active', 'cancelled', 'past_due') THEN
+    v_plan_type := 'trial';
+  END IF;
+
+  SELECT features INTO v_features
+  FROM plans
+  WHERE plan_type = v_plan_type;
+
+  RETURN jsonb_build_object(
+    'plan_type', v_plan_type,
+    'features', COALESCE(v_features, '{}'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Effective plan and features of one of the caller's own restaurants
+CREATE OR REPLACE FUNCTION public.get_restaurant_plan_features(p_restaurant_id uuid)
+RETURNS jsonb AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM restaurants WHERE id = p_restaurant_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to view the plan of this restaurant'
+      USING ERRCODE = 'PT403';
+  END IF;
+
+  RETURN resolve_restaurant_plan_features(p_restaurant_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Current usage against each enforced plan limit
+CREATE OR REPLACE FUNCTION public.get_restaurant_usage(p_restaurant_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_plan jsonb;
+  v_customer_count integer;
+  v_branch_count integer;
+  v_max_customers integer;
+  v_max_branches integer;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM restaurants WHERE id = p_restaurant_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to view usage for this restaurant'
+      USING ERRCODE = 'PT403';
+  END IF;
+
+  v_plan := resolve_restaurant_plan_features(p_restaurant_id);
+  v_max_customers := COALESCE((v_plan->'features'->>'maxCustomers')::integer, -1);
+  v_max_branches := COALESCE((v_plan->'features'->>'maxBranches')::integer, -1);
+
+  SELECT COUNT(*) INTO v_customer_count FROM customers WHERE restaurant_id = p_restaurant_id;
+  SELECT COUNT(*) INTO v_branch_count FROM branches WHERE restaurant_id = p_restaurant_id;
+
+  RETURN jsonb_build_object(
+    'restaurant_id', p_restaurant_id,
+    'plan_type', v_plan->>'plan_type',
+    'usage', jsonb_build_object(
+      'customers', jsonb_build_object(
+        'used', v_customer_count,
+        'limit', v_max_customers,
+        'exceeded', v_max_customers >= 0 AND v_customer_count >= v_max_customers
+      ),
+      'branches', jsonb_build_object(
+        'used', v_branch_count,
+        'limit', v_max_branches,
+        'exceeded', v_max_branches >= 0 AND v_branch_count >= v_max_branches
+      )
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Trigger function: TG_ARGV[0] is the feature key holding the limit (e.g. 'maxBranches')
+CREATE OR REPLACE FUNCTION public.enforce_plan_limit()
+RETURNS trigger AS $$
+DECLARE
+  v_limit_key text := TG_ARGV[0];
+  v_plan jsonb;
+  v_max integer;
+  v_current integer;
+BEGIN
+  IF NEW.restaurant_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize inserts per restaurant and table so concurrent requests can't overshoot the limit
+  PERFORM pg_advisory_xact_lock(hashtext(TG_TABLE_NAME || ':' || NEW.restaurant_id::text));
+
+  v_plan := resolve_restaurant_plan_features(NEW.restaurant_id);
+  v_max := COALESCE((v_plan->'features'->>v_limit_key)::integer, -1);
+
+  -- -1 means unlimited
+  IF v_max < 0 THEN
+    RETURN NEW;
+  END IF;
+
+  EXECUTE format('SELECT COUNT(*) FROM %I.%I WHERE restaurant_id = $1', TG_TABLE_SCHEMA, TG_TABLE_NAME)
+  INTO v_current
+  USING NEW.restaurant_id;
+
+  IF v_current >= v_max THEN
+    RAISE EXCEPTION 'plan_limit_exceeded'
+      USING
+        ERRCODE = 'PT403',
+        DETAIL = jsonb_build_object(
+          'limit', v_limit_key,
+          'max', v_max,
+          'current', v_current,
+          'plan_type', v_plan->>'plan_type'
+        )::text,
+        HINT = 'Upgrade your plan to add more ' || TG_TABLE_NAME || '.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_customer_plan_limit ON customers;
+CREATE TRIGGER enforce_customer_plan_limit
+  BEFORE INSERT ON customers
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_plan_limit('maxCustomers');
+
+DROP TRIGGER IF EXISTS enforce_branch_plan_limit ON branches;
+CREATE TRIGGER enforce_branch_plan_limit
+  BEFORE INSERT ON branches
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_plan_limit('maxBranches');
+
+REVOKE EXECUTE ON FUNCTION public.resolve_restaurant_plan_features(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_restaurant_plan_features(uuid) TO service_role;
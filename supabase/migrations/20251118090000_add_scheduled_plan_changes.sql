@@ -0,0 +1,223 @@
+/*
+  # Scheduled Plan Changes at Period End
+
+  1. Purpose
+    - Let restaurants switch plan (e.g. annual to monthly) when the current term ends
+      instead of immediately
+    - Works like cancel_at_period_end: the change is recorded on the subscription row
+      and takes effect at current_period_end
+
+  2. Changes
+    - `subscriptions.scheduled_plan_type`: plan that starts at the next period
+    - `subscriptions.scheduled_change_at`: when the change takes effect (the current period end)
+    - `subscriptions.stripe_schedule_id`: Stripe subscription schedule that performs the switch
+    - `handle_subscription_webhook` clears the scheduled change once a new period
+      with the scheduled plan is applied
+*/
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS scheduled_plan_type text;
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS scheduled_change_at timestamptz;
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS stripe_schedule_id text;
+
+CREATE OR REPLACE FUNCTION public.handle_subscription_webhook(
+  p_user_id uuid,
+  p_plan_type text,
+  p_status text,
+  p_stripe_subscription_id text DEFAULT NULL,
+  p_stripe_customer_id text DEFAULT NULL,
+  p_period_start timestamptz DEFAULT NULL,
+  p_period_end timestamptz DEFAULT NULL,
+  p_stripe_event_id text DEFAULT NULL,
+  p_event_created timestamptz DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_subscription_id uuid;
+  v_last_event_at timestamptz;
+  v_period_start timestamptz;
+  v_period_end timestamptz;
+  v_plan_type subscription_plan_type;
+  v_status subscription_status;
+  v_invoice_id uuid;
+  v_duration_days integer;
+  v_billing_period_text text;
+  v_is_accurate boolean;
+  result jsonb;
+BEGIN
+  RAISE NOTICE 'Processing subscription webhook for user: %, plan: %, status: %', p_user_id, p_plan_type, p_status;
+
+  -- Validate and cast plan type
+  BEGIN
+    v_plan_type := p_plan_type::subscription_plan_type;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid plan type: %. Must be one of: trial, monthly, semiannual, annual', p_plan_type;
+  END;
+
+  -- Validate and cast status
+  BEGIN
+    v_status := p_status::subscription_status;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid status: %. Must be one of: active, expired, cancelled, past_due', p_status;
+  END;
+
+  -- Check if subscription exists
+  SELECT id, last_stripe_event_at INTO v_subscription_id, v_last_event_at
+  FROM subscriptions
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- Ignore Stripe events older than the state already applied
+  IF p_event_created IS NOT NULL AND v_last_event_at IS NOT NULL AND p_event_created < v_last_event_at THEN
+    RAISE NOTICE 'Skipping stale event % (created %, last applied %)', p_stripe_event_id, p_event_created, v_last_event_at;
+
+    RETURN jsonb_build_object(
+      'skipped', true,
+      'reason', 'stale_event',
+      'subscription_id', v_subscription_id,
+      'user_id', p_user_id,
+      'event_created', p_event_created,
+      'last_applied_event_at', v_last_event_at
+    );
+  END IF;
+
+  -- Calculate periods if not provided
+  v_period_start := COALESCE(p_period_start, NOW());
+
+  IF p_period_end IS NULL THEN
+    CASE v_plan_type
+      WHEN 'trial' THEN
+        v_period_end := v_period_start + INTERVAL '30 days';
+      WHEN 'monthly' THEN
+        v_period_end := v_period_start + INTERVAL '1 month';
+      WHEN 'semiannual' THEN
+        v_period_end := v_period_start + INTERVAL '6 months';
+      WHEN 'annual' THEN
+        v_period_end := v_period_start + INTERVAL '1 year';
+    END CASE;
+  ELSE
+    v_period_end := p_period_end;
+  END IF;
+
+  -- Calculate duration and billing period text
+  v_duration_days := EXTRACT(DAY FROM (v_period_end - v_period_start))::integer;
+
+  v_billing_period_text := TO_CHAR(v_period_start, 'Mon DD, YYYY') || ' - ' ||
+                          TO_CHAR(v_period_end, 'Mon DD, YYYY') ||
+                          ' (' || v_duration_days || ' days)';
+
+  -- Determine if period is accurate
+  v_is_accurate := CASE v_plan_type
+    WHEN 'monthly' THEN v_duration_days BETWEEN 28 AND 31
+    WHEN 'semiannual' THEN v_duration_days BETWEEN 180 AND 186
+    WHEN 'annual' THEN v_duration_days BETWEEN 360 AND 370
+    WHEN 'trial' THEN v_duration_days BETWEEN 28 AND 32
+    ELSE true
+  END;
+
+  IF v_subscription_id IS NOT NULL THEN
+    -- Update existing subscription
+    UPDATE subscriptions
+    SET
+      plan_type = v_plan_type,
+      status = v_status,
+      stripe_subscription_id = COALESCE(p_stripe_subscription_id, stripe_subscription_id),
+      stripe_customer_id = COALESCE(p_stripe_customer_id, stripe_customer_id),
+      current_period_start = v_period_start,
+      current_period_end = v_period_end,
+      billing_period_text = v_billing_period_text,
+      billing_period_accurate = v_is_accurate,
+      last_stripe_event_at = COALESCE(p_event_created, last_stripe_event_at),
+      last_stripe_event_id = COALESCE(p_stripe_event_id, last_stripe_event_id),
+      updated_at = NOW()
+    WHERE id = v_subscription_id;
+
+    RAISE NOTICE 'Updated existing subscription: %', v_subscription_id;
+
+    -- Clear a scheduled plan change once Stripe reports the new plan for the new period
+    UPDATE subscriptions
+    SET
+      scheduled_plan_type = NULL,
+      scheduled_change_at = NULL,
+      stripe_schedule_id = NULL
+    WHERE id = v_subscription_id
+      AND scheduled_plan_type = v_plan_type::text
+      AND v_period_start >= scheduled_change_at - INTERVAL '1 minute';
+
+    IF FOUND THEN
+      RAISE NOTICE 'Applied scheduled plan change to % for subscription: %', v_plan_type, v_subscription_id;
+    END IF;
+  ELSE
+    -- Create new subscription
+    INSERT INTO subscriptions (
+      user_id,
+      plan_type,
+      status,
+      stripe_subscription_id,
+      stripe_customer_id,
+      current_period_start,
+      current_period_end,
+      billing_period_text,
+      billing_period_accurate,
+      last_stripe_event_at,
+      last_stripe_event_id,
+      created_at,
+      updated_at
+    ) VALUES (
+      p_user_id,
+      v_plan_type,
+      v_status,
+      p_stripe_subscription_id,
+      p_stripe_customer_id,
+      v_period_start,
+      v_period_end,
+      v_billing_period_text,
+      v_is_accurate,
+      p_event_created,
+      p_stripe_event_id,
+      NOW(),
+      NOW()
+    ) RETURNING id INTO v_subscription_id;
+
+    RAISE NOTICE 'Created new subscription: %', v_subscription_id;
+  END IF;
+
+  -- Generate invoice if status is active or paid
+  IF v_status IN ('active'::subscription_status, 'paid'::subscription_status) THEN
+    BEGIN
+      v_invoice_id := generate_invoice_for_subscription(
+        v_subscription_id,
+        p_user_id,
+        v_plan_type::text,
+        v_period_start,
+        v_period_end,
+        p_stripe_subscription_id
+      );
+      RAISE NOTICE 'Invoice generated successfully: %', v_invoice_id;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Failed to generate invoice: %', SQLERRM;
+    END;
+  END IF;
+
+  -- Return result
+  result := jsonb_build_object(
+    'subscription_id', v_subscription_id,
+    'invoice_id', v_invoice_id,
+    'user_id', p_user_id,
+    'plan_type', v_plan_type::text,
+    'status', v_status::text,
+    'period_start', v_period_start,
+    'period_end', v_period_end,
+    'billing_period_text', v_billing_period_text,
+    'billing_period_accurate', v_is_accurate,
+    'duration_days', v_duration_days,
+    'stripe_event_id', p_stripe_event_id,
+    'processed_at', NOW()
+  );
+
+  RAISE NOTICE 'Webhook processing complete: %', result;
+  RETURN result;
+
+EXCEPTION WHEN OTHERS THEN
+  RAISE EXCEPTION 'Webhook processing failed: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,529 @@
+/*
+  # Coupons and Promo Codes
+
+  1. Problem
+    - create-checkout-session and create-payment could not apply a discount
+    - Invoices always stored discount = 0, so the receipt's discount line never showed
+
+  2. New Tables
+    - `coupons`: local promo codes with a percent or fixed (cents) discount, a once / repeating
+      (duration_in_months) / forever duration, plan restrictions, validity window and redemption
+      limit; `stripe_coupon_id` links the Stripe coupon applied at checkout. Without one, checkout
+      creates a Stripe coupon per version of the local coupon: `updated_at` changes whenever the
+      discount terms do, so an edited coupon never reuses the old Stripe coupon
+    - `coupon_redemptions`: one row per invoice a local coupon was applied to; `times_redeemed`
+      counts each owner once, so renewals do not use up `max_redemptions`
+
+  3. Changes
+    - `invoices.discount_code`: promo code shown next to the discount on the receipt
+    - `validate_coupon`: checks a local code against a plan and returns the discount in cents
+    - `generate_invoice_for_subscription` and `handle_subscription_webhook` take
+      `p_discount` (cents) and `p_discount_code`; a later event without a discount
+      keeps the discount already stored on the invoice
+
+  4. Security
+    - Coupons are only readable through `validate_coupon`; the service role manages the tables
+*/
+
+CREATE TABLE IF NOT EXISTS coupons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (code = UPPER(code)),
+  description text,
+  percent_off numeric(5,2) CHECK (percent_off > 0 AND percent_off <= 100),
+  amount_off integer CHECK (amount_off > 0),
+  currency text NOT NULL DEFAULT 'USD',
+  duration text NOT NULL DEFAULT 'once' CHECK (duration IN ('once', 'repeating', 'forever')),
+  duration_in_months integer CHECK (duration_in_months > 0),
+  plan_types text[],
+  max_redemptions integer CHECK (max_redemptions > 0),
+  times_redeemed integer NOT NULL DEFAULT 0,
+  valid_from timestamptz NOT NULL DEFAULT NOW(),
+  expires_at timestamptz,
+  stripe_coupon_id text,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  CHECK ((percent_off IS NULL) <> (amount_off IS NULL)),
+  CHECK ((duration = 'repeating') = (duration_in_months IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id uuid NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  discount numeric NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE (coupon_id, invoice_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_user
+  ON coupon_redemptions (user_id);
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS discount_code text;
+
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access" ON coupons;
+DROP POLICY IF EXISTS "Service role full access" ON coupon_redemptions;
+
+CREATE POLICY "Service role full access"
+  ON coupons
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role full access"
+  ON coupon_redemptions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Bumps updated_at when the discount terms change; it versions the Stripe coupon checkout uses
+CREATE OR REPLACE FUNCTION public.touch_coupon_terms()
+RETURNS trigger AS $$
+BEGIN
+  IF (NEW.percent_off, NEW.amount_off, NEW.currency, NEW.duration, NEW.duration_in_months)
+     IS DISTINCT FROM (OLD.percent_off, OLD.amount_off, OLD.currency, OLD.duration, OLD.duration_in_months) THEN
+    NEW.updated_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_coupon_terms ON coupons;
+CREATE TRIGGER touch_coupon_terms
+  BEFORE UPDATE ON coupons
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_coupon_terms();
+
+-- Check a local promo code for a plan and calculate its discount in cents
+CREATE OR REPLACE FUNCTION public.validate_coupon(p_code text, p_plan_type text)
+RETURNS jsonb AS $$
+DECLARE
+  v_coupon coupons%ROWTYPE;
+  v_amount numeric;
+  v_discount numeric;
+BEGIN
+  SELECT * INTO v_coupon
+  FROM coupons
+  WHERE code = UPPER(TRIM(p_code));
+
+  IF NOT FOUND OR NOT v_coupon.active THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'Promo code not found');
+  END IF;
+
+  IF v_coupon.valid_from > NOW() OR (v_coupon.expires_at IS NOT NULL AND v_coupon.expires_at <= NOW()) THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'Promo code has expired');
+  END IF;
+
+  IF v_coupon.max_redemptions IS NOT NULL AND v_coupon.times_redeemed >= v_coupon.max_redemptions THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'Promo code has reached its redemption limit');
+  END IF;
+
+  IF v_coupon.plan_types IS NOT NULL AND NOT (p_plan_type = ANY (v_coupon.plan_types)) THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'Promo code does not apply to this plan');
+  END IF;
+
+  IF v_coupon.amount_off IS NOT NULL AND UPPER(v_coupon.currency) <> get_plan_currency(p_plan_type) THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'Promo code does not apply to this currency');
+  END IF;
+
+  v_amount := get_plan_amount(p_plan_type);
+  v_discount := CASE
+    WHEN v_coupon.percent_off IS NOT NULL THEN ROUND(v_amount * v_coupon.percent_off / 100)
+    ELSE LEAST(v_coupon.amount_off, v_amount)
+  END;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'coupon_id', v_coupon.id,
+    'code', v_coupon.code,
+    'description', v_coupon.description,
+    'percent_off', v_coupon.percent_off,
+    'amount_off', v_coupon.amount_off,
+    'currency', UPPER(v_coupon.currency),
+    'duration', v_coupon.duration,
+    'duration_in_months', v_coupon.duration_in_months,
+    'stripe_coupon_id', v_coupon.stripe_coupon_id,
+    'updated_at', v_coupon.updated_at,
+    'discount_amount', v_discount
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS generate_invoice_for_subscription(UUID, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT);
+
+-- Main function to generate invoice for subscription
+CREATE OR REPLACE FUNCTION generate_invoice_for_subscription(
+  p_subscription_id UUID,
+  p_user_id UUID,
+  p_plan_type TEXT,
+  p_period_start TIMESTAMPTZ,
+  p_period_end TIMESTAMPTZ,
+  p_stripe_payment_intent_id TEXT DEFAULT NULL,
+  p_discount NUMERIC DEFAULT 0,
+  p_discount_code TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_invoice_number TEXT;
+  v_amount NUMERIC;
+  v_discount NUMERIC;
+  v_currency TEXT;
+  v_restaurant_id UUID;
+  v_restaurant_name TEXT;
+BEGIN
+  -- Get restaurant info
+  SELECT id, name
+  INTO v_restaurant_id, v_restaurant_name
+  FROM restaurants
+  WHERE owner_id = p_user_id
+  LIMIT 1;
+
+  -- If no restaurant found, use user email
+  IF v_restaurant_name IS NULL THEN
+    SELECT email INTO v_restaurant_name
+    FROM auth.users
+    WHERE id = p_user_id;
+  END IF;
+
+  -- Calculate amount
+  v_amount := get_plan_amount(p_plan_type);
+  v_currency := get_plan_currency(p_plan_type);
+  v_discount := LEAST(GREATEST(COALESCE(p_discount, 0), 0), v_amount);
+
+  -- Generate invoice number
+  v_invoice_number := generate_invoice_number();
+
+  -- Create or update invoice
+  INSERT INTO invoices (
+    id,
+    user_id,
+    subscription_id,
+    invoice_number,
+    status,
+    subtotal,
+    tax,
+    discount,
+    discount_code,
+    total,
+    currency,
+    invoice_date,
+    due_date,
+    paid_at,
+    period_start,
+    period_end,
+    payment_method,
+    stripe_payment_intent_id,
+    description,
+    restaurant_id,
+    restaurant_name,
+    metadata,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    p_user_id,
+    p_subscription_id,
+    v_invoice_number,
+    'paid',
+    v_amount,
+    0,
+    v_discount,
+    CASE WHEN v_discount > 0 THEN UPPER(p_discount_code) ELSE NULL END,
+    v_amount - v_discount,
+    v_currency,
+    NOW(),
+    NOW(),
+    NOW(),
+    p_period_start,
+    p_period_end,
+    'Card',
+    p_stripe_payment_intent_id,
+    get_plan_description(p_plan_type),
+    v_restaurant_id,
+    COALESCE(v_restaurant_name, 'Customer'),
+    jsonb_build_object(
+      'plan_type', p_plan_type,
+      'auto_generated', true
+    ),
+    NOW(),
+    NOW()
+  )
+  ON CONFLICT (subscription_id, period_start)
+  DO UPDATE SET
+    status = EXCLUDED.status,
+    paid_at = EXCLUDED.paid_at,
+    -- Several Stripe events land on the same period; only the one carrying the discount sets it
+    discount = CASE WHEN EXCLUDED.discount > 0 THEN EXCLUDED.discount ELSE invoices.discount END,
+    discount_code = CASE WHEN EXCLUDED.discount > 0 THEN EXCLUDED.discount_code ELSE invoices.discount_code END,
+    total = invoices.subtotal + invoices.tax
+      - CASE WHEN EXCLUDED.discount > 0 THEN EXCLUDED.discount ELSE invoices.discount END,
+    updated_at = NOW()
+  RETURNING id INTO v_invoice_id;
+
+  -- Create line item for the invoice
+  INSERT INTO invoice_line_items (
+    id,
+    invoice_id,
+    description,
+    quantity,
+    unit_price,
+    amount,
+    item_type,
+    created_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    v_invoice_id,
+    get_plan_description(p_plan_type),
+    1,
+    v_amount,
+    v_amount,
+    'subscription',
+    NOW()
+  )
+  ON CONFLICT DO NOTHING;
+
+  -- Count the redemption when the code is a local coupon (Stripe promotion codes are tracked by Stripe)
+  IF v_discount > 0 AND p_discount_code IS NOT NULL THEN
+    WITH redemption AS (
+      INSERT INTO coupon_redemptions (coupon_id, user_id, invoice_id, discount)
+      SELECT c.id, p_user_id, v_invoice_id, v_discount
+      FROM coupons c
+      WHERE c.code = UPPER(p_discount_code)
+      ON CONFLICT (coupon_id, invoice_id) DO NOTHING
+      RETURNING coupon_id
+    )
+    -- Each owner counts once towards max_redemptions, so renewals of a discounted subscription
+    -- do not use it up; the NOT EXISTS sees the redemptions from before this insert
+    UPDATE coupons
+    SET times_redeemed = times_redeemed + 1
+    WHERE id IN (SELECT coupon_id FROM redemption)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM coupon_redemptions cr
+        WHERE cr.coupon_id = coupons.id
+          AND cr.user_id = p_user_id
+      );
+  END IF;
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS public.handle_subscription_webhook(uuid, text, text, text, text, timestamptz, timestamptz, text, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.handle_subscription_webhook(
+  p_user_id uuid,
+  p_plan_type text,
+  p_status text,
+  p_stripe_subscription_id text DEFAULT NULL,
+  p_stripe_customer_id text DEFAULT NULL,
+  p_period_start timestamptz DEFAULT NULL,
+  p_period_end timestamptz DEFAULT NULL,
+  p_stripe_event_id text DEFAULT NULL,
+  p_event_created timestamptz DEFAULT NULL,
+  p_discount numeric DEFAULT 0,
+  p_discount_code text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_subscription_id uuid;
+  v_last_event_at timestamptz;
+  v_period_start timestamptz;
+  v_period_end timestamptz;
+  v_plan_type subscription_plan_type;
+  v_status subscription_status;
+  v_invoice_id uuid;
+  v_duration_days integer;
+  v_billing_period_text text;
+  v_is_accurate boolean;
+  result jsonb;
+BEGIN
+  RAISE NOTICE 'Processing subscription webhook for user: %, plan: %, status: %', p_user_id, p_plan_type, p_status;
+
+  -- Validate and cast plan type
+  BEGIN
+    v_plan_type := p_plan_type::subscription_plan_type;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid plan type: %. Must be one of: trial, monthly, semiannual, annual', p_plan_type;
+  END;
+
+  -- Validate and cast status
+  BEGIN
+    v_status := p_status::subscription_status;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid status: %. Must be one of: active, expired, cancelled, past_due', p_status;
+  END;
+
+  -- Check if subscription exists
+  SELECT id, last_stripe_event_at INTO v_subscription_id, v_last_event_at
+  FROM subscriptions
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- Ignore Stripe events older than the state already applied
+  IF p_event_created IS NOT NULL AND v_last_event_at IS NOT NULL AND p_event_created < v_last_event_at THEN
+    RAISE NOTICE 'Skipping stale event % (created %, last applied %)', p_stripe_event_id, p_event_created, v_last_event_at;
+
+    RETURN jsonb_build_object(
+      'skipped', true,
+      'reason', 'stale_event',
+      'subscription_id', v_subscription_id,
+      'user_id', p_user_id,
+      'event_created', p_event_created,
+      'last_applied_event_at', v_last_event_at
+    );
+  END IF;
+
+  -- Calculate periods if not provided
+  v_period_start := COALESCE(p_period_start, NOW());
+
+  IF p_period_end IS NULL THEN
+    CASE v_plan_type
+      WHEN 'trial' THEN
+        v_period_end := v_period_start + INTERVAL '30 days';
+      WHEN 'monthly' THEN
+        v_period_end := v_period_start + INTERVAL '1 month';
+      WHEN 'semiannual' THEN
+        v_period_end := v_period_start + INTERVAL '6 months';
+      WHEN 'annual' THEN
+        v_period_end := v_period_start + INTERVAL '1 year';
+    END CASE;
+  ELSE
+    v_period_end := p_period_end;
+  END IF;
+
+  -- Calculate duration and billing period text
+  v_duration_days := EXTRACT(DAY FROM (v_period_end - v_period_start))::integer;
+
+  v_billing_period_text := TO_CHAR(v_period_start, 'Mon DD, YYYY') || ' - ' ||
+                          TO_CHAR(v_period_end, 'Mon DD, YYYY') ||
+                          ' (' || v_duration_days || ' days)';
+
+  -- Determine if period is accurate
+  v_is_accurate := CASE v_plan_type
+    WHEN 'monthly' THEN v_duration_days BETWEEN 28 AND 31
+    WHEN 'semiannual' THEN v_duration_days BETWEEN 180 AND 186
+    WHEN 'annual' THEN v_duration_days BETWEEN 360 AND 370
+    WHEN 'trial' THEN v_duration_days BETWEEN 28 AND 32
+    ELSE true
+  END;
+
+  IF v_subscription_id IS NOT NULL THEN
+    -- Update existing subscription
+    UPDATE subscriptions
+    SET
+      plan_type = v_plan_type,
+      status = v_status,
+      stripe_subscription_id = COALESCE(p_stripe_subscription_id, stripe_subscription_id),
+      stripe_customer_id = COALESCE(p_stripe_customer_id, stripe_customer_id),
+      current_period_start = v_period_start,
+      current_period_end = v_period_end,
+      billing_period_text = v_billing_period_text,
+      billing_period_accurate = v_is_accurate,
+      last_stripe_event_at = COALESCE(p_event_created, last_stripe_event_at),
+      last_stripe_event_id = COALESCE(p_stripe_event_id, last_stripe_event_id),
+      updated_at = NOW()
+    WHERE id = v_subscription_id;
+
+    RAISE NOTICE 'Updated existing subscription: %', v_subscription_id;
+
+    -- Clear a scheduled plan change once Stripe reports the new plan for the new period
+    UPDATE subscriptions
+    SET
+      scheduled_plan_type = NULL,
+      scheduled_change_at = NULL,
+      stripe_schedule_id = NULL
+    WHERE id = v_subscription_id
+      AND scheduled_plan_type = v_plan_type::text
+      AND v_period_start >= scheduled_change_at - INTERVAL '1 minute';
+
+    IF FOUND THEN
+      RAISE NOTICE 'Applied scheduled plan change to % for subscription: %', v_plan_type, v_subscription_id;
+    END IF;
+  ELSE
+    -- Create new subscription
+    INSERT INTO subscriptions (
+      user_id,
+      plan_type,
+      status,
+      stripe_subscription_id,
+      stripe_customer_id,
+      current_period_start,
+      current_period_end,
+      billing_period_text,
+      billing_period_accurate,
+      last_stripe_event_at,
+      last_stripe_event_id,
+      created_at,
+      updated_at
+    ) VALUES (
+      p_user_id,
+      v_plan_type,
+      v_status,
+      p_stripe_subscription_id,
+      p_stripe_customer_id,
+      v_period_start,
+      v_period_end,
+      v_billing_period_text,
+      v_is_accurate,
+      p_event_created,
+      p_stripe_event_id,
+      NOW(),
+      NOW()
+    ) RETURNING id INTO v_subscription_id;
+
+    RAISE NOTICE 'Created new subscription: %', v_subscription_id;
+  END IF;
+
+  -- Generate invoice if status is active or paid
+  IF v_status IN ('active'::subscription_status, 'paid'::subscription_status) THEN
+    BEGIN
+      v_invoice_id := generate_invoice_for_subscription(
+        v_subscription_id,
+        p_user_id,
+        v_plan_type::text,
+        v_period_start,
+        v_period_end,
+        p_stripe_subscription_id,
+        p_discount,
+        p_discount_code
+      );
+      RAISE NOTICE 'Invoice generated successfully: %', v_invoice_id;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Failed to generate invoice: %', SQLERRM;
+    END;
+  END IF;
+
+  -- Return result
+  result := jsonb_build_object(
+    'subscription_id', v_subscription_id,
+    'invoice_id', v_invoice_id,
+    'user_id', p_user_id,
+    'plan_type', v_plan_type::text,
+    'status', v_status::text,
+    'period_start', v_period_start,
+    'period_end', v_period_end,
+    'billing_period_text', v_billing_period_text,
+    'billing_period_accurate', v_is_accurate,
+    'duration_days', v_duration_days,
+    'stripe_event_id', p_stripe_event_id,
+    'processed_at', NOW()
+  );
+
+  RAISE NOTICE 'Webhook processing complete: %', result;
+  RETURN result;
+
+EXCEPTION WHEN OTHERS THEN
+  RAISE EXCEPTION 'Webhook processing failed: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
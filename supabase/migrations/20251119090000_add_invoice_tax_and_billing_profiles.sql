@@ -0,0 +1,340 @@
+/*
+  # Tax Calculation and VAT IDs on Invoices
+
+  1. Problem
+    - `generate_invoice_for_subscription` always wrote tax = 0
+    - VAT-registered restaurants need invoices showing the tax amount, their VAT ID
+      and billing address, and ours
+
+  2. New Tables
+    - `billing_profiles`: one per user with legal name, tax ID and billing address
+    - `tax_rates`: tax rate per country (ISO 3166-1 alpha-2)
+
+  3. Changes
+    - `invoices`: tax rate, name and country plus a snapshot of the buyer's legal name,
+      tax ID and address at invoice time
+    - `invoice_line_items`: `tax_rate` and `tax_amount` per line
+    - `generate_invoice_for_subscription` looks up the rate for the buyer's country
+      and splits the tax out of the amount paid
+
+  4. Notes
+    - Plan prices are tax-inclusive so the invoice total always matches the Stripe charge;
+      `tax` is the portion of `total` that is tax
+    - The seller's details come from the SELLER_* secrets of the download-receipt function
+
+  5. Security
+    - Users manage their own billing profile
+    - Tax rates are readable by authenticated users and managed by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS billing_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  legal_name text,
+  tax_id text,
+  address_line1 text,
+  address_line2 text,
+  city text,
+  state text,
+  postal_code text,
+  country text CHECK (country ~ '^[A-Z]{2}$'),
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  country text NOT NULL UNIQUE CHECK (country ~ '^[A-Z]{2}$'),
+  name text NOT NULL DEFAULT 'VAT',
+  rate numeric(5,2) NOT NULL CHECK (rate >= 0 AND rate < 100),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS tax_rate numeric(5,2) NOT NULL DEFAULT 0;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS tax_name text;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS tax_country text;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS buyer_name text;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS buyer_tax_id text;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS buyer_address text;
+
+ALTER TABLE invoice_line_items ADD COLUMN IF NOT EXISTS tax_rate numeric(5,2) NOT NULL DEFAULT 0;
+ALTER TABLE invoice_line_items ADD COLUMN IF NOT EXISTS tax_amount numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE billing_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own billing profile" ON billing_profiles;
+DROP POLICY IF EXISTS "Users can insert own billing profile" ON billing_profiles;
+DROP POLICY IF EXISTS "Users can update own billing profile" ON billing_profiles;
+DROP POLICY IF EXISTS "Service role full access" ON billing_profiles;
+DROP POLICY IF EXISTS "Authenticated users can read tax rates" ON tax_rates;
+DROP POLICY IF EXISTS "Service role full access" ON tax_rates;
+
+CREATE POLICY "Users can read own billing profile"
+  ON billing_profiles
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own billing profile"
+  ON billing_profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own billing profile"
+  ON billing_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access"
+  ON billing_profiles
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can read tax rates"
+  ON tax_rates
+  FOR SELECT
+  TO authenticated
+  USING (active = true);
+
+CREATE POLICY "Service role full access"
+  ON tax_rates
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Tax contained in a tax-inclusive amount
+CREATE OR REPLACE FUNCTION calculate_included_tax(p_amount NUMERIC, p_rate NUMERIC)
+RETURNS NUMERIC AS $$
+  SELECT CASE
+    WHEN COALESCE(p_rate, 0) <= 0 OR COALESCE(p_amount, 0) <= 0 THEN 0
+    ELSE ROUND(p_amount * p_rate / (100 + p_rate))
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Single-string billing address for the invoice snapshot
+CREATE OR REPLACE FUNCTION format_billing_address(p_profile billing_profiles)
+RETURNS TEXT AS $$
+  SELECT NULLIF(concat_ws(E'\n',
+    NULLIF(p_profile.address_line1, ''),
+    NULLIF(p_profile.address_line2, ''),
+    NULLIF(concat_ws(' ', NULLIF(p_profile.postal_code, ''), NULLIF(p_profile.city, ''), NULLIF(p_profile.state, '')), ''),
+    p_profile.country
+  ), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Main function to generate invoice for subscription
+CREATE OR REPLACE FUNCTION generate_invoice_for_subscription(
+  p_subscription_id UUID,
+  p_user_id UUID,
+  p_plan_type TEXT,
+  p_period_start TIMESTAMPTZ,
+  p_period_end TIMESTAMPTZ,
+  p_stripe_payment_intent_id TEXT DEFAULT NULL,
+  p_discount NUMERIC DEFAULT 0,
+  p_discount_code TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_invoice_number TEXT;
+  v_amount NUMERIC;
+  v_discount NUMERIC;
+  v_tax NUMERIC;
+  v_currency TEXT;
+  v_profile billing_profiles%ROWTYPE;
+  v_tax_rate tax_rates%ROWTYPE;
+  v_restaurant_id UUID;
+  v_restaurant_name TEXT;
+BEGIN
+  -- Get restaurant info
+  SELECT id, name
+  INTO v_restaurant_id, v_restaurant_name
+  FROM restaurants
+  WHERE owner_id = p_user_id
+  LIMIT 1;
+
+  -- If no restaurant found, use user email
+  IF v_restaurant_name IS NULL THEN
+    SELECT email INTO v_restaurant_name
+    FROM auth.users
+    WHERE id = p_user_id;
+  END IF;
+
+  -- Calculate amount
+  v_amount := get_plan_amount(p_plan_type);
+  v_currency := get_plan_currency(p_plan_type);
+  v_discount := LEAST(GREATEST(COALESCE(p_discount, 0), 0), v_amount);
+
+  -- Tax is charged by the buyer's billing country; plan prices include it
+  SELECT * INTO v_profile
+  FROM billing_profiles
+  WHERE user_id = p_user_id;
+
+  IF v_profile.country IS NOT NULL THEN
+    SELECT * INTO v_tax_rate
+    FROM tax_rates
+    WHERE country = v_profile.country
+      AND active = true;
+  END IF;
+
+  v_tax := calculate_included_tax(v_amount - v_discount, COALESCE(v_tax_rate.rate, 0));
+
+  -- Generate invoice number
+  v_invoice_number := generate_invoice_number();
+
+  -- Create or update invoice
+  INSERT INTO invoices (
+    id,
+    user_id,
+    subscription_id,
+    invoice_number,
+    status,
+    subtotal,
+    tax,
+    discount,
+    discount_code,
+    total,
+    tax_rate,
+    tax_name,
+    tax_country,
+    buyer_name,
+    buyer_tax_id,
+    buyer_address,
+    currency,
+    invoice_date,
+    due_date,
+    paid_at,
+    period_start,
+    period_end,
+    payment_method,
+    stripe_payment_intent_id,
+    description,
+    restaurant_id,
+    restaurant_name,
+    metadata,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    p_user_id,
+    p_subscription_id,
+    v_invoice_number,
+    'paid',
+    v_amount,
+    v_tax,
+    v_discount,
+    CASE WHEN v_discount > 0 THEN UPPER(p_discount_code) ELSE NULL END,
+    v_amount - v_discount,
+    COALESCE(v_tax_rate.rate, 0),
+    v_tax_rate.name,
+    v_profile.country,
+    v_profile.legal_name,
+    v_profile.tax_id,
+    format_billing_address(v_profile),
+    v_currency,
+    NOW(),
+    NOW(),
+    NOW(),
+    p_period_start,
+    p_period_end,
+    'Card',
+    p_stripe_payment_intent_id,
+    get_plan_description(p_plan_type),
+    v_restaurant_id,
+    COALESCE(v_restaurant_name, 'Customer'),
+    jsonb_build_object(
+      'plan_type', p_plan_type,
+      'auto_generated', true
+    ),
+    NOW(),
+    NOW()
+  )
+  ON CONFLICT (subscription_id, period_start)
+  DO UPDATE SET
+    status = EXCLUDED.status,
+    paid_at = EXCLUDED.paid_at,
+    -- Several Stripe events land on the same period; only the one carrying the discount sets it
+    discount = CASE WHEN EXCLUDED.discount > 0 THEN EXCLUDED.discount ELSE invoices.discount END,
+    discount_code = CASE WHEN EXCLUDED.discount > 0 THEN EXCLUDED.discount_code ELSE invoices.discount_code END,
+    total = invoices.subtotal
+      - CASE WHEN EXCLUDED.discount > 0 THEN EXCLUDED.discount ELSE invoices.discount END,
+    tax = calculate_included_tax(
+      invoices.subtotal - CASE WHEN EXCLUDED.discount > 0 THEN EXCLUDED.discount ELSE invoices.discount END,
+      invoices.tax_rate
+    ),
+    updated_at = NOW()
+  RETURNING id INTO v_invoice_id;
+
+  -- Create line item for the invoice
+  INSERT INTO invoice_line_items (
+    id,
+    invoice_id,
+    description,
+    quantity,
+    unit_price,
+    amount,
+    tax_rate,
+    tax_amount,
+    item_type,
+    created_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    v_invoice_id,
+    get_plan_description(p_plan_type),
+    1,
+    v_amount,
+    v_amount,
+    COALESCE(v_tax_rate.rate, 0),
+    v_tax,
+    'subscription',
+    NOW()
+  )
+  ON CONFLICT DO NOTHING;
+
+  -- Keep the line tax in step with the invoice when a later event changed the discount
+  UPDATE invoice_line_items li
+  SET
+    tax_rate = i.tax_rate,
+    tax_amount = i.tax
+  FROM invoices i
+  WHERE li.invoice_id = v_invoice_id
+    AND i.id = v_invoice_id
+    AND li.item_type = 'subscription';
+
+  -- Count the redemption when the code is a local coupon (Stripe promotion codes are tracked by Stripe)
+  IF v_discount > 0 AND p_discount_code IS NOT NULL THEN
+    WITH redemption AS (
+      INSERT INTO coupon_redemptions (coupon_id, user_id, invoice_id, discount)
+      SELECT c.id, p_user_id, v_invoice_id, v_discount
+      FROM coupons c
+      WHERE c.code = UPPER(p_discount_code)
+      ON CONFLICT (coupon_id, invoice_id) DO NOTHING
+      RETURNING coupon_id
+    )
+    -- Each owner counts once towards max_redemptions, so renewals of a discounted subscription
+    -- do not use it up; the NOT EXISTS sees the redemptions from before this insert
+    UPDATE coupons
+    SET times_redeemed = times_redeemed + 1
+    WHERE id IN (SELECT coupon_id FROM redemption)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM coupon_redemptions cr
+        WHERE cr.coupon_id = coupons.id
+          AND cr.user_id = p_user_id
+      );
+  END IF;
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,741 @@
+/*
+  # Multi-Currency Plan Pricing
+
+  1. Problem
+    - Every plan had a single price and currency; create-payment and get_plan_amount
+      assumed it for every restaurant
+    - Revenue statistics added amounts in different currencies together
+
+  2. New Tables
+    - `plan_prices`: price per plan and currency with its own Stripe price id,
+      seeded from the current `plans` prices
+    - `country_currencies`: default billing currency per country (ISO 3166-1 alpha-2)
+    - `exchange_rates`: value of one unit of a currency in the reporting currency
+
+  3. Changes
+    - `subscriptions.currency`: currency the subscription is billed in
+    - `resolve_plan_price`: picks the price for a plan; currency order is the explicit
+      choice, the subscription's currency, the billing profile country, then the plan's base currency
+    - `get_plan_amount(plan_type, currency)`: amount in a given currency
+    - `validate_coupon` takes the checkout currency
+    - `handle_subscription_webhook` stores the currency reported by Stripe
+    - `generate_invoice_for_subscription` invoices in the subscription's currency
+    - `get_reporting_revenue`: paid invoice revenue converted to the reporting currency (USD),
+      honouring each currency's minor unit (e.g. 3 decimals for KWD, none for JPY)
+
+  4. Deployment
+    - Add a `plan_prices` row (with its Stripe price id) for every extra currency offered
+    - Keep `exchange_rates` up to date; revenue in currencies without a rate is reported as unconverted
+
+  5. Security
+    - `get_reporting_revenue` covers every restaurant, so it is limited to the service role;
+      support staff read it through the get-subscription-stats function
+*/
+
+CREATE TABLE IF NOT EXISTS plan_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_type text NOT NULL REFERENCES plans(plan_type) ON DELETE CASCADE,
+  currency text NOT NULL CHECK (currency = UPPER(currency)),
+  amount integer NOT NULL CHECK (amount >= 0),
+  stripe_price_id text UNIQUE,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE (plan_type, currency)
+);
+
+INSERT INTO plan_prices (plan_type, currency, amount, stripe_price_id)
+SELECT plan_type, UPPER(currency), amount, stripe_price_id
+FROM plans
+ON CONFLICT (plan_type, currency) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS country_currencies (
+  country text PRIMARY KEY CHECK (country ~ '^[A-Z]{2}$'),
+  currency text NOT NULL CHECK (currency = UPPER(currency))
+);
+
+INSERT INTO country_currencies (country, currency)
+VALUES
+  ('US', 'USD'), ('CA', 'CAD'), ('GB', 'GBP'), ('AU', 'AUD'), ('NZ', 'NZD'),
+  ('CH', 'CHF'), ('SE', 'SEK'), ('NO', 'NOK'), ('DK', 'DKK'), ('PL', 'PLN'),
+  ('AE', 'AED'), ('SA', 'SAR'), ('QA', 'QAR'), ('KW', 'KWD'), ('BH', 'BHD'),
+  ('OM', 'OMR'), ('EG', 'EGP'), ('JO', 'JOD'), ('TR', 'TRY'), ('IN', 'INR'),
+  ('AT', 'EUR'), ('BE', 'EUR'), ('CY', 'EUR'), ('DE', 'EUR'), ('EE', 'EUR'),
+  ('ES', 'EUR'), ('FI', 'EUR'), ('FR', 'EUR'), ('GR', 'EUR'), ('HR', 'EUR'),
+  ('IE', 'EUR'), ('IT', 'EUR'), ('LT', 'EUR'), ('LU', 'EUR'), ('LV', 'EUR'),
+  ('MT', 'EUR'), ('NL', 'EUR'), ('PT', 'EUR'), ('SI', 'EUR'), ('SK', 'EUR')
+ON CONFLICT (country) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency text PRIMARY KEY CHECK (currency = UPPER(currency)),
+  rate_to_reporting numeric(18,8) NOT NULL CHECK (rate_to_reporting > 0),
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO exchange_rates (currency, rate_to_reporting)
+VALUES ('USD', 1)
+ON CONFLICT (currency) DO NOTHING;
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS currency text;
+
+ALTER TABLE plan_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE country_currencies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read active plan prices" ON plan_prices;
+DROP POLICY IF EXISTS "Service role full access" ON plan_prices;
+DROP POLICY IF EXISTS "Anyone can read country currencies" ON country_currencies;
+DROP POLICY IF EXISTS "Service role full access" ON country_currencies;
+DROP POLICY IF EXISTS "Authenticated users can read exchange rates" ON exchange_rates;
+DROP POLICY IF EXISTS "Service role full access" ON exchange_rates;
+
+CREATE POLICY "Anyone can read active plan prices"
+  ON plan_prices
+  FOR SELECT
+  TO anon, authenticated
+  USING (active = true);
+
+CREATE POLICY "Service role full access"
+  ON plan_prices
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can read country currencies"
+  ON country_currencies
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Service role full access"
+  ON country_currencies
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can read exchange rates"
+  ON exchange_rates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role full access"
+  ON exchange_rates
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Price of a plan in the currency that applies to a user
+CREATE OR REPLACE FUNCTION public.resolve_plan_price(
+  p_plan_type text,
+  p_currency text DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_currency text := UPPER(NULLIF(TRIM(p_currency), ''));
+  v_price plan_prices%ROWTYPE;
+BEGIN
+  -- Only the user themselves or the service role may look up a user's preferred currency
+  IF p_user_id IS NOT NULL AND auth.role() IS DISTINCT FROM 'service_role' AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    p_user_id := NULL;
+  END IF;
+
+  IF v_currency IS NULL AND p_user_id IS NOT NULL THEN
+    SELECT currency INTO v_currency
+    FROM subscriptions
+    WHERE user_id = p_user_id;
+  END IF;
+
+  IF v_currency IS NULL AND p_user_id IS NOT NULL THEN
+    SELECT cc.currency INTO v_currency
+    FROM billing_profiles bp
+    JOIN country_currencies cc ON cc.country = bp.country
+    WHERE bp.user_id = p_user_id
+      AND EXISTS (
+        SELECT 1 FROM plan_prices pp
+        WHERE pp.plan_type = p_plan_type AND pp.currency = cc.currency AND pp.active = true
+      );
+  END IF;
+
+  v_currency := COALESCE(v_currency, get_plan_currency(p_plan_type));
+
+  SELECT * INTO v_price
+  FROM plan_prices
+  WHERE plan_type = p_plan_type
+    AND currency = v_currency
+    AND active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan % is not available in %', p_plan_type, v_currency;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'plan_type', v_price.plan_type,
+    'currency', v_price.currency,
+    'amount', v_price.amount,
+    'stripe_price_id', v_price.stripe_price_id
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to get plan pricing in a currency
+CREATE OR REPLACE FUNCTION get_plan_amount(plan_type TEXT, currency TEXT)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(
+    (SELECT pp.amount FROM plan_prices pp
+     WHERE pp.plan_type = get_plan_amount.plan_type AND pp.currency = UPPER(get_plan_amount.currency)),
+    get_plan_amount(get_plan_amount.plan_type)
+  )::NUMERIC;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_reporting_currency()
+RETURNS TEXT AS $$
+  SELECT 'USD'::TEXT;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Number of decimals of a currency's minor unit (ISO 4217): invoice amounts are stored in minor units
+CREATE OR REPLACE FUNCTION currency_exponent(p_currency TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN UPPER(p_currency) IN ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 3
+    WHEN UPPER(p_currency) IN (
+      'BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG',
+      'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'
+    ) THEN 0
+    ELSE 2
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Amount in minor units of p_currency converted to minor units of the reporting currency,
+-- NULL when no rate is known
+CREATE OR REPLACE FUNCTION convert_to_reporting_currency(p_amount NUMERIC, p_currency TEXT)
+RETURNS NUMERIC AS $$
+  SELECT ROUND(
+    p_amount / power(10::numeric, currency_exponent(p_currency))
+      * er.rate_to_reporting
+      * power(10::numeric, currency_exponent(get_reporting_currency()))
+  )
+  FROM exchange_rates er
+  WHERE er.currency = UPPER(p_currency);
+$$ LANGUAGE sql STABLE;
+
+-- Paid invoice revenue of all restaurants per currency and in total in the reporting currency.
+-- Platform-wide, so only the service role may call it; support staff read it through get-subscription-stats.
+CREATE OR REPLACE FUNCTION public.get_reporting_revenue()
+RETURNS jsonb AS $$
+  WITH by_currency AS (
+    SELECT
+      UPPER(currency) AS currency,
+      SUM(total) AS amount,
+      convert_to_reporting_currency(SUM(total), UPPER(currency)) AS converted
+    FROM invoices
+    WHERE status = 'paid'
+    GROUP BY UPPER(currency)
+  )
+  SELECT jsonb_build_object(
+    'reporting_currency', get_reporting_currency(),
+    'total_revenue', COALESCE(SUM(converted), 0),
+    'by_currency', COALESCE(jsonb_agg(jsonb_build_object(
+      'currency', currency,
+      'amount', amount,
+      'converted', converted
+    ) ORDER BY currency) FILTER (WHERE currency IS NOT NULL), '[]'::jsonb),
+    'unconverted_currencies', COALESCE(jsonb_agg(currency) FILTER (WHERE converted IS NULL), '[]'::jsonb)
+  )
+  FROM by_currency;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_reporting_revenue() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_reporting_revenue() TO service_role;
+
+DROP FUNCTION IF EXISTS public.validate_coupon(text, text);
+
+-- Check a local promo code for a plan and calculate its discount in cents
+CREATE OR REPLACE FUNCTION public.validate_coupon(p_code text, p_plan_type text, p_currency text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_coupon coupons%ROWTYPE;
+  v_amount numeric;
+  v_currency text;
+  v_discount numeric;
+BEGIN
+  v_currency := COALESCE(UPPER(p_currency), get_plan_currency(p_plan_type));
+
+  SELECT * INTO v_coupon
+  FROM coupons
+  WHERE code = UPPER(TRIM(p_code));
+
+  IF NOT FOUND OR NOT v_coupon.active THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'Promo code not found');
+  END IF;
+
+  IF v_coupon.valid_from > NOW() OR (v_coupon.expires_at IS NOT NULL AND v_coupon.expires_at <= NOW()) THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'Promo code has expired');
+  END IF;
+
+  IF v_coupon.max_redemptions IS NOT NULL AND v_coupon.times_redeemed >= v_coupon.max_redemptions THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'Promo code has reached its redemption limit');
+  END IF;
+
+  IF v_coupon.plan_types IS NOT NULL AND NOT (p_plan_type = ANY (v_coupon.plan_types)) THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'Promo code does not apply to this plan');
+  END IF;
+
+  IF v_coupon.amount_off IS NOT NULL AND UPPER(v_coupon.currency) <> v_currency THEN
+    RETURN jsonb_build_object('valid', false, 'reason', 'Promo code does not apply to this currency');
+  END IF;
+
+  v_amount := get_plan_amount(p_plan_type, v_currency);
+  v_discount := CASE
+    WHEN v_coupon.percent_off IS NOT NULL THEN ROUND(v_amount * v_coupon.percent_off / 100)
+    ELSE LEAST(v_coupon.amount_off, v_amount)
+  END;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'coupon_id', v_coupon.id,
+    'code', v_coupon.code,
+    'description', v_coupon.description,
+    'percent_off', v_coupon.percent_off,
+    'amount_off', v_coupon.amount_off,
+    'currency', UPPER(v_coupon.currency),
+    'duration', v_coupon.duration,
+    'duration_in_months', v_coupon.duration_in_months,
+    'stripe_coupon_id', v_coupon.stripe_coupon_id,
+    'updated_at', v_coupon.updated_at,
+    'discount_amount', v_discount
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+
+-- Main function to generate invoice for subscription
+CREATE OR REPLACE FUNCTION generate_invoice_for_subscription(
+  p_subscription_id UUID,
+  p_user_id UUID,
+  p_plan_type TEXT,
+  p_period_start TIMESTAMPTZ,
+  p_period_end TIMESTAMPTZ,
+  p_stripe_payment_intent_id TEXT DEFAULT NULL,
+  p_discount NUMERIC DEFAULT 0,
+  p_discount_code TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_invoice_number TEXT;
+  v_amount NUMERIC;
+  v_discount NUMERIC;
+  v_tax NUMERIC;
+  v_currency TEXT;
+  v_price JSONB;
+  v_profile billing_profiles%ROWTYPE;
+  v_tax_rate tax_rates%ROWTYPE;
+  v_restaurant_id UUID;
+  v_restaurant_name TEXT;
+BEGIN
+  -- Get restaurant info
+  SELECT id, name
+  INTO v_restaurant_id, v_restaurant_name
+  FROM restaurants
+  WHERE owner_id = p_user_id
+  LIMIT 1;
+
+  -- If no restaurant found, use user email
+  IF v_restaurant_name IS NULL THEN
+    SELECT email INTO v_restaurant_name
+    FROM auth.users
+    WHERE id = p_user_id;
+  END IF;
+
+  -- Charge in the subscription's currency when the plan is priced in it
+  SELECT currency INTO v_currency
+  FROM subscriptions
+  WHERE id = p_subscription_id;
+
+  v_price := resolve_plan_price(p_plan_type, v_currency);
+  v_amount := (v_price->>'amount')::NUMERIC;
+  v_currency := v_price->>'currency';
+  v_discount := LEAST(GREATEST(COALESCE(p_discount, 0), 0), v_amount);
+
+  -- Tax is charged by the buyer's billing country; plan prices include it
+  SELECT * INTO v_profile
+  FROM billing_profiles
+  WHERE user_id = p_user_id;
+
+  IF v_profile.country IS NOT NULL THEN
+    SELECT * INTO v_tax_rate
+    FROM tax_rates
+    WHERE country = v_profile.country
+      AND active = true;
+  END IF;
+
+  v_tax := calculate_included_tax(v_amount - v_discount, COALESCE(v_tax_rate.rate, 0));
+
+  -- Generate invoice number
+  v_invoice_number := generate_invoice_number();
+
+  -- Create or update invoice
+  INSERT INTO invoices (
+    id,
+    user_id,
+    subscription_id,
+    invoice_number,
+    status,
+    subtotal,
+    tax,
+    discount,
+    discount_code,
+    total,
+    tax_rate,
+    tax_name,
+    tax_country,
+    buyer_name,
+    buyer_tax_id,
+    buyer_address,
+    currency,
+    invoice_date,
+    due_date,
+    paid_at,
+    period_start,
+    period_end,
+    payment_method,
+    stripe_payment_intent_id,
+    description,
+    restaurant_id,
+    restaurant_name,
+    metadata,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    p_user_id,
+    p_subscription_id,
+    v_invoice_number,
+    'paid',
+    v_amount,
+    v_tax,
+    v_discount,
+    CASE WHEN v_discount > 0 THEN UPPER(p_discount_code) ELSE NULL END,
+    v_amount - v_discount,
+    COALESCE(v_tax_rate.rate, 0),
+    v_tax_rate.name,
+    v_profile.country,
+    v_profile.legal_name,
+    v_profile.tax_id,
+    format_billing_address(v_profile),
+    v_currency,
+    NOW(),
+    NOW(),
+    NOW(),
+    p_period_start,
+    p_period_end,
+    'Card',
+    p_stripe_payment_intent_id,
+    get_plan_description(p_plan_type),
+    v_restaurant_id,
+    COALESCE(v_restaurant_name, 'Customer'),
+    jsonb_build_object(
+      'plan_type', p_plan_type,
+      'auto_generated', true
+    ),
+    NOW(),
+    NOW()
+  )
+  ON CONFLICT (subscription_id, period_start)
+  DO UPDATE SET
+    status = EXCLUDED.status,
+    paid_at = EXCLUDED.paid_at,
+    -- Several Stripe events land on the same period; only the one carrying the discount sets it
+    discount = CASE WHEN EXCLUDED.discount > 0 THEN EXCLUDED.discount ELSE invoices.discount END,
+    discount_code = CASE WHEN EXCLUDED.discount > 0 THEN EXCLUDED.discount_code ELSE invoices.discount_code END,
+    total = invoices.subtotal
+      - CASE WHEN EXCLUDED.discount > 0 THEN EXCLUDED.discount ELSE invoices.discount END,
+    tax = calculate_included_tax(
+      invoices.subtotal - CASE WHEN EXCLUDED.discount > 0 THEN EXCLUDED.discount ELSE invoices.discount END,
+      invoices.tax_rate
+    ),
+    updated_at = NOW()
+  RETURNING id INTO v_invoice_id;
+
+  -- Create line item for the invoice
+  INSERT INTO invoice_line_items (
+    id,
+    invoice_id,
+    description,
+    quantity,
+    unit_price,
+    amount,
+    tax_rate,
+    tax_amount,
+    item_type,
+    created_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    v_invoice_id,
+    get_plan_description(p_plan_type),
+    1,
+    v_amount,
+    v_amount,
+    COALESCE(v_tax_rate.rate, 0),
+    v_tax,
+    'subscription',
+    NOW()
+  )
+  ON CONFLICT DO NOTHING;
+
+  -- Keep the line tax in step with the invoice when a later event changed the discount
+  UPDATE invoice_line_items li
+  SET
+    tax_rate = i.tax_rate,
+    tax_amount = i.tax
+  FROM invoices i
+  WHERE li.invoice_id = v_invoice_id
+    AND i.id = v_invoice_id
+    AND li.item_type = 'subscription';
+
+  -- Count the redemption when the code is a local coupon (Stripe promotion codes are tracked by Stripe)
+  IF v_discount > 0 AND p_discount_code IS NOT NULL THEN
+    WITH redemption AS (
+      INSERT INTO coupon_redemptions (coupon_id, user_id, invoice_id, discount)
+      SELECT c.id, p_user_id, v_invoice_id, v_discount
+      FROM coupons c
+      WHERE c.code = UPPER(p_discount_code)
+      ON CONFLICT (coupon_id, invoice_id) DO NOTHING
+      RETURNING coupon_id
+    )
+    -- Each owner counts once towards max_redemptions, so renewals of a discounted subscription
+    -- do not use it up; the NOT EXISTS sees the redemptions from before this insert
+    UPDATE coupons
+    SET times_redeemed = times_redeemed + 1
+    WHERE id IN (SELECT coupon_id FROM redemption)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM coupon_redemptions cr
+        WHERE cr.coupon_id = coupons.id
+          AND cr.user_id = p_user_id
+      );
+  END IF;
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS public.handle_subscription_webhook(uuid, text, text, text, text, timestamptz, timestamptz, text, timestamptz, numeric, text);
+
+CREATE OR REPLACE FUNCTION public.handle_subscription_webhook(
+  p_user_id uuid,
+  p_plan_type text,
+  p_status text,
+  p_stripe_subscription_id text DEFAULT NULL,
+  p_stripe_customer_id text DEFAULT NULL,
+  p_period_start timestamptz DEFAULT NULL,
+  p_period_end timestamptz DEFAULT NULL,
+  p_stripe_event_id text DEFAULT NULL,
+  p_event_created timestamptz DEFAULT NULL,
+  p_discount numeric DEFAULT 0,
+  p_discount_code text DEFAULT NULL,
+  p_currency text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_subscription_id uuid;
+  v_last_event_at timestamptz;
+  v_period_start timestamptz;
+  v_period_end timestamptz;
+  v_plan_type subscription_plan_type;
+  v_status subscription_status;
+  v_invoice_id uuid;
+  v_duration_days integer;
+  v_billing_period_text text;
+  v_is_accurate boolean;
+  result jsonb;
+BEGIN
+  RAISE NOTICE 'Processing subscription webhook for user: %, plan: %, status: %', p_user_id, p_plan_type, p_status;
+
+  -- Validate and cast plan type
+  BEGIN
+    v_plan_type := p_plan_type::subscription_plan_type;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid plan type: %. Must be one of: trial, monthly, semiannual, annual', p_plan_type;
+  END;
+
+  -- Validate and cast status
+  BEGIN
+    v_status := p_status::subscription_status;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid status: %. Must be one of: active, expired, cancelled, past_due', p_status;
+  END;
+
+  -- Check if subscription exists
+  SELECT id, last_stripe_event_at INTO v_subscription_id, v_last_event_at
+  FROM subscriptions
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- Ignore Stripe events older than the state already applied
+  IF p_event_created IS NOT NULL AND v_last_event_at IS NOT NULL AND p_event_created < v_last_event_at THEN
+    RAISE NOTICE 'Skipping stale event % (created %, last applied %)', p_stripe_event_id, p_event_created, v_last_event_at;
+
+    RETURN jsonb_build_object(
+      'skipped', true,
+      'reason', 'stale_event',
+      'subscription_id', v_subscription_id,
+      'user_id', p_user_id,
+      'event_created', p_event_created,
+      'last_applied_event_at', v_last_event_at
+    );
+  END IF;
+
+  -- Calculate periods if not provided
+  v_period_start := COALESCE(p_period_start, NOW());
+
+  IF p_period_end IS NULL THEN
+    CASE v_plan_type
+      WHEN 'trial' THEN
+        v_period_end := v_period_start + INTERVAL '30 days';
+      WHEN 'monthly' THEN
+        v_period_end := v_period_start + INTERVAL '1 month';
+      WHEN 'semiannual' THEN
+        v_period_end := v_period_start + INTERVAL '6 months';
+      WHEN 'annual' THEN
+        v_period_end := v_period_start + INTERVAL '1 year';
+    END CASE;
+  ELSE
+    v_period_end := p_period_end;
+  END IF;
+
+  -- Calculate duration and billing period text
+  v_duration_days := EXTRACT(DAY FROM (v_period_end - v_period_start))::integer;
+
+  v_billing_period_text := TO_CHAR(v_period_start, 'Mon DD, YYYY') || ' - ' ||
+                          TO_CHAR(v_period_end, 'Mon DD, YYYY') ||
+                          ' (' || v_duration_days || ' days)';
+
+  -- Determine if period is accurate
+  v_is_accurate := CASE v_plan_type
+    WHEN 'monthly' THEN v_duration_days BETWEEN 28 AND 31
+    WHEN 'semiannual' THEN v_duration_days BETWEEN 180 AND 186
+    WHEN 'annual' THEN v_duration_days BETWEEN 360 AND 370
+    WHEN 'trial' THEN v_duration_days BETWEEN 28 AND 32
+    ELSE true
+  END;
+
+  IF v_subscription_id IS NOT NULL THEN
+    -- Update existing subscription
+    UPDATE subscriptions
+    SET
+      plan_type = v_plan_type,
+      status = v_status,
+      stripe_subscription_id = COALESCE(p_stripe_subscription_id, stripe_subscription_id),
+      stripe_customer_id = COALESCE(p_stripe_customer_id, stripe_customer_id),
+      currency = COALESCE(UPPER(p_currency), currency),
+      current_period_start = v_period_start,
+      current_period_end = v_period_end,
+      billing_period_text = v_billing_period_text,
+      billing_period_accurate = v_is_accurate,
+      last_stripe_event_at = COALESCE(p_event_created, last_stripe_event_at),
+      last_stripe_event_id = COALESCE(p_stripe_event_id, last_stripe_event_id),
+      updated_at = NOW()
+    WHERE id = v_subscription_id;
+
+    RAISE NOTICE 'Updated existing subscription: %', v_subscription_id;
+
+    -- Clear a scheduled plan change once Stripe reports the new plan for the new period
+    UPDATE subscriptions
+    SET
+      scheduled_plan_type = NULL,
+      scheduled_change_at = NULL,
+      stripe_schedule_id = NULL
+    WHERE id = v_subscription_id
+      AND scheduled_plan_type = v_plan_type::text
+      AND v_period_start >= scheduled_change_at - INTERVAL '1 minute';
+
+    IF FOUND THEN
+      RAISE NOTICE 'Applied scheduled plan change to % for subscription: %', v_plan_type, v_subscription_id;
+    END IF;
+  ELSE
+    -- Create new subscription
+    INSERT INTO subscriptions (
+      user_id,
+      plan_type,
+      status,
+      stripe_subscription_id,
+      stripe_customer_id,
+      currency,
+      current_period_start,
+      current_period_end,
+      billing_period_text,
+      billing_period_accurate,
+      last_stripe_event_at,
+      last_stripe_event_id,
+      created_at,
+      updated_at
+    ) VALUES (
+      p_user_id,
+      v_plan_type,
+      v_status,
+      p_stripe_subscription_id,
+      p_stripe_customer_id,
+      UPPER(p_currency),
+      v_period_start,
+      v_period_end,
+      v_billing_period_text,
+      v_is_accurate,
+      p_event_created,
+      p_stripe_event_id,
+      NOW(),
+      NOW()
+    ) RETURNING id INTO v_subscription_id;
+
+    RAISE NOTICE 'Created new subscription: %', v_subscription_id;
+  END IF;
+
+  -- Generate invoice if status is active or paid
+  IF v_status IN ('active'::subscription_status, 'paid'::subscription_status) THEN
+    BEGIN
+      v_invoice_id := generate_invoice_for_subscription(
+        v_subscription_id,
+        p_user_id,
+        v_plan_type::text,
+        v_period_start,
+        v_period_end,
+        p_stripe_subscription_id,
+        p_discount,
+        p_discount_code
+      );
+      RAISE NOTICE 'Invoice generated successfully: %', v_invoice_id;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Failed to generate invoice: %', SQLERRM;
+    END;
+  END IF;
+
+  -- Return result
+  result := jsonb_build_object(
+    'subscription_id', v_subscription_id,
+    'invoice_id', v_invoice_id,
+    'user_id', p_user_id,
+    'plan_type', v_plan_type::text,
+    'status', v_status::text,
+    'period_start', v_period_start,
+    'period_end', v_period_end,
+    'billing_period_text', v_billing_period_text,
+    'billing_period_accurate', v_is_accurate,
+    'duration_days', v_duration_days,
+    'stripe_event_id', p_stripe_event_id,
+    'processed_at', NOW()
+  );
+
+  RAISE NOTICE 'Webhook processing complete: %', result;
+  RETURN result;
+
+EXCEPTION WHEN OTHERS THEN
+  RAISE EXCEPTION 'Webhook processing failed: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
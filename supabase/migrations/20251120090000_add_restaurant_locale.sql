@@ -0,0 +1,14 @@
+/*
+  # Restaurant Locale for Receipts
+
+  1. Purpose
+    - download-receipt renders receipts in the restaurant's language when no
+      `locale` query parameter is given
+
+  2. Changes
+    - `restaurants.locale`: BCP 47 language tag (e.g. 'en', 'ar', 'fr-FR'); receipts
+      currently support English, Arabic (right-to-left) and French and fall back to English
+*/
+
+ALTER TABLE restaurants ADD COLUMN IF NOT EXISTS locale text NOT NULL DEFAULT 'en'
+  CHECK (locale ~ '^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})*$');
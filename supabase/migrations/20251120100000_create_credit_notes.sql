@@ -0,0 +1,192 @@
+/*
+  # Credit Notes for Refunds
+
+  1. Problem
+    - Refunds could only be issued from the Stripe dashboard and left no trace on our invoices
+    - Customers had no document showing what was refunded against which invoice
+
+  2. New Tables
+    - `credit_notes`: one row per Stripe refund, numbered `CN-000001`, linked to the refunded invoice;
+      `tax` is the share of the invoice tax included in the refunded amount
+
+  3. Changes
+    - `invoices.amount_refunded`: total of issued credit notes (cents)
+    - `generate_credit_note_number`: next credit note number, serialised with an advisory lock
+    - `record_credit_note`: creates or updates the credit note for a Stripe refund; called by
+      issue-refund and by the charge.refunded webhook, whichever arrives first, and again by the
+      refund.updated / charge.refund.updated webhooks when the refund later succeeds, fails or is
+      cancelled (failed and cancelled refunds void their credit note)
+
+  4. Security
+    - Users can read their own credit notes; the service role manages the table
+    - Only the service role can execute `record_credit_note`
+*/
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  credit_note_number text NOT NULL UNIQUE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'issued', 'void')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  tax numeric NOT NULL DEFAULT 0,
+  currency text NOT NULL,
+  reason text,
+  stripe_refund_id text NOT NULL UNIQUE,
+  stripe_charge_id text,
+  issued_by uuid,
+  issued_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice
+  ON credit_notes (invoice_id);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_user
+  ON credit_notes (user_id, created_at DESC);
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS amount_refunded numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE credit_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own credit notes" ON credit_notes;
+DROP POLICY IF EXISTS "Service role full access" ON credit_notes;
+
+CREATE POLICY "Users can read own credit notes"
+  ON credit_notes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access"
+  ON credit_notes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Function to generate credit note number. The lock is held until the calling transaction
+-- commits, so two refunds recorded at once cannot both take the same number.
+CREATE OR REPLACE FUNCTION generate_credit_note_number()
+RETURNS TEXT AS $$
+DECLARE
+  next_number INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('credit_note_number'));
+
+  SELECT COALESCE(MAX(CAST(SUBSTRING(credit_note_number FROM 4) AS INTEGER)), 0) + 1
+  INTO next_number
+  FROM credit_notes
+  WHERE credit_note_number LIKE 'CN-%';
+
+  RETURN 'CN-' || LPAD(next_number::TEXT, 6, '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create or update the credit note for a Stripe refund.
+-- p_status is the Stripe refund status: succeeded issues the note, failed/canceled voids it.
+CREATE OR REPLACE FUNCTION public.record_credit_note(
+  p_invoice_id uuid,
+  p_stripe_refund_id text,
+  p_amount numeric,
+  p_status text,
+  p_reason text DEFAULT NULL,
+  p_stripe_charge_id text DEFAULT NULL,
+  p_issued_by uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_credit_note credit_notes%ROWTYPE;
+  v_status text;
+  v_refundable numeric;
+BEGIN
+  v_status := CASE
+    WHEN p_status = 'succeeded' THEN 'issued'
+    WHEN p_status IN ('failed', 'canceled') THEN 'void'
+    ELSE 'pending'
+  END;
+
+  -- Lock the invoice so concurrent refunds can't exceed its total
+  SELECT * INTO v_invoice
+  FROM invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found: %', p_invoice_id;
+  END IF;
+
+  SELECT * INTO v_credit_note
+  FROM credit_notes
+  WHERE stripe_refund_id = p_stripe_refund_id;
+
+  IF FOUND THEN
+    UPDATE credit_notes
+    SET
+      status = v_status,
+      stripe_charge_id = COALESCE(p_stripe_charge_id, stripe_charge_id),
+      issued_at = CASE WHEN v_status = 'issued' THEN COALESCE(issued_at, NOW()) ELSE issued_at END,
+      updated_at = NOW()
+    WHERE id = v_credit_note.id
+    RETURNING * INTO v_credit_note;
+  ELSE
+    SELECT v_invoice.total - COALESCE(SUM(amount), 0) INTO v_refundable
+    FROM credit_notes
+    WHERE invoice_id = p_invoice_id
+      AND status IN ('pending', 'issued');
+
+    IF v_status <> 'void' AND p_amount > v_refundable THEN
+      RAISE EXCEPTION 'Refund of % exceeds the refundable amount % on invoice %',
+        p_amount, v_refundable, v_invoice.invoice_number;
+    END IF;
+
+    INSERT INTO credit_notes (
+      invoice_id,
+      user_id,
+      credit_note_number,
+      status,
+      amount,
+      tax,
+      currency,
+      reason,
+      stripe_refund_id,
+      stripe_charge_id,
+      issued_by,
+      issued_at
+    ) VALUES (
+      p_invoice_id,
+      v_invoice.user_id,
+      generate_credit_note_number(),
+      v_status,
+      p_amount,
+      CASE WHEN v_invoice.total > 0 THEN ROUND(v_invoice.tax * p_amount / v_invoice.total) ELSE 0 END,
+      v_invoice.currency,
+      p_reason,
+      p_stripe_refund_id,
+      p_stripe_charge_id,
+      p_issued_by,
+      CASE WHEN v_status = 'issued' THEN NOW() ELSE NULL END
+    )
+    RETURNING * INTO v_credit_note;
+  END IF;
+
+  UPDATE invoices
+  SET
+    amount_refunded = (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM credit_notes
+      WHERE invoice_id = p_invoice_id
+        AND status = 'issued'
+    ),
+    updated_at = NOW()
+  WHERE id = p_invoice_id;
+
+  RETURN to_jsonb(v_credit_note);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refunds are recorded by edge functions only
+REVOKE EXECUTE ON FUNCTION public.record_credit_note(uuid, text, numeric, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_credit_note(uuid, text, numeric, text, text, text, uuid) TO service_role;
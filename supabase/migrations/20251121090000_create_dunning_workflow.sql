@@ -0,0 +1,279 @@
+/*
+  # Dunning Workflow for Past-Due Subscriptions
+
+  1. Problem
+    - A failed renewal only set the subscription to past_due; owners were not reminded
+      and kept their paid plan limits indefinitely while Stripe retried the card
+
+  2. New Tables
+    - `dunning_steps`: the configurable schedule; each step runs `day` days after the
+      subscription became past_due. `reminder` steps email the owner, the `restrict` step
+      ends the grace period. Seeded with reminders on days 1, 3 and 7 and restriction on day 10
+    - `dunning_events`: log of every step taken, one row per step per past-due episode
+
+  3. Changes
+    - `subscriptions.past_due_since`: start of the current past-due episode
+    - `subscriptions.access_restricted_at`: set when the grace period ends
+    - Trigger `track_subscription_dunning` sets and clears both columns;
+      `log_subscription_dunning` logs the start and recovery of each episode
+    - `resolve_restaurant_plan_features` falls back to the trial plan once access is restricted
+    - `get_dunning_grace_period_days`: day of the restrict step
+    - `claim_dunning_step`: claims a due step for one run; failed steps and steps left in
+      processing by a crashed run are claimed again, up to a maximum number of attempts
+
+  4. Deployment
+    - Run the process-dunning function on a schedule (hourly is enough) with the service role key
+
+  5. Security
+    - Users can read their own dunning events; the service role manages both tables
+    - Only the service role can execute `claim_dunning_step`
+*/
+
+CREATE TABLE IF NOT EXISTS dunning_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  step_key text NOT NULL UNIQUE,
+  day integer NOT NULL CHECK (day >= 0),
+  action text NOT NULL CHECK (action IN ('reminder', 'restrict')),
+  email_subject text,
+  email_body text,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  CHECK (action = 'restrict' OR (email_subject IS NOT NULL AND email_body IS NOT NULL))
+);
+
+-- Only one step may end the grace period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dunning_steps_single_restrict
+  ON dunning_steps (action)
+  WHERE action = 'restrict' AND active;
+
+CREATE TABLE IF NOT EXISTS dunning_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  past_due_since timestamptz NOT NULL,
+  step_key text NOT NULL,
+  status text NOT NULL CHECK (status IN ('processing', 'sent', 'applied', 'skipped', 'failed', 'logged')),
+  attempts integer NOT NULL DEFAULT 0,
+  error_message text,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE (subscription_id, past_due_since, step_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dunning_events_user
+  ON dunning_events (user_id, created_at DESC);
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS past_due_since timestamptz;
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS access_restricted_at timestamptz;
+
+-- Subscriptions already past due start their grace period from their last update
+UPDATE subscriptions
+SET past_due_since = updated_at
+WHERE status = 'past_due'
+  AND past_due_since IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_past_due_since
+  ON subscriptions (past_due_since)
+  WHERE past_due_since IS NOT NULL;
+
+INSERT INTO dunning_steps (step_key, day, action, email_subject, email_body) VALUES
+  (
+    'reminder_day_1', 1, 'reminder',
+    'Your LEYLS payment failed',
+    E'Hi {{restaurant_name}},\n\nWe could not collect the payment for your {{plan_type}} plan. '
+    || E'Please update your payment method so your loyalty program keeps running without interruption.\n\n'
+    || E'Your account stays fully active until {{grace_period_end}}.\n\nUpdate your billing details: {{billing_url}}'
+  ),
+  (
+    'reminder_day_3', 3, 'reminder',
+    'Reminder: update your LEYLS payment method',
+    E'Hi {{restaurant_name}},\n\nYour last payment is still outstanding. '
+    || E'You have {{days_left}} days left before your account is limited to trial features.\n\n'
+    || E'Update your billing details: {{billing_url}}'
+  ),
+  (
+    'reminder_day_7', 7, 'reminder',
+    'Final reminder: your LEYLS account will be restricted',
+    E'Hi {{restaurant_name}},\n\nWe still could not collect your payment. '
+    || E'On {{grace_period_end}} your account will be limited to trial features.\n\n'
+    || E'Update your billing details now to keep full access: {{billing_url}}'
+  ),
+  ('restrict_access', 10, 'restrict', NULL, NULL)
+ON CONFLICT (step_key) DO NOTHING;
+
+ALTER TABLE dunning_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dunning_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access" ON dunning_steps;
+DROP POLICY IF EXISTS "Service role full access" ON dunning_events;
+DROP POLICY IF EXISTS "Users can read own dunning events" ON dunning_events;
+
+CREATE POLICY "Service role full access"
+  ON dunning_steps
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role full access"
+  ON dunning_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can read own dunning events"
+  ON dunning_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Days between the start of a past-due episode and restricted access
+CREATE OR REPLACE FUNCTION public.get_dunning_grace_period_days()
+RETURNS integer AS $$
+  SELECT COALESCE(
+    (SELECT day FROM dunning_steps WHERE action = 'restrict' AND active),
+    10
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Starts a past-due episode when a subscription turns past_due and ends it on any other status
+CREATE OR REPLACE FUNCTION public.track_subscription_dunning()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'past_due'::subscription_status THEN
+    IF NEW.past_due_since IS NULL THEN
+      NEW.past_due_since := NOW();
+      NEW.access_restricted_at := NULL;
+    END IF;
+  ELSE
+    NEW.past_due_since := NULL;
+    NEW.access_restricted_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Logs the start and end of each past-due episode
+CREATE OR REPLACE FUNCTION public.log_subscription_dunning()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.past_due_since IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.past_due_since IS DISTINCT FROM NEW.past_due_since) THEN
+    INSERT INTO dunning_events (subscription_id, user_id, past_due_since, step_key, status)
+    VALUES (NEW.id, NEW.user_id, NEW.past_due_since, 'past_due', 'logged')
+    ON CONFLICT (subscription_id, past_due_since, step_key) DO NOTHING;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.past_due_since IS NOT NULL AND NEW.past_due_since IS NULL THEN
+    INSERT INTO dunning_events (subscription_id, user_id, past_due_since, step_key, status)
+    VALUES (NEW.id, NEW.user_id, OLD.past_due_since, 'recovered_' || NEW.status::text, 'logged')
+    ON CONFLICT (subscription_id, past_due_since, step_key) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS track_subscription_dunning ON subscriptions;
+CREATE TRIGGER track_subscription_dunning
+  BEFORE INSERT OR UPDATE OF status ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION track_subscription_dunning();
+
+DROP TRIGGER IF EXISTS log_subscription_dunning ON subscriptions;
+CREATE TRIGGER log_subscription_dunning
+  AFTER INSERT OR UPDATE OF status ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION log_subscription_dunning();
+
+-- Effective plan and features for a restaurant; restricted past-due owners fall back to trial
+CREATE OR REPLACE FUNCTION public.resolve_restaurant_plan_features(p_restaurant_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_plan_type text;
+  v_status text;
+  v_period_end timestamptz;
+  v_access_restricted_at timestamptz;
+  v_features jsonb;
+BEGIN
+  SELECT s.plan_type::text, s.status::text, s.current_period_end, s.access_restricted_at
+  INTO v_plan_type, v_status, v_period_end, v_access_restricted_at
+  FROM restaurants r
+  LEFT JOIN subscriptions s ON s.user_id = r.owner_id
+  WHERE r.id = p_restaurant_id;
+
+  -- Without a current period the restaurant is limited to the trial plan
+  IF v_plan_type IS NULL
+     OR v_period_end IS NULL
+     OR v_period_end <= NOW()
+     OR v_status NOT IN ('active', 'cancelled', 'past_due')
+     OR (v_status = 'past_due' AND v_access_restricted_at IS NOT NULL) THEN
+    v_plan_type := 'trial';
+  END IF;
+
+  SELECT features INTO v_features
+  FROM plans
+  WHERE plan_type = v_plan_type;
+
+  RETURN jsonb_build_object(
+    'plan_type', v_plan_type,
+    'features', COALESCE(v_features, '{}'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Claims a dunning step of a past-due episode and returns the event id, or NULL when another run holds it,
+-- it already completed or it ran out of attempts. A step left in processing for longer than p_stale_seconds
+-- is treated as abandoned by a crashed run.
+CREATE OR REPLACE FUNCTION public.claim_dunning_step(
+  p_subscription_id uuid,
+  p_user_id uuid,
+  p_past_due_since timestamptz,
+  p_step_key text,
+  p_stale_seconds integer,
+  p_max_attempts integer
+)
+RETURNS uuid AS $$
+DECLARE
+  v_event_id uuid;
+BEGIN
+  -- An abandoned step that has used all its attempts is given up on
+  UPDATE dunning_events
+  SET
+    status = 'failed',
+    error_message = COALESCE(error_message, 'Abandoned while processing'),
+    updated_at = NOW()
+  WHERE subscription_id = p_subscription_id
+    AND past_due_since = p_past_due_since
+    AND step_key = p_step_key
+    AND status = 'processing'
+    AND updated_at < NOW() - make_interval(secs => p_stale_seconds)
+    AND attempts >= p_max_attempts;
+
+  INSERT INTO dunning_events (subscription_id, user_id, past_due_since, step_key, status, attempts)
+  VALUES (p_subscription_id, p_user_id, p_past_due_since, p_step_key, 'processing', 1)
+  ON CONFLICT (subscription_id, past_due_since, step_key) DO UPDATE
+  SET
+    status = 'processing',
+    attempts = dunning_events.attempts + 1,
+    error_message = NULL,
+    updated_at = NOW()
+  WHERE dunning_events.attempts < p_max_attempts
+    AND (
+      dunning_events.status = 'failed'
+      OR (
+        dunning_events.status = 'processing'
+        AND dunning_events.updated_at < NOW() - make_interval(secs => p_stale_seconds)
+      )
+    )
+  RETURNING id INTO v_event_id;
+
+  RETURN v_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.claim_dunning_step(uuid, uuid, timestamptz, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_dunning_step(uuid, uuid, timestamptz, text, integer, integer) TO service_role;
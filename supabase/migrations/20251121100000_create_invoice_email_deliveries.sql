@@ -0,0 +1,55 @@
+/*
+  # Invoice Emails
+
+  1. Problem
+    - Owners were never told when a renewal created an invoice; receipts could only be
+      downloaded from BillingPage
+
+  2. New Tables
+    - `invoice_email_deliveries`: log of every invoice email, automatic or resent from BillingPage,
+      with the recipient, provider outcome and error
+
+  3. Changes
+    - `billing_profiles.billing_email`: billing contact that receives invoices;
+      the account email is used when it is empty
+
+  4. Security
+    - Users can read the delivery log of their own invoices; the service role writes it
+*/
+
+ALTER TABLE billing_profiles ADD COLUMN IF NOT EXISTS billing_email text;
+
+CREATE TABLE IF NOT EXISTS invoice_email_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  recipient text NOT NULL,
+  trigger text NOT NULL CHECK (trigger IN ('automatic', 'resend')),
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  provider text,
+  provider_message_id text,
+  error_message text,
+  requested_by uuid,
+  created_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_email_deliveries_invoice
+  ON invoice_email_deliveries (invoice_id, created_at DESC);
+
+ALTER TABLE invoice_email_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own invoice email deliveries" ON invoice_email_deliveries;
+DROP POLICY IF EXISTS "Service role full access" ON invoice_email_deliveries;
+
+CREATE POLICY "Users can read own invoice email deliveries"
+  ON invoice_email_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access"
+  ON invoice_email_deliveries
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
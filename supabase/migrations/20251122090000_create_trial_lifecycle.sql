@@ -0,0 +1,313 @@
+/*
+  # Trial Lifecycle
+
+  1. Problem
+    - A trial was only a 30-day subscription period: owners were never told it was ending,
+      support could not extend it, and there was no way to measure trial-to-paid conversion
+
+  2. New Tables
+    - `trials`: one row per owner who started a trial, with its current state
+      (started, reminder_sent, extended, converted, expired) and end date
+    - `trial_events`: every state transition, with who made it and why
+
+  3. Changes
+    - `transition_trial`: moves a trial to a new state; only these transitions are allowed
+        started       -> reminder_sent, extended, converted, expired
+        reminder_sent -> extended, converted, expired
+        extended      -> reminder_sent, extended, converted, expired
+        expired       -> extended, converted
+      converted is final
+    - `extend_trial`: support extension; pushes the trial and subscription period end back
+      and reactivates an expired trial
+    - Trigger `track_subscription_trial` starts a trial when a trial subscription is created
+      and converts it when the owner moves to a paid plan
+    - `get_trial_conversion_stats`: trial counts and trial-to-paid conversion rate
+    - Existing trial subscriptions are backfilled
+
+  4. Deployment
+    - Run the process-trials function on a schedule (hourly is enough) with the service role key
+
+  5. Security
+    - Users can read their own trial and its events; the service role manages both tables
+    - `transition_trial` and `extend_trial` can only be called with the service role
+    - `get_trial_conversion_stats` covers every owner, so it is limited to the service role;
+      support staff read it through the get-subscription-stats function
+*/
+
+CREATE TABLE IF NOT EXISTS trials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE,
+  subscription_id uuid REFERENCES subscriptions(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'started'
+    CHECK (status IN ('started', 'reminder_sent', 'extended', 'converted', 'expired')),
+  started_at timestamptz NOT NULL DEFAULT NOW(),
+  ends_at timestamptz NOT NULL,
+  original_ends_at timestamptz NOT NULL,
+  extended_days integer NOT NULL DEFAULT 0,
+  reminder_sent_at timestamptz,
+  converted_at timestamptz,
+  converted_plan_type text,
+  expired_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trials_open_ends_at
+  ON trials (ends_at)
+  WHERE status IN ('started', 'reminder_sent', 'extended');
+
+CREATE TABLE IF NOT EXISTS trial_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trial_id uuid NOT NULL REFERENCES trials(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  actor_id uuid,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trial_events_trial
+  ON trial_events (trial_id, created_at DESC);
+
+ALTER TABLE trials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trial_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own trial" ON trials;
+DROP POLICY IF EXISTS "Service role full access" ON trials;
+DROP POLICY IF EXISTS "Users can read own trial events" ON trial_events;
+DROP POLICY IF EXISTS "Service role full access" ON trial_events;
+
+CREATE POLICY "Users can read own trial"
+  ON trials
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access"
+  ON trials
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can read own trial events"
+  ON trial_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access"
+  ON trial_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Moves a trial to p_to_status if the state machine allows it; returns the trial and the logged event id.
+-- Rejected transitions return transitioned = false so concurrent workers cannot repeat a step.
+CREATE OR REPLACE FUNCTION public.transition_trial(
+  p_user_id uuid,
+  p_to_status text,
+  p_actor_id uuid DEFAULT NULL,
+  p_details jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_trial trials%ROWTYPE;
+  v_from_status text;
+  v_event_id uuid;
+BEGIN
+  SELECT * INTO v_trial
+  FROM trials
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No trial found for user %', p_user_id;
+  END IF;
+
+  IF NOT (
+    (v_trial.status IN ('started', 'extended') AND p_to_status IN ('reminder_sent', 'extended', 'converted', 'expired'))
+    OR (v_trial.status = 'reminder_sent' AND p_to_status IN ('extended', 'converted', 'expired'))
+    OR (v_trial.status = 'expired' AND p_to_status IN ('extended', 'converted'))
+  ) THEN
+    RETURN jsonb_build_object(
+      'transitioned', false,
+      'reason', format('Cannot move a %s trial to %s', v_trial.status, p_to_status),
+      'trial', to_jsonb(v_trial)
+    );
+  END IF;
+
+  v_from_status := v_trial.status;
+
+  UPDATE trials
+  SET
+    status = p_to_status,
+    reminder_sent_at = CASE WHEN p_to_status = 'reminder_sent' THEN NOW() ELSE reminder_sent_at END,
+    converted_at = CASE WHEN p_to_status = 'converted' THEN NOW() ELSE converted_at END,
+    converted_plan_type = CASE WHEN p_to_status = 'converted' THEN p_details->>'plan_type' ELSE converted_plan_type END,
+    expired_at = CASE WHEN p_to_status = 'expired' THEN NOW() ELSE expired_at END,
+    updated_at = NOW()
+  WHERE id = v_trial.id
+  RETURNING * INTO v_trial;
+
+  INSERT INTO trial_events (trial_id, user_id, from_status, to_status, actor_id, details)
+  VALUES (v_trial.id, v_trial.user_id, v_from_status, p_to_status, p_actor_id, COALESCE(p_details, '{}'::jsonb))
+  RETURNING id INTO v_event_id;
+
+  RETURN jsonb_build_object(
+    'transitioned', true,
+    'event_id', v_event_id,
+    'trial', to_jsonb(v_trial)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Extends a trial by p_days from its current end, or from now if it already expired, and moves the
+-- trial subscription's period end with it
+CREATE OR REPLACE FUNCTION public.extend_trial(
+  p_user_id uuid,
+  p_days integer,
+  p_actor_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_trial trials%ROWTYPE;
+  v_ends_at timestamptz;
+  v_result jsonb;
+BEGIN
+  IF p_days IS NULL OR p_days < 1 OR p_days > 90 THEN
+    RAISE EXCEPTION 'A trial can be extended by 1 to 90 days';
+  END IF;
+
+  SELECT * INTO v_trial
+  FROM trials
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No trial found for user %', p_user_id;
+  END IF;
+
+  v_ends_at := GREATEST(v_trial.ends_at, NOW()) + make_interval(days => p_days);
+
+  v_result := transition_trial(
+    p_user_id,
+    'extended',
+    p_actor_id,
+    jsonb_build_object('days', p_days, 'reason', p_reason, 'previous_ends_at', v_trial.ends_at, 'ends_at', v_ends_at)
+  );
+
+  IF NOT (v_result->>'transitioned')::boolean THEN
+    RAISE EXCEPTION '%', v_result->>'reason';
+  END IF;
+
+  UPDATE trials
+  SET
+    ends_at = v_ends_at,
+    extended_days = extended_days + p_days,
+    expired_at = NULL,
+    updated_at = NOW()
+  WHERE id = v_trial.id
+  RETURNING * INTO v_trial;
+
+  UPDATE subscriptions
+  SET
+    status = 'active',
+    current_period_end = v_ends_at,
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND plan_type = 'trial';
+
+  RETURN to_jsonb(v_trial);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.transition_trial(uuid, text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.extend_trial(uuid, integer, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.transition_trial(uuid, text, uuid, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.extend_trial(uuid, integer, uuid, text) TO service_role;
+
+-- Starts a trial for a new trial subscription and converts it when the owner moves to a paid plan
+CREATE OR REPLACE FUNCTION public.track_subscription_trial()
+RETURNS trigger AS $$
+DECLARE
+  v_trial_status text;
+BEGIN
+  SELECT status INTO v_trial_status
+  FROM trials
+  WHERE user_id = NEW.user_id;
+
+  IF NEW.plan_type = 'trial'::subscription_plan_type THEN
+    IF v_trial_status IS NULL THEN
+      WITH new_trial AS (
+        INSERT INTO trials (user_id, subscription_id, started_at, ends_at, original_ends_at)
+        VALUES (NEW.user_id, NEW.id, COALESCE(NEW.current_period_start, NOW()), NEW.current_period_end, NEW.current_period_end)
+        ON CONFLICT (user_id) DO NOTHING
+        RETURNING id, user_id
+      )
+      INSERT INTO trial_events (trial_id, user_id, from_status, to_status)
+      SELECT id, user_id, NULL, 'started'
+      FROM new_trial;
+    END IF;
+  ELSIF v_trial_status IS NOT NULL
+    AND v_trial_status <> 'converted'
+    AND NEW.status = 'active'::subscription_status
+    AND (TG_OP = 'INSERT' OR OLD.plan_type IS DISTINCT FROM NEW.plan_type OR OLD.status IS DISTINCT FROM NEW.status) THEN
+    PERFORM transition_trial(NEW.user_id, 'converted', NULL, jsonb_build_object('plan_type', NEW.plan_type::text));
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS track_subscription_trial ON subscriptions;
+CREATE TRIGGER track_subscription_trial
+  AFTER INSERT OR UPDATE OF plan_type, status ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION track_subscription_trial();
+
+-- Existing trial subscriptions join the lifecycle in the state their period implies
+INSERT INTO trials (user_id, subscription_id, status, started_at, ends_at, original_ends_at, expired_at)
+SELECT
+  s.user_id,
+  s.id,
+  CASE WHEN s.current_period_end <= NOW() OR s.status <> 'active' THEN 'expired' ELSE 'started' END,
+  s.current_period_start,
+  s.current_period_end,
+  s.current_period_end,
+  CASE WHEN s.current_period_end <= NOW() OR s.status <> 'active' THEN s.current_period_end END
+FROM subscriptions s
+WHERE s.plan_type = 'trial'
+ON CONFLICT (user_id) DO NOTHING;
+
+INSERT INTO trial_events (trial_id, user_id, from_status, to_status, details)
+SELECT t.id, t.user_id, NULL, t.status, jsonb_build_object('backfilled', true)
+FROM trials t
+WHERE NOT EXISTS (SELECT 1 FROM trial_events e WHERE e.trial_id = t.id);
+
+-- Trial counts by state and the share of finished trials that converted to a paid plan.
+-- Covers every restaurant, so only the service role may call it; support staff read it through get-subscription-stats.
+CREATE OR REPLACE FUNCTION public.get_trial_conversion_stats()
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'started', COUNT(*),
+    'active', COUNT(*) FILTER (WHERE status IN ('started', 'reminder_sent', 'extended')),
+    'extended', COUNT(*) FILTER (WHERE extended_days > 0),
+    'converted', COUNT(*) FILTER (WHERE status = 'converted'),
+    'expired', COUNT(*) FILTER (WHERE status = 'expired'),
+    'conversion_rate', COALESCE(ROUND(
+      100.0 * COUNT(*) FILTER (WHERE status = 'converted')
+        / NULLIF(COUNT(*) FILTER (WHERE status IN ('converted', 'expired')), 0),
+      1
+    ), 0),
+    'avg_days_to_convert', ROUND((AVG(EXTRACT(EPOCH FROM (converted_at - started_at)) / 86400)
+      FILTER (WHERE status = 'converted'))::numeric, 1)
+  )
+  FROM trials;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_trial_conversion_stats() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_trial_conversion_stats() TO service_role;
@@ -0,0 +1,364 @@
+/*
+  # Pause Subscriptions
+
+  1. Problem
+    - Owners could only cancel; seasonal restaurants had to cancel and sign up again
+      to stop paying for the months they are closed
+
+  2. Changes
+    - `subscription_status` gains `paused`: Stripe collection is paused (pause_collection) and
+      the dashboard is read-only until the subscription resumes
+    - `subscriptions.paused_at`: when the current pause started
+    - `subscriptions.pause_resumes_at`: when Stripe resumes collection automatically
+    - Trigger `track_subscription_pause` sets and clears both columns
+    - `handle_subscription_webhook` does not invoice the period a subscription resumes in;
+      Stripe voided its invoice while collection was paused
+    - `resolve_restaurant_plan_features` keeps the paid plan's features while paused
+    - Triggers `prevent_writes_while_paused` on `customers`, `branches`, `campaigns` and
+      `channel_provider_configs` make the restaurant's data read-only while its owner's
+      subscription is paused; the campaign runner also refuses to send for a paused owner
+
+  3. Errors
+    - Writes while paused raise SQLSTATE PT403 with message `subscription_paused`, which
+      PostgREST returns as HTTP 403
+
+  4. Notes
+    - `paused` is only referenced inside function bodies, so the new enum value can be added
+      in the same migration
+*/
+
+ALTER TYPE subscription_status ADD VALUE IF NOT EXISTS 'paused';
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS paused_at timestamptz;
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS pause_resumes_at timestamptz;
+
+-- Starts a pause when a subscription turns paused and ends it on any other status
+CREATE OR REPLACE FUNCTION public.track_subscription_pause()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status::text = 'paused' THEN
+    NEW.paused_at := COALESCE(NEW.paused_at, NOW());
+  ELSE
+    NEW.paused_at := NULL;
+    NEW.pause_resumes_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS track_subscription_pause ON subscriptions;
+CREATE TRIGGER track_subscription_pause
+  BEFORE INSERT OR UPDATE OF status ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION track_subscription_pause();
+
+-- Same as before, plus the resume check before generating an invoice
+CREATE OR REPLACE FUNCTION public.handle_subscription_webhook(
+  p_user_id uuid,
+  p_plan_type text,
+  p_status text,
+  p_stripe_subscription_id text DEFAULT NULL,
+  p_stripe_customer_id text DEFAULT NULL,
+  p_period_start timestamptz DEFAULT NULL,
+  p_period_end timestamptz DEFAULT NULL,
+  p_stripe_event_id text DEFAULT NULL,
+  p_event_created timestamptz DEFAULT NULL,
+  p_discount numeric DEFAULT 0,
+  p_discount_code text DEFAULT NULL,
+  p_currency text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_subscription_id uuid;
+  v_last_event_at timestamptz;
+  v_previous_status subscription_status;
+  v_previous_period_start timestamptz;
+  v_period_start timestamptz;
+  v_period_end timestamptz;
+  v_plan_type subscription_plan_type;
+  v_status subscription_status;
+  v_invoice_id uuid;
+  v_duration_days integer;
+  v_billing_period_text text;
+  v_is_accurate boolean;
+  result jsonb;
+BEGIN
+  RAISE NOTICE 'Processing subscription webhook for user: %, plan: %, status: %', p_user_id, p_plan_type, p_status;
+
+  -- Validate and cast plan type
+  BEGIN
+    v_plan_type := p_plan_type::subscription_plan_type;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid plan type: %. Must be one of: trial, monthly, semiannual, annual', p_plan_type;
+  END;
+
+  -- Validate and cast status
+  BEGIN
+    v_status := p_status::subscription_status;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid status: %. Must be one of: active, expired, cancelled, past_due, paused', p_status;
+  END;
+
+  -- Check if subscription exists
+  SELECT id, last_stripe_event_at, status, current_period_start
+  INTO v_subscription_id, v_last_event_at, v_previous_status, v_previous_period_start
+  FROM subscriptions
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- Ignore Stripe events older than the state already applied
+  IF p_event_created IS NOT NULL AND v_last_event_at IS NOT NULL AND p_event_created < v_last_event_at THEN
+    RAISE NOTICE 'Skipping stale event % (created %, last applied %)', p_stripe_event_id, p_event_created, v_last_event_at;
+
+    RETURN jsonb_build_object(
+      'skipped', true,
+      'reason', 'stale_event',
+      'subscription_id', v_subscription_id,
+      'user_id', p_user_id,
+      'event_created', p_event_created,
+      'last_applied_event_at', v_last_event_at
+    );
+  END IF;
+
+  -- Calculate periods if not provided
+  v_period_start := COALESCE(p_period_start, NOW());
+
+  IF p_period_end IS NULL THEN
+    CASE v_plan_type
+      WHEN 'trial' THEN
+        v_period_end := v_period_start + INTERVAL '30 days';
+      WHEN 'monthly' THEN
+        v_period_end := v_period_start + INTERVAL '1 month';
+      WHEN 'semiannual' THEN
+        v_period_end := v_period_start + INTERVAL '6 months';
+      WHEN 'annual' THEN
+        v_period_end := v_period_start + INTERVAL '1 year';
+    END CASE;
+  ELSE
+    v_period_end := p_period_end;
+  END IF;
+
+  -- Calculate duration and billing period text
+  v_duration_days := EXTRACT(DAY FROM (v_period_end - v_period_start))::integer;
+
+  v_billing_period_text := TO_CHAR(v_period_start, 'Mon DD, YYYY') || ' - ' ||
+                          TO_CHAR(v_period_end, 'Mon DD, YYYY') ||
+                          ' (' || v_duration_days || ' days)';
+
+  -- Determine if period is accurate
+  v_is_accurate := CASE v_plan_type
+    WHEN 'monthly' THEN v_duration_days BETWEEN 28 AND 31
+    WHEN 'semiannual' THEN v_duration_days BETWEEN 180 AND 186
+    WHEN 'annual' THEN v_duration_days BETWEEN 360 AND 370
+    WHEN 'trial' THEN v_duration_days BETWEEN 28 AND 32
+    ELSE true
+  END;
+
+  IF v_subscription_id IS NOT NULL THEN
+    -- Update existing subscription
+    UPDATE subscriptions
+    SET
+      plan_type = v_plan_type,
+      status = v_status,
+      stripe_subscription_id = COALESCE(p_stripe_subscription_id, stripe_subscription_id),
+      stripe_customer_id = COALESCE(p_stripe_customer_id, stripe_customer_id),
+      currency = COALESCE(UPPER(p_currency), currency),
+      current_period_start = v_period_start,
+      current_period_end = v_period_end,
+      billing_period_text = v_billing_period_text,
+      billing_period_accurate = v_is_accurate,
+      last_stripe_event_at = COALESCE(p_event_created, last_stripe_event_at),
+      last_stripe_event_id = COALESCE(p_stripe_event_id, last_stripe_event_id),
+      updated_at = NOW()
+    WHERE id = v_subscription_id;
+
+    RAISE NOTICE 'Updated existing subscription: %', v_subscription_id;
+
+    -- Clear a scheduled plan change once Stripe reports the new plan for the new period
+    UPDATE subscriptions
+    SET
+      scheduled_plan_type = NULL,
+      scheduled_change_at = NULL,
+      stripe_schedule_id = NULL
+    WHERE id = v_subscription_id
+      AND scheduled_plan_type = v_plan_type::text
+      AND v_period_start >= scheduled_change_at - INTERVAL '1 minute';
+
+    IF FOUND THEN
+      RAISE NOTICE 'Applied scheduled plan change to % for subscription: %', v_plan_type, v_subscription_id;
+    END IF;
+  ELSE
+    -- Create new subscription
+    INSERT INTO subscriptions (
+      user_id,
+      plan_type,
+      status,
+      stripe_subscription_id,
+      stripe_customer_id,
+      currency,
+      current_period_start,
+      current_period_end,
+      billing_period_text,
+      billing_period_accurate,
+      last_stripe_event_at,
+      last_stripe_event_id,
+      created_at,
+      updated_at
+    ) VALUES (
+      p_user_id,
+      v_plan_type,
+      v_status,
+      p_stripe_subscription_id,
+      p_stripe_customer_id,
+      UPPER(p_currency),
+      v_period_start,
+      v_period_end,
+      v_billing_period_text,
+      v_is_accurate,
+      p_event_created,
+      p_stripe_event_id,
+      NOW(),
+      NOW()
+    ) RETURNING id INTO v_subscription_id;
+
+    RAISE NOTICE 'Created new subscription: %', v_subscription_id;
+  END IF;
+
+  -- Generate invoice if status is active or paid. A period that started while collection was
+  -- paused was never charged, so resuming part-way through it does not invoice it.
+  IF v_status IN ('active'::subscription_status, 'paid'::subscription_status)
+     AND (v_previous_status IS DISTINCT FROM 'paused'::subscription_status
+          OR v_period_start IS DISTINCT FROM v_previous_period_start) THEN
+    BEGIN
+      v_invoice_id := generate_invoice_for_subscription(
+        v_subscription_id,
+        p_user_id,
+        v_plan_type::text,
+        v_period_start,
+        v_period_end,
+        p_stripe_subscription_id,
+        p_discount,
+        p_discount_code
+      );
+      RAISE NOTICE 'Invoice generated successfully: %', v_invoice_id;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Failed to generate invoice: %', SQLERRM;
+    END;
+  END IF;
+
+  -- Return result
+  result := jsonb_build_object(
+    'subscription_id', v_subscription_id,
+    'invoice_id', v_invoice_id,
+    'user_id', p_user_id,
+    'plan_type', v_plan_type::text,
+    'status', v_status::text,
+    'period_start', v_period_start,
+    'period_end', v_period_end,
+    'billing_period_text', v_billing_period_text,
+    'billing_period_accurate', v_is_accurate,
+    'duration_days', v_duration_days,
+    'stripe_event_id', p_stripe_event_id,
+    'processed_at', NOW()
+  );
+
+  RAISE NOTICE 'Webhook processing complete: %', result;
+  RETURN result;
+
+EXCEPTION WHEN OTHERS THEN
+  RAISE EXCEPTION 'Webhook processing failed: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Effective plan and features for a restaurant; paused owners keep their plan, restricted
+-- past-due owners fall back to trial
+CREATE OR REPLACE FUNCTION public.resolve_restaurant_plan_features(p_restaurant_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_plan_type text;
+  v_status text;
+  v_period_end timestamptz;
+  v_access_restricted_at timestamptz;
+  v_features jsonb;
+BEGIN
+  SELECT s.plan_type::text, s.status::text, s.current_period_end, s.access_restricted_at
+  INTO v_plan_type, v_status, v_period_end, v_access_restricted_at
+  FROM restaurants r
+  LEFT JOIN subscriptions s ON s.user_id = r.owner_id
+  WHERE r.id = p_restaurant_id;
+
+  -- Without a current period the restaurant is limited to the trial plan
+  IF v_plan_type IS NULL
+     OR (v_status <> 'paused' AND (v_period_end IS NULL OR v_period_end <= NOW()))
+     OR v_status NOT IN ('active', 'cancelled', 'past_due', 'paused')
+     OR (v_status = 'past_due' AND v_access_restricted_at IS NOT NULL) THEN
+    v_plan_type := 'trial';
+  END IF;
+
+  SELECT features INTO v_features
+  FROM plans
+  WHERE plan_type = v_plan_type;
+
+  RETURN jsonb_build_object(
+    'plan_type', v_plan_type,
+    'features', COALESCE(v_features, '{}'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Rejects changes to a restaurant's data while its owner's subscription is paused.
+-- The service role is exempt so billing and support jobs keep working.
+CREATE OR REPLACE FUNCTION public.prevent_writes_while_paused()
+RETURNS trigger AS $$
+DECLARE
+  v_restaurant_id uuid;
+  v_resumes_at timestamptz;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  v_restaurant_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.restaurant_id ELSE NEW.restaurant_id END;
+
+  SELECT s.pause_resumes_at INTO v_resumes_at
+  FROM restaurants r
+  JOIN subscriptions s ON s.user_id = r.owner_id
+  WHERE r.id = v_restaurant_id
+    AND s.status::text = 'paused';
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'subscription_paused'
+      USING
+        ERRCODE = 'PT403',
+        DETAIL = jsonb_build_object('resumes_at', v_resumes_at)::text,
+        HINT = 'Resume your subscription to make changes.';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS prevent_customer_writes_while_paused ON customers;
+CREATE TRIGGER prevent_customer_writes_while_paused
+  BEFORE INSERT OR UPDATE OR DELETE ON customers
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_writes_while_paused();
+
+DROP TRIGGER IF EXISTS prevent_branch_writes_while_paused ON branches;
+CREATE TRIGGER prevent_branch_writes_while_paused
+  BEFORE INSERT OR UPDATE OR DELETE ON branches
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_writes_while_paused();
+
+DROP TRIGGER IF EXISTS prevent_campaign_writes_while_paused ON campaigns;
+CREATE TRIGGER prevent_campaign_writes_while_paused
+  BEFORE INSERT OR UPDATE OR DELETE ON campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_writes_while_paused();
+
+DROP TRIGGER IF EXISTS prevent_channel_config_writes_while_paused ON channel_provider_configs;
+CREATE TRIGGER prevent_channel_config_writes_while_paused
+  BEFORE INSERT OR UPDATE OR DELETE ON channel_provider_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_writes_while_paused();
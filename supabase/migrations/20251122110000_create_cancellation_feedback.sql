@@ -0,0 +1,102 @@
+/*
+  # Cancellation Feedback and Retention Offers
+
+  1. Problem
+    - Cancelling only flipped the subscription status, so we never learned why owners left
+      and had no chance to keep them with a discount or a pause
+
+  2. New Tables
+    - `cancellation_feedback`: one row per cancellation attempt with a structured reason,
+      optional free-text feedback, the retention offer shown (discount or pause) and the outcome
+        pending         -> the owner saw the offer and has not decided yet
+        accepted_offer  -> the owner took the offer and kept the subscription
+        cancelled       -> the owner cancelled anyway
+
+  3. Changes
+    - `get_churn_reason_stats`: attempts, cancellations and offer acceptance per reason
+
+  4. Deployment
+    - Set RETENTION_COUPON_CODE on the cancel-subscription function to a Stripe promotion code
+      or local coupon; without it no discount is offered
+
+  5. Security
+    - Users can read their own feedback; the cancel-subscription function writes it with the service role
+    - `get_churn_reason_stats` covers every owner, so it is limited to the service role;
+      support staff read it through the get-subscription-stats function
+*/
+
+CREATE TABLE IF NOT EXISTS cancellation_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  subscription_id uuid REFERENCES subscriptions(id) ON DELETE SET NULL,
+  plan_type text NOT NULL,
+  reason text NOT NULL CHECK (reason IN (
+    'too_expensive', 'not_using', 'seasonal_closure', 'missing_features',
+    'switching_provider', 'technical_issues', 'other'
+  )),
+  feedback text,
+  offer_type text CHECK (offer_type IN ('discount', 'pause')),
+  offer_details jsonb,
+  outcome text NOT NULL DEFAULT 'pending'
+    CHECK (outcome IN ('pending', 'accepted_offer', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  resolved_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_cancellation_feedback_user
+  ON cancellation_feedback (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_cancellation_feedback_reason
+  ON cancellation_feedback (reason);
+
+ALTER TABLE cancellation_feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own cancellation feedback" ON cancellation_feedback;
+DROP POLICY IF EXISTS "Service role full access" ON cancellation_feedback;
+
+CREATE POLICY "Users can read own cancellation feedback"
+  ON cancellation_feedback
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access"
+  ON cancellation_feedback
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Churn analytics: attempts per reason, how many cancelled and how many accepted a retention offer.
+-- Pending attempts count towards the total but not the retention rate. Covers every owner, so only the
+-- service role may call it; support staff read it through get-subscription-stats.
+CREATE OR REPLACE FUNCTION public.get_churn_reason_stats()
+RETURNS jsonb AS $$
+  WITH by_reason AS (
+    SELECT
+      reason,
+      COUNT(*) AS attempts,
+      COUNT(*) FILTER (WHERE outcome = 'cancelled') AS cancelled,
+      COUNT(*) FILTER (WHERE outcome = 'accepted_offer') AS retained,
+      COUNT(*) FILTER (WHERE offer_type IS NOT NULL) AS offered
+    FROM cancellation_feedback
+    GROUP BY reason
+  )
+  SELECT jsonb_build_object(
+    'attempts', COALESCE(SUM(attempts), 0),
+    'cancelled', COALESCE(SUM(cancelled), 0),
+    'retained', COALESCE(SUM(retained), 0),
+    'retention_rate', COALESCE(ROUND(100.0 * SUM(retained) / NULLIF(SUM(retained) + SUM(cancelled), 0), 1), 0),
+    'by_reason', COALESCE(jsonb_agg(jsonb_build_object(
+      'reason', reason,
+      'attempts', attempts,
+      'cancelled', cancelled,
+      'retained', retained,
+      'offered', offered
+    ) ORDER BY attempts DESC), '[]'::jsonb)
+  )
+  FROM by_reason;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_churn_reason_stats() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_churn_reason_stats() TO service_role;
@@ -0,0 +1,240 @@
+/*
+  # Subscription History
+
+  1. Problem
+    - handle_subscription_webhook and the billing functions update the single subscriptions row
+      in place, so every previous plan, status and period was lost along with who changed it
+
+  2. New Tables
+    - `subscription_events`: append-only history of subscription changes with the fields that
+      changed (from/to), the kind of change and who made it
+        actor_type webhook  -> a Stripe event applied through handle_subscription_webhook
+        actor_type user     -> the owner, directly or through an edge function acting for them
+        actor_type support  -> a support agent
+        actor_type system   -> scheduled workers and anything else using the service role
+
+  3. Changes
+    - Trigger `log_subscription_event` records an event after every insert and every update that
+      changes plan, status, period, cancellation, scheduled change, pause or Stripe subscription
+    - The actor comes from, in order: the x-subscription-actor-type / x-subscription-actor-id request
+      headers (only trusted from the service role), a new Stripe event id on the row, the signed-in
+      user, otherwise system
+    - Existing subscriptions get a backfilled `created` event
+
+  4. Security
+    - Users can read their own history; support reads it through the get-subscription-history function
+    - Rows cannot be updated or deleted, not even by the service role
+    - subscription_id has no foreign key so history outlives a deleted subscription
+*/
+
+CREATE TABLE IF NOT EXISTS subscription_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  event_type text NOT NULL CHECK (event_type IN (
+    'created', 'plan_changed', 'status_changed', 'renewed',
+    'plan_change_scheduled', 'cancellation_changed', 'updated'
+  )),
+  plan_type text,
+  status text,
+  period_start timestamptz,
+  period_end timestamptz,
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  actor_type text NOT NULL CHECK (actor_type IN ('webhook', 'user', 'support', 'system')),
+  actor_id uuid,
+  stripe_event_id text,
+  created_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_events_user
+  ON subscription_events (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_events_subscription
+  ON subscription_events (subscription_id, created_at DESC);
+
+ALTER TABLE subscription_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own subscription events" ON subscription_events;
+DROP POLICY IF EXISTS "Service role can read subscription events" ON subscription_events;
+DROP POLICY IF EXISTS "Service role can insert subscription events" ON subscription_events;
+
+CREATE POLICY "Users can read own subscription events"
+  ON subscription_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can read subscription events"
+  ON subscription_events
+  FOR SELECT
+  TO service_role
+  USING (true);
+
+CREATE POLICY "Service role can insert subscription events"
+  ON subscription_events
+  FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+-- Append-only: reject every update and delete, whoever runs it
+CREATE OR REPLACE FUNCTION public.prevent_subscription_event_changes()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'subscription_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_subscription_event_changes ON subscription_events;
+
+CREATE TRIGGER prevent_subscription_event_changes
+  BEFORE UPDATE OR DELETE ON subscription_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_subscription_event_changes();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON subscription_events FROM anon, authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.log_subscription_event()
+RETURNS trigger AS $$
+DECLARE
+  v_changes jsonb := '{}'::jsonb;
+  v_event_type text;
+  v_headers jsonb;
+  v_actor_type text;
+  v_actor_id uuid;
+  v_stripe_event_id text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.plan_type IS DISTINCT FROM OLD.plan_type THEN
+      v_changes := v_changes || jsonb_build_object('plan_type', jsonb_build_object('from', OLD.plan_type, 'to', NEW.plan_type));
+    END IF;
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      v_changes := v_changes || jsonb_build_object('status', jsonb_build_object('from', OLD.status, 'to', NEW.status));
+    END IF;
+    IF NEW.current_period_start IS DISTINCT FROM OLD.current_period_start THEN
+      v_changes := v_changes || jsonb_build_object('current_period_start', jsonb_build_object('from', OLD.current_period_start, 'to', NEW.current_period_start));
+    END IF;
+    IF NEW.current_period_end IS DISTINCT FROM OLD.current_period_end THEN
+      v_changes := v_changes || jsonb_build_object('current_period_end', jsonb_build_object('from', OLD.current_period_end, 'to', NEW.current_period_end));
+    END IF;
+    IF NEW.cancel_at_period_end IS DISTINCT FROM OLD.cancel_at_period_end THEN
+      v_changes := v_changes || jsonb_build_object('cancel_at_period_end', jsonb_build_object('from', OLD.cancel_at_period_end, 'to', NEW.cancel_at_period_end));
+    END IF;
+    IF NEW.scheduled_plan_type IS DISTINCT FROM OLD.scheduled_plan_type THEN
+      v_changes := v_changes || jsonb_build_object('scheduled_plan_type', jsonb_build_object('from', OLD.scheduled_plan_type, 'to', NEW.scheduled_plan_type));
+    END IF;
+    IF NEW.pause_resumes_at IS DISTINCT FROM OLD.pause_resumes_at THEN
+      v_changes := v_changes || jsonb_build_object('pause_resumes_at', jsonb_build_object('from', OLD.pause_resumes_at, 'to', NEW.pause_resumes_at));
+    END IF;
+    IF NEW.stripe_subscription_id IS DISTINCT FROM OLD.stripe_subscription_id THEN
+      v_changes := v_changes || jsonb_build_object('stripe_subscription_id', jsonb_build_object('from', OLD.stripe_subscription_id, 'to', NEW.stripe_subscription_id));
+    END IF;
+
+    IF v_changes = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  v_event_type := CASE
+    WHEN TG_OP = 'INSERT' THEN 'created'
+    WHEN v_changes ? 'plan_type' THEN 'plan_changed'
+    WHEN v_changes ? 'status' THEN 'status_changed'
+    WHEN v_changes ? 'current_period_start' THEN 'renewed'
+    WHEN v_changes ? 'scheduled_plan_type' THEN 'plan_change_scheduled'
+    WHEN v_changes ? 'cancel_at_period_end' THEN 'cancellation_changed'
+    ELSE 'updated'
+  END;
+
+  IF TG_OP = 'INSERT' OR NEW.last_stripe_event_id IS DISTINCT FROM OLD.last_stripe_event_id THEN
+    v_stripe_event_id := NEW.last_stripe_event_id;
+  END IF;
+
+  BEGIN
+    v_headers := NULLIF(current_setting('request.headers', true), '')::jsonb;
+  EXCEPTION WHEN others THEN
+    v_headers := NULL;
+  END;
+
+  IF auth.role() = 'service_role'
+    AND v_headers->>'x-subscription-actor-type' IN ('webhook', 'user', 'support', 'system') THEN
+    v_actor_type := v_headers->>'x-subscription-actor-type';
+    IF v_headers->>'x-subscription-actor-id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+      v_actor_id := (v_headers->>'x-subscription-actor-id')::uuid;
+    END IF;
+  ELSIF v_stripe_event_id IS NOT NULL THEN
+    v_actor_type := 'webhook';
+  ELSIF auth.uid() IS NOT NULL THEN
+    v_actor_id := auth.uid();
+    v_actor_type := CASE
+      WHEN auth.uid() <> NEW.user_id
+        AND EXISTS (SELECT 1 FROM support_agents WHERE id = auth.uid() AND is_active) THEN 'support'
+      ELSE 'user'
+    END;
+  ELSE
+    v_actor_type := 'system';
+  END IF;
+
+  INSERT INTO subscription_events (
+    subscription_id,
+    user_id,
+    event_type,
+    plan_type,
+    status,
+    period_start,
+    period_end,
+    changes,
+    actor_type,
+    actor_id,
+    stripe_event_id
+  ) VALUES (
+    NEW.id,
+    NEW.user_id,
+    v_event_type,
+    NEW.plan_type,
+    NEW.status,
+    NEW.current_period_start,
+    NEW.current_period_end,
+    v_changes,
+    v_actor_type,
+    v_actor_id,
+    v_stripe_event_id
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS log_subscription_event ON subscriptions;
+
+CREATE TRIGGER log_subscription_event
+  AFTER INSERT OR UPDATE ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_subscription_event();
+
+-- Backfill: the current state of each existing subscription as its creation event
+INSERT INTO subscription_events (
+  subscription_id,
+  user_id,
+  event_type,
+  plan_type,
+  status,
+  period_start,
+  period_end,
+  changes,
+  actor_type,
+  created_at
+)
+SELECT
+  s.id,
+  s.user_id,
+  'created',
+  s.plan_type,
+  s.status,
+  s.current_period_start,
+  s.current_period_end,
+  jsonb_build_object('backfilled', true),
+  'system',
+  s.created_at
+FROM subscriptions s
+WHERE NOT EXISTS (
+  SELECT 1 FROM subscription_events e WHERE e.subscription_id = s.id
+);
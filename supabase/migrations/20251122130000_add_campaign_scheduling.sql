@@ -0,0 +1,374 @@
+/*
+  # Scheduled and Recurring Campaigns
+
+  1. Problem
+    - send-campaign only sent when the owner invoked it, and campaign_metrics held a single
+      row per campaign that every send overwrote
+
+  2. Changes
+    - `restaurants.timezone`: IANA time zone schedules are interpreted in (default UTC)
+    - `campaigns` schedule columns:
+        schedule_start_at    first send as local wall time in the restaurant's time zone
+        recurrence           none, daily, weekly or monthly
+        recurrence_weekdays  weekly only; 0 = Sunday ... 6 = Saturday (defaults to the first send's weekday)
+        recurrence_end_date  last local date a run may happen on
+        next_run_at          next run in UTC, maintained by trigger; NULL when nothing is scheduled
+                             or the campaign's status does not allow runs
+        last_run_at          when the scheduler last started a run
+      e.g. every Friday at 11:00 is schedule_start_at = '2025-11-28 11:00', recurrence = 'weekly'
+    - Only campaigns with status scheduled, or sent for a recurring campaign after a run, are run;
+      draft, paused and cancelled campaigns keep their schedule but get no next_run_at until they
+      return to one of those statuses
+    - `next_campaign_run_at`: next occurrence after a given instant; monthly campaigns whose day
+      does not exist in a month run on its last day
+    - `campaign_metrics` now has one row per execution (run) of a campaign:
+        execution_number, triggered_by (manual / scheduled), scheduled_for, status
+        (running / completed / failed), error_message, total_skipped, started_at, completed_at
+      and `campaign_metric_totals` sums them per campaign for existing readers
+    - `campaign_sends.execution_id`: the execution a send belongs to
+    - `start_campaign_execution`: opens the metrics row for a run
+    - `claim_due_campaign_runs`: locks due campaigns, opens a scheduled execution for each and
+      moves next_run_at on; runs missed while the scheduler was down are skipped, not sent in a burst
+
+  3. Deployment
+    - Run the process-scheduled-campaigns function every minute with the service role key
+
+  4. Security
+    - `start_campaign_execution` and `claim_due_campaign_runs` can only be called with the service role
+*/
+
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(p_timezone text)
+RETURNS boolean AS $$
+BEGIN
+  PERFORM NOW() AT TIME ZONE p_timezone;
+  RETURN true;
+EXCEPTION WHEN others THEN
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+ALTER TABLE restaurants ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC'
+  CHECK (public.is_valid_timezone(timezone));
+
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS schedule_start_at timestamp;
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS recurrence text NOT NULL DEFAULT 'none'
+  CHECK (recurrence IN ('none', 'daily', 'weekly', 'monthly'));
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS recurrence_weekdays smallint[]
+  CHECK (recurrence_weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]);
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS recurrence_end_date date;
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS next_run_at timestamptz;
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS last_run_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_next_run_at
+  ON campaigns (next_run_at)
+  WHERE next_run_at IS NOT NULL;
+
+-- campaign_metrics: one row per execution instead of one per campaign
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS id uuid NOT NULL DEFAULT gen_random_uuid();
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS execution_number integer NOT NULL DEFAULT 1;
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS triggered_by text NOT NULL DEFAULT 'manual'
+  CHECK (triggered_by IN ('manual', 'scheduled'));
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS scheduled_for timestamptz;
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'completed'
+  CHECK (status IN ('running', 'completed', 'failed'));
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS error_message text;
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS total_skipped integer NOT NULL DEFAULT 0;
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS started_at timestamptz;
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+-- The old key allowed a single row per campaign
+DO $$
+DECLARE
+  v_constraint text;
+BEGIN
+  FOR v_constraint IN
+    SELECT c.conname
+    FROM pg_constraint c
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attname = 'campaign_id'
+    WHERE c.conrelid = 'campaign_metrics'::regclass
+      AND c.contype IN ('p', 'u')
+      AND c.conkey = ARRAY[a.attnum]
+  LOOP
+    EXECUTE format('ALTER TABLE campaign_metrics DROP CONSTRAINT %I', v_constraint);
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conrelid = 'campaign_metrics'::regclass AND contype = 'p'
+  ) THEN
+    ALTER TABLE campaign_metrics ADD PRIMARY KEY (id);
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_campaign_metrics_execution
+  ON campaign_metrics (campaign_id, execution_number);
+
+-- Referenced by campaign_sends even when the table keeps an older primary key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_campaign_metrics_id
+  ON campaign_metrics (id);
+
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS execution_id uuid
+  REFERENCES campaign_metrics(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_sends_execution
+  ON campaign_sends (execution_id);
+
+CREATE OR REPLACE VIEW campaign_metric_totals
+WITH (security_invoker = true) AS
+SELECT
+  campaign_id,
+  COUNT(*) AS executions,
+  SUM(total_targeted) AS total_targeted,
+  SUM(total_sent) AS total_sent,
+  SUM(total_failed) AS total_failed,
+  SUM(total_skipped) AS total_skipped,
+  MAX(completed_at) AS last_completed_at
+FROM campaign_metrics
+GROUP BY campaign_id;
+
+-- Next run strictly after p_after, in UTC. Occurrences keep the local wall time of the first send,
+-- so a weekly 11:00 campaign stays at 11:00 across daylight saving changes.
+CREATE OR REPLACE FUNCTION public.next_campaign_run_at(
+  p_start_local timestamp,
+  p_recurrence text,
+  p_weekdays smallint[],
+  p_end_date date,
+  p_timezone text,
+  p_after timestamptz
+)
+RETURNS timestamptz AS $$
+DECLARE
+  v_time time;
+  v_day date;
+  v_month_start date;
+  v_candidate timestamp;
+  v_weekdays smallint[];
+  i integer;
+BEGIN
+  IF p_start_local IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_recurrence = 'none' THEN
+    IF (p_start_local AT TIME ZONE p_timezone) > p_after THEN
+      RETURN p_start_local AT TIME ZONE p_timezone;
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  v_time := p_start_local::time;
+  v_day := GREATEST(p_start_local::date, (p_after AT TIME ZONE p_timezone)::date);
+  v_weekdays := COALESCE(NULLIF(p_weekdays, '{}'), ARRAY[EXTRACT(DOW FROM p_start_local)::smallint]);
+
+  IF p_recurrence = 'monthly' THEN
+    FOR i IN 0..24 LOOP
+      v_month_start := (date_trunc('month', v_day::timestamp) + make_interval(months => i))::date;
+      v_candidate := LEAST(
+        v_month_start + (EXTRACT(DAY FROM p_start_local)::integer - 1),
+        (v_month_start + interval '1 month' - interval '1 day')::date
+      ) + v_time;
+
+      IF p_end_date IS NOT NULL AND v_candidate::date > p_end_date THEN
+        RETURN NULL;
+      END IF;
+
+      IF v_candidate >= p_start_local AND (v_candidate AT TIME ZONE p_timezone) > p_after THEN
+        RETURN v_candidate AT TIME ZONE p_timezone;
+      END IF;
+    END LOOP;
+
+    RETURN NULL;
+  END IF;
+
+  FOR i IN 0..14 LOOP
+    v_candidate := (v_day + i) + v_time;
+
+    IF p_end_date IS NOT NULL AND v_candidate::date > p_end_date THEN
+      RETURN NULL;
+    END IF;
+
+    IF (p_recurrence = 'daily' OR EXTRACT(DOW FROM v_candidate)::smallint = ANY (v_weekdays))
+      AND v_candidate >= p_start_local
+      AND (v_candidate AT TIME ZONE p_timezone) > p_after THEN
+      RETURN v_candidate AT TIME ZONE p_timezone;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Statuses a campaign may be run in by the scheduler. A run marks the campaign sent, which must not
+-- stop a recurring campaign.
+CREATE OR REPLACE FUNCTION public.campaign_status_allows_runs(p_status text)
+RETURNS boolean AS $$
+  SELECT COALESCE(p_status IN ('scheduled', 'sent'), false);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.schedule_campaign()
+RETURNS trigger AS $$
+DECLARE
+  v_timezone text;
+BEGIN
+  IF NOT public.campaign_status_allows_runs(NEW.status::text) THEN
+    NEW.next_run_at := NULL;
+  ELSIF TG_OP = 'INSERT'
+    OR NOT public.campaign_status_allows_runs(OLD.status::text)
+    OR NEW.schedule_start_at IS DISTINCT FROM OLD.schedule_start_at
+    OR NEW.recurrence IS DISTINCT FROM OLD.recurrence
+    OR NEW.recurrence_weekdays IS DISTINCT FROM OLD.recurrence_weekdays
+    OR NEW.recurrence_end_date IS DISTINCT FROM OLD.recurrence_end_date THEN
+    SELECT timezone INTO v_timezone FROM restaurants WHERE id = NEW.restaurant_id;
+
+    NEW.next_run_at := public.next_campaign_run_at(
+      NEW.schedule_start_at,
+      NEW.recurrence,
+      NEW.recurrence_weekdays,
+      NEW.recurrence_end_date,
+      COALESCE(v_timezone, 'UTC'),
+      NOW()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS schedule_campaign ON campaigns;
+
+CREATE TRIGGER schedule_campaign
+  BEFORE INSERT OR UPDATE ON campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.schedule_campaign();
+
+-- Pending runs follow the restaurant when it changes time zone
+CREATE OR REPLACE FUNCTION public.reschedule_restaurant_campaigns()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE campaigns
+  SET next_run_at = public.next_campaign_run_at(
+    schedule_start_at,
+    recurrence,
+    recurrence_weekdays,
+    recurrence_end_date,
+    NEW.timezone,
+    NOW()
+  )
+  WHERE restaurant_id = NEW.id
+    AND next_run_at IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reschedule_restaurant_campaigns ON restaurants;
+
+CREATE TRIGGER reschedule_restaurant_campaigns
+  AFTER UPDATE OF timezone ON restaurants
+  FOR EACH ROW
+  WHEN (NEW.timezone IS DISTINCT FROM OLD.timezone)
+  EXECUTE FUNCTION public.reschedule_restaurant_campaigns();
+
+-- Opens the metrics row for one run of a campaign and returns its id
+CREATE OR REPLACE FUNCTION public.start_campaign_execution(
+  p_campaign_id uuid,
+  p_trigger text,
+  p_scheduled_for timestamptz DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_execution_id uuid;
+BEGIN
+  -- Serialises execution numbers per campaign
+  PERFORM 1 FROM campaigns WHERE id = p_campaign_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign % not found', p_campaign_id;
+  END IF;
+
+  INSERT INTO campaign_metrics (
+    campaign_id,
+    execution_number,
+    triggered_by,
+    scheduled_for,
+    status,
+    total_targeted,
+    total_sent,
+    total_failed,
+    started_at,
+    updated_at
+  )
+  SELECT
+    p_campaign_id,
+    COALESCE(MAX(execution_number), 0) + 1,
+    p_trigger,
+    p_scheduled_for,
+    'running',
+    0,
+    0,
+    0,
+    NOW(),
+    NOW()
+  FROM campaign_metrics
+  WHERE campaign_id = p_campaign_id
+  RETURNING id INTO v_execution_id;
+
+  RETURN v_execution_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Claims up to p_limit due campaigns for the scheduler. Locked rows are skipped so overlapping
+-- workers never start the same run twice.
+CREATE OR REPLACE FUNCTION public.claim_due_campaign_runs(p_limit integer DEFAULT 20)
+RETURNS jsonb AS $$
+DECLARE
+  v_campaign record;
+  v_execution_id uuid;
+  v_claimed jsonb := '[]'::jsonb;
+BEGIN
+  FOR v_campaign IN
+    SELECT
+      c.id,
+      c.next_run_at,
+      c.schedule_start_at,
+      c.recurrence,
+      c.recurrence_weekdays,
+      c.recurrence_end_date,
+      COALESCE(r.timezone, 'UTC') AS timezone
+    FROM campaigns c
+    JOIN restaurants r ON r.id = c.restaurant_id
+    WHERE c.next_run_at <= NOW()
+      AND public.campaign_status_allows_runs(c.status::text)
+    ORDER BY c.next_run_at
+    LIMIT p_limit
+    FOR UPDATE OF c SKIP LOCKED
+  LOOP
+    v_execution_id := public.start_campaign_execution(v_campaign.id, 'scheduled', v_campaign.next_run_at);
+
+    UPDATE campaigns
+    SET
+      next_run_at = public.next_campaign_run_at(
+        v_campaign.schedule_start_at,
+        v_campaign.recurrence,
+        v_campaign.recurrence_weekdays,
+        v_campaign.recurrence_end_date,
+        v_campaign.timezone,
+        NOW()
+      ),
+      last_run_at = NOW()
+    WHERE id = v_campaign.id;
+
+    v_claimed := v_claimed || jsonb_build_object(
+      'campaign_id', v_campaign.id,
+      'execution_id', v_execution_id,
+      'scheduled_for', v_campaign.next_run_at
+    );
+  END LOOP;
+
+  RETURN v_claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.start_campaign_execution(uuid, text, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_due_campaign_runs(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_campaign_execution(uuid, text, timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_due_campaign_runs(integer) TO service_role;
@@ -0,0 +1,395 @@
+/*
+  # Campaign Delivery Queue
+
+  1. Problem
+    - send-campaign sent to every recipient inside one HTTP request: large audiences timed out,
+      hit Twilio and SendGrid rate limits, and a crash lost track of who had been sent to
+
+  2. New Tables
+    - `campaign_provider_limits`: messages per minute each provider may be sent, shared by all
+      workers; providers without a row use the `default` row
+
+  3. Changes
+    - `campaign_sends` is now the delivery queue, one job per recipient:
+        status queued -> sending -> delivered | failed (a retried job goes back to queued)
+        recipient, message_body, message_subject   the message, personalised when queued
+        provider                                    the restaurant's provider for the channel
+        attempts, max_attempts, next_attempt_at     retries with exponential backoff
+        locked_at, locked_by                        lease held by the worker sending the job
+        message_id                                  provider message id
+      (execution_id, customer_id) is unique so re-enqueueing a run is idempotent
+    - `campaign_metrics.enqueued_at`: set once every job of the execution is queued; an execution
+      is only completed after that, so workers cannot finish it while it is still being queued
+    - `campaign_metrics.enqueue_attempts` / `enqueue_leased_at`: an execution whose queueing was
+      interrupted (the function crashed or timed out) is queued again by the scheduler
+    - `finish_campaign_enqueue`: records the audience totals and completes an execution with nothing to send
+    - `claim_campaign_sends`: leases due jobs without exceeding each provider's per-minute limit;
+      jobs whose lease expired (the worker crashed) are claimed again, or failed once they have
+      used all their attempts
+    - `claim_stalled_campaign_enqueues`: leases executions still running without enqueued_at after a
+      timeout so process-scheduled-campaigns can queue them again; gives up after a few attempts
+    - `complete_campaign_send`: records the outcome, schedules a retry for transient failures
+      (30s, 1m, 2m ... capped at 1h, with jitter) and completes the execution when its queue is empty
+
+  4. Deployment
+    - Run the process-campaign-queue function every minute with the service role key
+    - process-scheduled-campaigns (run every minute) also queues interrupted executions again
+
+  5. Security
+    - The queue functions can only be called with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS campaign_provider_limits (
+  provider text PRIMARY KEY,
+  messages_per_minute integer NOT NULL CHECK (messages_per_minute > 0),
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO campaign_provider_limits (provider, messages_per_minute) VALUES
+  ('twilio', 60),
+  ('sendgrid', 600),
+  ('default', 60)
+ON CONFLICT (provider) DO NOTHING;
+
+ALTER TABLE campaign_provider_limits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access" ON campaign_provider_limits;
+
+CREATE POLICY "Service role full access"
+  ON campaign_provider_limits
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS enqueued_at timestamptz;
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS enqueue_attempts integer NOT NULL DEFAULT 1;
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS enqueue_leased_at timestamptz;
+
+-- Executions from before the queue were sent in full already
+UPDATE campaign_metrics SET enqueued_at = COALESCE(started_at, updated_at, NOW()) WHERE enqueued_at IS NULL;
+
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS recipient text;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS message_body text;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS message_subject text;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS provider text;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS max_attempts integer NOT NULL DEFAULT 5
+  CHECK (max_attempts > 0);
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS last_attempt_at timestamptz;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS locked_at timestamptz;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS locked_by text;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS message_id text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conrelid = 'campaign_sends'::regclass
+      AND conname = 'campaign_sends_execution_customer_key'
+  ) THEN
+    ALTER TABLE campaign_sends
+      ADD CONSTRAINT campaign_sends_execution_customer_key UNIQUE (execution_id, customer_id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_sends_queue
+  ON campaign_sends (provider, next_attempt_at)
+  WHERE status IN ('queued', 'sending');
+
+CREATE INDEX IF NOT EXISTS idx_campaign_sends_recent_attempts
+  ON campaign_sends (provider, last_attempt_at);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_metrics_enqueuing
+  ON campaign_metrics (started_at)
+  WHERE status = 'running' AND enqueued_at IS NULL;
+
+-- Adds finished jobs to an execution's totals and completes it once it is fully queued and none
+-- of its jobs are left to send
+CREATE OR REPLACE FUNCTION public.record_campaign_send_totals(
+  p_execution_id uuid,
+  p_delivered integer,
+  p_failed integer
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE campaign_metrics
+  SET total_sent = total_sent + p_delivered,
+      total_failed = total_failed + p_failed,
+      updated_at = NOW()
+  WHERE id = p_execution_id;
+
+  UPDATE campaign_metrics
+  SET status = 'completed',
+      completed_at = NOW()
+  WHERE id = p_execution_id
+    AND status = 'running'
+    AND enqueued_at IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM campaign_sends
+      WHERE execution_id = p_execution_id
+        AND status IN ('queued', 'sending')
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Leases up to p_limit due jobs to p_worker. Each provider gets at most its per-minute limit minus
+-- the attempts already made in the last minute; the advisory lock stops two workers spending the
+-- same budget. A job still `sending` after p_lease_seconds belongs to a crashed worker and is retried,
+-- unless that was its last attempt, in which case it is failed.
+CREATE OR REPLACE FUNCTION public.claim_campaign_sends(
+  p_worker text,
+  p_limit integer DEFAULT 50,
+  p_lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF campaign_sends AS $$
+DECLARE
+  v_provider text;
+  v_per_minute integer;
+  v_recent integer;
+  v_claimed integer := 0;
+  v_count integer;
+  v_expired record;
+BEGIN
+  FOR v_expired IN
+    WITH expired AS (
+      UPDATE campaign_sends
+      SET status = 'failed',
+          error_message = COALESCE(error_message, 'Lease expired on the last attempt'),
+          sent_at = NOW(),
+          locked_at = NULL,
+          locked_by = NULL
+      WHERE id IN (
+        SELECT id
+        FROM campaign_sends
+        WHERE status = 'sending'
+          AND locked_at < NOW() - make_interval(secs => p_lease_seconds)
+          AND attempts >= max_attempts
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING execution_id
+    )
+    SELECT execution_id, COUNT(*)::integer AS failed
+    FROM expired
+    WHERE execution_id IS NOT NULL
+    GROUP BY execution_id
+  LOOP
+    PERFORM public.record_campaign_send_totals(v_expired.execution_id, 0, v_expired.failed);
+  END LOOP;
+
+  FOR v_provider IN
+    SELECT DISTINCT provider
+    FROM campaign_sends
+    WHERE (status = 'queued' AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND locked_at < NOW() - make_interval(secs => p_lease_seconds))
+  LOOP
+    EXIT WHEN v_claimed >= p_limit;
+
+    PERFORM pg_advisory_xact_lock(hashtext('campaign_sends:' || COALESCE(v_provider, 'default')));
+
+    SELECT messages_per_minute INTO v_per_minute
+    FROM campaign_provider_limits
+    WHERE provider = COALESCE(v_provider, 'default');
+
+    IF v_per_minute IS NULL THEN
+      SELECT messages_per_minute INTO v_per_minute
+      FROM campaign_provider_limits
+      WHERE provider = 'default';
+    END IF;
+
+    SELECT COUNT(*) INTO v_recent
+    FROM campaign_sends
+    WHERE provider IS NOT DISTINCT FROM v_provider
+      AND last_attempt_at > NOW() - interval '1 minute';
+
+    CONTINUE WHEN COALESCE(v_per_minute, 60) - v_recent <= 0;
+
+    RETURN QUERY
+    UPDATE campaign_sends
+    SET
+      status = 'sending',
+      attempts = attempts + 1,
+      last_attempt_at = NOW(),
+      locked_at = NOW(),
+      locked_by = p_worker
+    WHERE id IN (
+      SELECT id
+      FROM campaign_sends
+      WHERE provider IS NOT DISTINCT FROM v_provider
+        AND ((status = 'queued' AND next_attempt_at <= NOW())
+          OR (status = 'sending' AND locked_at < NOW() - make_interval(secs => p_lease_seconds)))
+      ORDER BY next_attempt_at
+      LIMIT LEAST(COALESCE(v_per_minute, 60) - v_recent, p_limit - v_claimed)
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_claimed := v_claimed + v_count;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Records the outcome of a leased job. Transient failures are queued again with exponential backoff
+-- until max_attempts; the execution is completed once none of its jobs are left to send.
+CREATE OR REPLACE FUNCTION public.complete_campaign_send(
+  p_send_id uuid,
+  p_worker text,
+  p_success boolean,
+  p_error text DEFAULT NULL,
+  p_retryable boolean DEFAULT false,
+  p_message_id text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_send campaign_sends%ROWTYPE;
+  v_status text;
+  v_backoff interval;
+BEGIN
+  SELECT * INTO v_send
+  FROM campaign_sends
+  WHERE id = p_send_id
+  FOR UPDATE;
+
+  -- The lease expired and another worker owns the job now
+  IF NOT FOUND OR v_send.status <> 'sending' OR v_send.locked_by IS DISTINCT FROM p_worker THEN
+    RETURN jsonb_build_object('recorded', false);
+  END IF;
+
+  IF p_success THEN
+    v_status := 'delivered';
+
+    UPDATE campaign_sends
+    SET status = v_status,
+        sent_at = NOW(),
+        message_id = p_message_id,
+        error_message = NULL,
+        locked_at = NULL,
+        locked_by = NULL
+    WHERE id = p_send_id;
+  ELSIF p_retryable AND v_send.attempts < v_send.max_attempts THEN
+    v_status := 'queued';
+    v_backoff := LEAST(interval '30 seconds' * power(2, v_send.attempts - 1), interval '1 hour');
+
+    UPDATE campaign_sends
+    SET status = v_status,
+        error_message = p_error,
+        next_attempt_at = NOW() + v_backoff + (v_backoff * 0.2 * random()),
+        locked_at = NULL,
+        locked_by = NULL
+    WHERE id = p_send_id;
+  ELSE
+    v_status := 'failed';
+
+    UPDATE campaign_sends
+    SET status = v_status,
+        error_message = p_error,
+        sent_at = NOW(),
+        locked_at = NULL,
+        locked_by = NULL
+    WHERE id = p_send_id;
+  END IF;
+
+  IF v_send.execution_id IS NOT NULL AND v_status <> 'queued' THEN
+    PERFORM public.record_campaign_send_totals(
+      v_send.execution_id,
+      CASE WHEN v_status = 'delivered' THEN 1 ELSE 0 END,
+      CASE WHEN v_status = 'failed' THEN 1 ELSE 0 END
+    );
+  END IF;
+
+  RETURN jsonb_build_object('recorded', true, 'status', v_status);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called once every job of the execution is queued
+CREATE OR REPLACE FUNCTION public.finish_campaign_enqueue(
+  p_execution_id uuid,
+  p_targeted integer,
+  p_skipped integer
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE campaign_metrics
+  SET total_targeted = p_targeted,
+      total_skipped = p_skipped,
+      enqueued_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_execution_id;
+
+  -- Jobs may all have been sent while the rest were being queued
+  UPDATE campaign_metrics
+  SET status = 'completed',
+      completed_at = NOW()
+  WHERE id = p_execution_id
+    AND status = 'running'
+    AND NOT EXISTS (
+      SELECT 1 FROM campaign_sends
+      WHERE execution_id = p_execution_id
+        AND status IN ('queued', 'sending')
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Leases executions whose queueing was interrupted: still running without enqueued_at more than
+-- p_stale_seconds after they started or were last leased. Returns them in the shape of
+-- claim_due_campaign_runs; executions that already had p_max_attempts tries are failed instead.
+CREATE OR REPLACE FUNCTION public.claim_stalled_campaign_enqueues(
+  p_stale_seconds integer DEFAULT 600,
+  p_max_attempts integer DEFAULT 3,
+  p_limit integer DEFAULT 20
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_execution record;
+  v_claimed jsonb := '[]'::jsonb;
+BEGIN
+  FOR v_execution IN
+    SELECT id, campaign_id, scheduled_for, enqueue_attempts
+    FROM campaign_metrics
+    WHERE status = 'running'
+      AND enqueued_at IS NULL
+      AND COALESCE(enqueue_leased_at, started_at, updated_at) < NOW() - make_interval(secs => p_stale_seconds)
+    ORDER BY started_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF v_execution.enqueue_attempts >= p_max_attempts THEN
+      UPDATE campaign_metrics
+      SET status = 'failed',
+          error_message = format('Queueing was interrupted %s times', v_execution.enqueue_attempts),
+          completed_at = NOW(),
+          updated_at = NOW()
+      WHERE id = v_execution.id;
+
+      CONTINUE;
+    END IF;
+
+    UPDATE campaign_metrics
+    SET enqueue_attempts = enqueue_attempts + 1,
+        enqueue_leased_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_execution.id;
+
+    v_claimed := v_claimed || jsonb_build_object(
+      'campaign_id', v_execution.campaign_id,
+      'execution_id', v_execution.id,
+      'scheduled_for', v_execution.scheduled_for
+    );
+  END LOOP;
+
+  RETURN v_claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.record_campaign_send_totals(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_campaign_send_totals(uuid, integer, integer) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.claim_stalled_campaign_enqueues(integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_stalled_campaign_enqueues(integer, integer, integer) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.claim_campaign_sends(text, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_campaign_send(uuid, text, boolean, text, boolean, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_campaign_sends(text, integer, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_campaign_send(uuid, text, boolean, text, boolean, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.finish_campaign_enqueue(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.finish_campaign_enqueue(uuid, integer, integer) TO service_role;
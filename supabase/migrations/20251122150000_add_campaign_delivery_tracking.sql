@@ -0,0 +1,191 @@
+/*
+  # Campaign Delivery Tracking
+
+  1. Problem
+    - campaign_sends only recorded whether the provider accepted the message, so owners could not
+      see whether messages were actually delivered, opened or clicked
+
+  2. Changes
+    - `campaign_sends` delivery columns, updated from provider status webhooks:
+        delivery_status      sent, delivered, opened, clicked, bounced (email) or undelivered (WhatsApp / SMS)
+        delivered_at, opened_at, clicked_at   first time each happened
+        delivery_error       provider reason for a bounce or undelivered message
+        delivery_updated_at  last status event applied
+      Events can arrive out of order, so a status only moves forward: a late `sent` never replaces
+      `delivered`, and a bounce reported after delivery is ignored. A click counts as an open and an
+      open as a delivery.
+    - `campaign_metrics` gains total_delivered, total_opened, total_clicked and total_undelivered,
+      recomputed from campaign_sends whenever an execution receives events
+    - `campaign_metric_totals` gains the same totals plus delivery_rate, open_rate and click_rate
+      (percentages of the messages the provider accepted)
+    - `record_campaign_delivery_events`: applies a batch of normalised events for one restaurant
+
+  3. Deployment
+    - Deploy twilio-status-callback and sendgrid-events with JWT verification disabled; both verify
+      the provider's signature instead
+    - SendGrid: point the Event Webhook at /functions/v1/sendgrid-events?restaurant_id=<restaurant id>,
+      enable signed webhooks and save the verification key as `eventWebhookPublicKey` in the email
+      provider config
+    - Twilio needs no setup: every WhatsApp and SMS send asks for status callbacks
+
+  4. Security
+    - `record_campaign_delivery_events` can only be called with the service role and only touches
+      sends of campaigns that belong to the given restaurant
+*/
+
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS delivery_status text
+  CHECK (delivery_status IN ('sent', 'delivered', 'opened', 'clicked', 'bounced', 'undelivered'));
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS delivered_at timestamptz;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS opened_at timestamptz;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS clicked_at timestamptz;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS delivery_error text;
+ALTER TABLE campaign_sends ADD COLUMN IF NOT EXISTS delivery_updated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_sends_message_id
+  ON campaign_sends (provider, message_id)
+  WHERE message_id IS NOT NULL;
+
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS total_delivered integer NOT NULL DEFAULT 0;
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS total_opened integer NOT NULL DEFAULT 0;
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS total_clicked integer NOT NULL DEFAULT 0;
+ALTER TABLE campaign_metrics ADD COLUMN IF NOT EXISTS total_undelivered integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE VIEW campaign_metric_totals
+WITH (security_invoker = true) AS
+SELECT
+  campaign_id,
+  COUNT(*) AS executions,
+  SUM(total_targeted) AS total_targeted,
+  SUM(total_sent) AS total_sent,
+  SUM(total_failed) AS total_failed,
+  SUM(total_skipped) AS total_skipped,
+  MAX(completed_at) AS last_completed_at,
+  SUM(total_delivered) AS total_delivered,
+  SUM(total_opened) AS total_opened,
+  SUM(total_clicked) AS total_clicked,
+  SUM(total_undelivered) AS total_undelivered,
+  ROUND(100.0 * SUM(total_delivered) / NULLIF(SUM(total_sent), 0), 1) AS delivery_rate,
+  ROUND(100.0 * SUM(total_opened) / NULLIF(SUM(total_sent), 0), 1) AS open_rate,
+  ROUND(100.0 * SUM(total_clicked) / NULLIF(SUM(total_sent), 0), 1) AS click_rate
+FROM campaign_metrics
+GROUP BY campaign_id;
+
+-- Later statuses win; failures rank below delivery so a late bounce cannot undo it
+CREATE OR REPLACE FUNCTION public.campaign_delivery_rank(p_status text)
+RETURNS integer AS $$
+  SELECT CASE p_status
+    WHEN 'sent' THEN 1
+    WHEN 'bounced' THEN 2
+    WHEN 'undelivered' THEN 2
+    WHEN 'delivered' THEN 3
+    WHEN 'opened' THEN 4
+    WHEN 'clicked' THEN 5
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Recounts an execution's delivery totals from its sends. The row lock makes concurrent webhook
+-- batches recount one after another, so none of them overwrites the other's events.
+CREATE OR REPLACE FUNCTION public.refresh_campaign_delivery_metrics(p_execution_id uuid)
+RETURNS void AS $$
+BEGIN
+  PERFORM 1 FROM campaign_metrics WHERE id = p_execution_id FOR UPDATE;
+
+  UPDATE campaign_metrics m
+  SET total_delivered = counts.delivered,
+      total_opened = counts.opened,
+      total_clicked = counts.clicked,
+      total_undelivered = counts.undelivered,
+      updated_at = NOW()
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE delivered_at IS NOT NULL) AS delivered,
+      COUNT(*) FILTER (WHERE opened_at IS NOT NULL) AS opened,
+      COUNT(*) FILTER (WHERE clicked_at IS NOT NULL) AS clicked,
+      COUNT(*) FILTER (WHERE delivery_status IN ('bounced', 'undelivered')) AS undelivered
+    FROM campaign_sends
+    WHERE execution_id = p_execution_id
+  ) counts
+  WHERE m.id = p_execution_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Applies provider events, each {message_id, event, occurred_at, error} with event one of the
+-- delivery statuses, to the restaurant's sends. Returns how many sends were updated.
+CREATE OR REPLACE FUNCTION public.record_campaign_delivery_events(
+  p_restaurant_id uuid,
+  p_provider text,
+  p_events jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_event jsonb;
+  v_status text;
+  v_occurred_at timestamptz;
+  v_execution_id uuid;
+  v_executions uuid[] := ARRAY[]::uuid[];
+  v_updated integer := 0;
+BEGIN
+  FOR v_event IN SELECT * FROM jsonb_array_elements(COALESCE(p_events, '[]'::jsonb))
+  LOOP
+    v_status := v_event->>'event';
+
+    CONTINUE WHEN public.campaign_delivery_rank(v_status) = 0 OR v_event->>'message_id' IS NULL;
+
+    v_occurred_at := COALESCE((v_event->>'occurred_at')::timestamptz, NOW());
+
+    FOR v_execution_id IN
+      UPDATE campaign_sends s
+      SET delivery_status = CASE
+            WHEN public.campaign_delivery_rank(v_status) > public.campaign_delivery_rank(s.delivery_status)
+              THEN v_status
+            ELSE s.delivery_status
+          END,
+          delivered_at = CASE
+            WHEN v_status IN ('delivered', 'opened', 'clicked')
+              THEN LEAST(COALESCE(s.delivered_at, v_occurred_at), v_occurred_at)
+            ELSE s.delivered_at
+          END,
+          opened_at = CASE
+            WHEN v_status IN ('opened', 'clicked')
+              THEN LEAST(COALESCE(s.opened_at, v_occurred_at), v_occurred_at)
+            ELSE s.opened_at
+          END,
+          clicked_at = CASE
+            WHEN v_status = 'clicked'
+              THEN LEAST(COALESCE(s.clicked_at, v_occurred_at), v_occurred_at)
+            ELSE s.clicked_at
+          END,
+          delivery_error = CASE
+            WHEN v_status IN ('bounced', 'undelivered') THEN v_event->>'error'
+            ELSE s.delivery_error
+          END,
+          delivery_updated_at = NOW()
+      FROM campaigns c
+      WHERE s.provider = p_provider
+        AND s.message_id = v_event->>'message_id'
+        AND c.id = s.campaign_id
+        AND c.restaurant_id = p_restaurant_id
+      RETURNING s.execution_id
+    LOOP
+      v_updated := v_updated + 1;
+
+      IF v_execution_id IS NOT NULL AND NOT v_execution_id = ANY(v_executions) THEN
+        v_executions := array_append(v_executions, v_execution_id);
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  FOREACH v_execution_id IN ARRAY v_executions
+  LOOP
+    PERFORM public.refresh_campaign_delivery_metrics(v_execution_id);
+  END LOOP;
+
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_campaign_delivery_metrics(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_campaign_delivery_events(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_campaign_delivery_metrics(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_campaign_delivery_events(uuid, text, jsonb) TO service_role;
@@ -0,0 +1,66 @@
+/*
+  # Customer Push Subscriptions
+
+  1. Problem
+    - Campaigns could target the push channel, but sendMessage reported success without sending
+      anything because customers' browsers and wallet apps were never registered
+
+  2. New Tables
+    - `customer_push_subscriptions`: one row per registered browser or wallet app (Web Push
+      subscription): endpoint, p256dh and auth keys, user agent, expires_at and last_success_at
+
+  3. Changes
+    - Push is configured like the other channels: a `channel_provider_configs` row with
+      channel = 'push', provider = 'webpush', the VAPID private key in api_key_encrypted and
+      config_json = { "vapidPublicKey": "...", "subject": "mailto:owner@example.com" }
+    - Subscriptions are removed when the push service reports them gone (404 / 410) and when
+      their expires_at has passed
+
+  4. Security
+    - Customers register and unregister their own devices through register-push-subscription
+    - Restaurant owners can read the subscriptions of their own customers
+*/
+
+CREATE TABLE IF NOT EXISTS customer_push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  expires_at timestamptz,
+  last_success_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_push_subscriptions_customer
+  ON customer_push_subscriptions (customer_id);
+
+CREATE INDEX IF NOT EXISTS idx_customer_push_subscriptions_restaurant
+  ON customer_push_subscriptions (restaurant_id);
+
+ALTER TABLE customer_push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant owners can read customer push subscriptions" ON customer_push_subscriptions;
+DROP POLICY IF EXISTS "Service role full access" ON customer_push_subscriptions;
+
+CREATE POLICY "Restaurant owners can read customer push subscriptions"
+  ON customer_push_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = customer_push_subscriptions.restaurant_id
+        AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role full access"
+  ON customer_push_subscriptions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
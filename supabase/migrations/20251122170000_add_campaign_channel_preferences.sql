@@ -0,0 +1,40 @@
+/*
+  # Campaign Channel Preferences
+
+  1. Problem
+    - A campaign went out on its primary_channel only, so customers without a phone number,
+      email address or consent for that channel were skipped even when another channel could
+      reach them
+
+  2. Changes
+    - `campaigns.channel_preferences`: ordered list of channels to try, e.g.
+      '{whatsapp,sms,email}'. Each customer is queued on the first channel they have both contact
+      details and consent for; customers reachable on none of them are skipped. NULL keeps the
+      old behaviour of sending on primary_channel only.
+    - `primary_channel` follows the first preference, so existing readers keep working
+    - `campaign_sends.channel` records the channel each customer was actually sent on
+*/
+
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS channel_preferences text[]
+  CHECK (
+    cardinality(channel_preferences) > 0
+    AND channel_preferences <@ ARRAY['whatsapp', 'sms', 'email', 'push']::text[]
+  );
+
+CREATE OR REPLACE FUNCTION public.sync_campaign_primary_channel()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.channel_preferences IS NOT NULL THEN
+    NEW.primary_channel := NEW.channel_preferences[1];
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_campaign_primary_channel ON campaigns;
+
+CREATE TRIGGER sync_campaign_primary_channel
+  BEFORE INSERT OR UPDATE OF channel_preferences, primary_channel ON campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_campaign_primary_channel();